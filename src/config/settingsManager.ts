@@ -4,11 +4,72 @@
  */
 
 import * as vscode from 'vscode';
+import { WindowingOptions, DEFAULT_WINDOWING_OPTIONS } from '../core/sessionWindowing';
+import { TokenWeights, resolveTokenWeights } from '../core/tokenAccounting';
+import { PricingEntry, createPricingTable } from '../core/modelPricing';
+import { PlanProfile, AUTO_PLAN_ID, resolvePlanProfile } from '../core/planProfiles';
+import { QuotaWindowDefinition, DEFAULT_QUOTA_WINDOWS, inferLimitType } from '../core/quotaWindows';
+import { BudgetDefinition, DEFAULT_BUDGET_WARNING_PERCENTAGE, getBudgetId } from '../core/usageBudgets';
+import {
+    NotificationSettings,
+    DEFAULT_ALERT_THRESHOLDS,
+    DEFAULT_DEPLETION_WARNING_MINUTES,
+    parseClockTime
+} from '../core/usageAlerts';
+import {
+    StatusBarSettings,
+    StatusBarColors,
+    DEFAULT_STATUS_BAR_COLORS,
+    StatusBarItemDefinition,
+    StatusBarMetric,
+    STATUS_BAR_METRIC_PRESETS
+} from '../core/statusBarConfig';
+import { parsePlaceholderCondition } from '../core/statusBarTemplate';
+
+/** An entry of the `statusBarItems` setting as written by the user. */
+interface StatusBarItemConfig {
+    id?: unknown;
+    metric?: unknown;
+    format?: unknown;
+    command?: unknown;
+    tooltip?: unknown;
+    showWhen?: unknown;
+    alignment?: unknown;
+    priority?: unknown;
+}
 
 /** Interface for extension configuration settings. */
 export interface ExtensionSettings {
     /** Custom Rate Limit in tokens. Null for automatic detection. */
     customLimit: number | null;
+    /** Polling fallback interval in seconds, used alongside the file watcher. */
+    fallbackPollingInterval: number;
+    /** Additional Claude Code data roots. Supports `~` and environment variables. */
+    dataRoots: string[];
+    /** Whether common data root locations are detected automatically. */
+    autoDetectDataRoots: boolean;
+    /** Whether the status bar shows only the open workspace's share of the block. */
+    currentWorkspaceOnly: boolean;
+    /** Block window length and idle-gap rule. */
+    windowing: WindowingOptions;
+    /** How token types are combined into the tracked token total. */
+    tokenWeights: TokenWeights;
+    /** Built-in model prices combined with the user's overrides. */
+    pricingTable: PricingEntry[];
+    /** Selected subscription plan profile, undefined for automatic detection. */
+    plan: PlanProfile | undefined;
+    /** Quota windows evaluated alongside the 5-hour block. */
+    quotaWindows: QuotaWindowDefinition[];
+    /** Daily, weekly and monthly cost budgets. */
+    budgets: BudgetDefinition[];
+    /** Budget spend percentage from which a budget is nearly spent. */
+    budgetWarningPercentage: number;
+    /** Usage alert thresholds, snooze length and quiet hours. */
+    notifications: NotificationSettings;
+    /** Format, position and colours of the status bar item. */
+    statusBar: StatusBarSettings;
+    /** Additional status bar entries. */
+    statusBarItems: StatusBarItemDefinition[];
 }
 
 /** Centralized settings manager that isolates VSCode API dependencies. */
@@ -32,6 +93,306 @@ export class SettingsManager {
         return null;
     }
 
+    /**
+     * Gets the polling fallback interval.
+     * 
+     * @returns Interval in seconds (minimum 30)
+     */
+    static getFallbackPollingInterval(): number {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const interval = config.get<number>('fallbackPollingInterval', 300);
+        return Math.max(30, interval);
+    }
+
+    /**
+     * Gets the user-configured Claude Code data roots.
+     * 
+     * @returns List of raw root paths (not yet expanded)
+     */
+    static getDataRoots(): string[] {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const roots = config.get<unknown>('dataRoots', []);
+        return Array.isArray(roots) ? roots.filter((root): root is string => typeof root === 'string') : [];
+    }
+
+    /**
+     * Gets whether common data root locations are detected automatically.
+     * 
+     * @returns True if auto-detection is enabled
+     */
+    static getAutoDetectDataRoots(): boolean {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        return config.get<boolean>('autoDetectDataRoots', true);
+    }
+
+    /**
+     * Gets whether the status bar is limited to the open workspace.
+     * 
+     * @returns True if only the current workspace's usage is shown
+     */
+    static getCurrentWorkspaceOnly(): boolean {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        return config.get<boolean>('currentWorkspaceOnly', false);
+    }
+
+    /**
+     * Gets the block window length and idle-gap rule.
+     * 
+     * @returns Windowing options (defaults to Claude's 5-hour window and 5-hour idle gap)
+     */
+    static getWindowingOptions(): WindowingOptions {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const hourMs = 60 * 60 * 1000;
+        const windowHours = config.get<number>('windowHours', DEFAULT_WINDOWING_OPTIONS.windowMs / hourMs);
+        const idleGapHours = config.get<number>('idleGapHours', (DEFAULT_WINDOWING_OPTIONS.idleGapMs ?? 0) / hourMs);
+
+        return {
+            windowMs: Math.max(1, windowHours) * hourMs,
+            idleGapMs: idleGapHours > 0 ? idleGapHours * hourMs : null,
+            alignToHour: config.get<boolean>('alignWindowsToHour', DEFAULT_WINDOWING_OPTIONS.alignToHour)
+        };
+    }
+
+    /**
+     * Gets the token accounting weights from the `tokenModel` preset or custom weights.
+     * 
+     * @returns Token weights (defaults to input + output only)
+     */
+    static getTokenWeights(): TokenWeights {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const model = config.get<string>('tokenModel', 'raw-io');
+        const customWeights = config.get<Partial<TokenWeights>>('customTokenWeights');
+        return resolveTokenWeights(model, customWeights);
+    }
+
+    /**
+     * Gets the model pricing table, applying user overrides from `modelPricing`.
+     * Overrides without `effectiveFrom` apply to all records; missing cache prices
+     * default to Anthropic's usual ratios (write 1.25x, read 0.1x of input).
+     * 
+     * @returns Pricing table used for cost estimates
+     */
+    static getPricingTable(): PricingEntry[] {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const overrides = config.get<unknown>('modelPricing', []);
+        if (!Array.isArray(overrides)) {
+            return createPricingTable();
+        }
+
+        const isPrice = (value: unknown): value is number => typeof value === 'number' && value >= 0;
+        const entries: PricingEntry[] = overrides
+            .filter(item => item && typeof item.model === 'string' && item.model && isPrice(item.input) && isPrice(item.output))
+            .map(item => ({
+                model: item.model,
+                effectiveFrom: typeof item.effectiveFrom === 'string' && !isNaN(Date.parse(item.effectiveFrom))
+                    ? item.effectiveFrom
+                    : '1970-01-01',
+                price: {
+                    input: item.input,
+                    output: item.output,
+                    cacheWrite: isPrice(item.cacheWrite) ? item.cacheWrite : item.input * 1.25,
+                    cacheRead: isPrice(item.cacheRead) ? item.cacheRead : item.input * 0.1
+                }
+            }));
+
+        return createPricingTable(entries);
+    }
+
+    /**
+     * Gets the selected subscription plan from `plan`, resolved against `planProfiles`.
+     * 
+     * @returns Plan profile, or undefined when set to `auto` or an unknown id
+     */
+    static getPlanProfile(): PlanProfile | undefined {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const planId = config.get<string>('plan', AUTO_PLAN_ID);
+        const customProfiles = config.get<unknown>('planProfiles', {});
+        const profiles = customProfiles && typeof customProfiles === 'object' && !Array.isArray(customProfiles)
+            ? customProfiles as Record<string, Partial<PlanProfile>>
+            : {};
+        return resolvePlanProfile(planId, profiles);
+    }
+
+    /**
+     * Gets the quota windows: the built-in windows plus `quotaWindows`, with limits from `quotaLimits`.
+     * A custom window with a built-in id replaces the built-in window.
+     * 
+     * @returns Quota window definitions
+     */
+    static getQuotaWindows(): QuotaWindowDefinition[] {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const customWindows = config.get<unknown>('quotaWindows', []);
+        const limits = config.get<Record<string, number | null>>('quotaLimits', {}) ?? {};
+
+        const windows = new Map(DEFAULT_QUOTA_WINDOWS.map(window => [window.id, { ...window }]));
+
+        if (Array.isArray(customWindows)) {
+            for (const item of customWindows) {
+                if (!item || typeof item.id !== 'string' || typeof item.hours !== 'number' || item.hours <= 0) {
+                    continue;
+                }
+                const type: QuotaWindowDefinition['type'] = item.type === 'block' ? 'block' : 'rolling';
+                const durationMs = item.hours * 60 * 60 * 1000;
+                const modelFilter = typeof item.model === 'string' && item.model ? item.model : undefined;
+                windows.set(item.id, {
+                    id: item.id,
+                    label: typeof item.label === 'string' && item.label ? item.label : item.id,
+                    type,
+                    durationMs,
+                    modelFilter,
+                    limitType: inferLimitType(type, durationMs, modelFilter),
+                    limit: typeof item.limit === 'number' && item.limit > 0 ? item.limit : null
+                });
+            }
+        }
+
+        for (const [id, limit] of Object.entries(limits)) {
+            const window = windows.get(id);
+            if (window && typeof limit === 'number' && limit > 0) {
+                window.limit = limit;
+            }
+        }
+
+        return Array.from(windows.values());
+    }
+
+    /**
+     * Gets the configured cost budgets.
+     * Entries without a valid period or a positive amount are dropped; a later
+     * entry for the same period and project replaces an earlier one.
+     * 
+     * @returns Budget definitions in settings order
+     */
+    static getBudgets(): BudgetDefinition[] {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const entries = config.get<unknown>('budgets', []);
+        const budgets = new Map<string, BudgetDefinition>();
+
+        if (Array.isArray(entries)) {
+            for (const entry of entries) {
+                if (!entry || !['daily', 'weekly', 'monthly'].includes(entry.period) || typeof entry.amount !== 'number' || entry.amount <= 0) {
+                    continue;
+                }
+                const budget: BudgetDefinition = {
+                    period: entry.period,
+                    amount: entry.amount,
+                    project: typeof entry.project === 'string' && entry.project ? entry.project : undefined,
+                    label: typeof entry.label === 'string' && entry.label ? entry.label : undefined
+                };
+                budgets.set(getBudgetId(budget), budget);
+            }
+        }
+
+        return Array.from(budgets.values());
+    }
+
+    /**
+     * Gets the spend percentage from which a budget is nearly spent.
+     * 
+     * @returns Percentage between 1 and 100
+     */
+    static getBudgetWarningPercentage(): number {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const percentage = config.get<number>('budgetWarningPercentage', DEFAULT_BUDGET_WARNING_PERCENTAGE);
+        return Math.min(100, Math.max(1, percentage));
+    }
+
+    /**
+     * Gets the notification preferences.
+     * Invalid thresholds are dropped; quiet hours need a valid `HH:MM` start and end.
+     * 
+     * @returns Notification settings
+     */
+    static getNotificationSettings(): NotificationSettings {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const thresholds = config.get<unknown>('notificationThresholds', DEFAULT_ALERT_THRESHOLDS);
+        const quietHours = config.get<{ start?: unknown; end?: unknown } | null>('quietHours', null);
+
+        return {
+            enabled: config.get<boolean>('notificationsEnabled', true),
+            thresholds: Array.isArray(thresholds)
+                ? thresholds.filter((value): value is number => typeof value === 'number' && value > 0)
+                : DEFAULT_ALERT_THRESHOLDS,
+            depletionWarningMinutes: Math.max(0, config.get<number>('depletionWarningMinutes', DEFAULT_DEPLETION_WARNING_MINUTES)),
+            snoozeMinutes: Math.max(1, config.get<number>('notificationSnoozeMinutes', 60)),
+            quietHours: quietHours &&
+                typeof quietHours.start === 'string' && parseClockTime(quietHours.start) !== undefined &&
+                typeof quietHours.end === 'string' && parseClockTime(quietHours.end) !== undefined
+                ? { start: quietHours.start, end: quietHours.end }
+                : null
+        };
+    }
+
+    /**
+     * Gets the status bar format, position and colours.
+     * Empty colour entries fall back to the defaults.
+     * 
+     * @returns Status bar settings
+     */
+    static getStatusBarSettings(): StatusBarSettings {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const colors = config.get<Partial<Record<keyof StatusBarColors, unknown>>>('statusBarColors') ?? {};
+        const color = (key: keyof StatusBarColors): string => {
+            const value = colors[key];
+            return typeof value === 'string' && value.trim() ? value.trim() : DEFAULT_STATUS_BAR_COLORS[key];
+        };
+
+        return {
+            format: config.get<string>('statusBarFormat', ''),
+            alignment: config.get<string>('statusBarAlignment') === 'left' ? 'left' : 'right',
+            priority: config.get<number>('statusBarPriority', 100),
+            colors: {
+                normal: color('normal'),
+                warning: color('warning'),
+                critical: color('critical'),
+                inactive: color('inactive')
+            }
+        };
+    }
+
+    /**
+     * Gets the additional status bar entries.
+     * Entries are a metric name or an object based on a metric or a custom format;
+     * entries with neither are skipped. Unless configured otherwise, entries sit on
+     * the main item's side directly after it, in settings order.
+     * 
+     * @returns Entry definitions in settings order
+     */
+    static getStatusBarItems(): StatusBarItemDefinition[] {
+        const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+        const entries = config.get<unknown[]>('statusBarItems', []);
+        const main = this.getStatusBarSettings();
+        if (!Array.isArray(entries)) {
+            return [];
+        }
+
+        const definitions: StatusBarItemDefinition[] = [];
+        entries.forEach((raw, index) => {
+            const entry: StatusBarItemConfig = typeof raw === 'string' ? { metric: raw } : (raw ?? {}) as StatusBarItemConfig;
+            const metric = typeof entry.metric === 'string' && entry.metric in STATUS_BAR_METRIC_PRESETS
+                ? entry.metric as StatusBarMetric
+                : undefined;
+            const preset = metric ? STATUS_BAR_METRIC_PRESETS[metric] : undefined;
+            const format = typeof entry.format === 'string' && entry.format.trim() ? entry.format : preset?.format;
+            if (!format) {
+                return;
+            }
+
+            const baseId = typeof entry.id === 'string' && entry.id.trim() ? entry.id.trim() : metric ?? `item${index + 1}`;
+            const id = definitions.some(definition => definition.id === baseId) ? `${baseId}-${index + 1}` : baseId;
+            definitions.push({
+                id,
+                format,
+                command: typeof entry.command === 'string' && entry.command ? entry.command : preset?.command ?? 'claude-code-usage.showDetails',
+                tooltip: typeof entry.tooltip === 'string' && entry.tooltip ? entry.tooltip : preset?.tooltip ?? 'Claude Code Usage',
+                showWhen: typeof entry.showWhen === 'string' ? parsePlaceholderCondition(entry.showWhen) : undefined,
+                alignment: entry.alignment === 'left' || entry.alignment === 'right' ? entry.alignment : main.alignment,
+                priority: typeof entry.priority === 'number' ? entry.priority : main.priority - (index + 1) * 0.01
+            });
+        });
+        return definitions;
+    }
+
     /**
      * Gets all extension settings with type safety.
      * 
@@ -39,7 +400,21 @@ export class SettingsManager {
      */
     static getAllSettings(): ExtensionSettings {
         return {
-            customLimit: this.getCustomLimit()
+            customLimit: this.getCustomLimit(),
+            fallbackPollingInterval: this.getFallbackPollingInterval(),
+            dataRoots: this.getDataRoots(),
+            autoDetectDataRoots: this.getAutoDetectDataRoots(),
+            currentWorkspaceOnly: this.getCurrentWorkspaceOnly(),
+            windowing: this.getWindowingOptions(),
+            tokenWeights: this.getTokenWeights(),
+            pricingTable: this.getPricingTable(),
+            plan: this.getPlanProfile(),
+            quotaWindows: this.getQuotaWindows(),
+            budgets: this.getBudgets(),
+            budgetWarningPercentage: this.getBudgetWarningPercentage(),
+            notifications: this.getNotificationSettings(),
+            statusBar: this.getStatusBarSettings(),
+            statusBarItems: this.getStatusBarItems()
         };
     }
 
@@ -52,8 +427,8 @@ export class SettingsManager {
     static isValidCustomLimit(limit: number | null): boolean {
         if (limit === null) return true;
         
-        // Reasonable range: 1K to 1M tokens
-        return limit >= 1000 && limit <= 1_000_000;
+        // Reasonable range: 1K to 100M tokens (cache tokens make weighted totals large)
+        return limit >= 1000 && limit <= 100_000_000;
     }
 
     /**
@@ -5,19 +5,30 @@
  * official 5-hour rolling window algorithm.
  *
  * **Algorithm Details:**
- * - Session windows are 5-hour blocks aligned to UTC hours
+ * - Windowing is delegated to the shared engine in {@link module:SessionWindowing}
+ * - By default, session windows are 5-hour blocks aligned to UTC hours
  * - New blocks start when >5 hours elapsed from block start OR last record
- * - Active sessions are those with recent activity within the 5-hour window
+ * - Active sessions are those with recent activity within the window
+ * - The full ordered block history is kept, together with the idle gaps between blocks
  *
  * @module BlockCalculator
  */
 
-import { SessionWindow, MultiSessionBlock, ClaudeUsageRecord, ParseError } from '../types';
+import { SessionWindow, MultiSessionBlock, ClaudeUsageRecord, ParseError, BlockSummary, RateLimitEvent } from '../types';
 import { calculateTokenUsage } from './usageCalculator';
 import { getMostUsedModel } from './modelUtils';
-
-/** Claude Code session duration in milliseconds (5 hours) */
-const SESSION_DURATION_MS = 5 * 60 * 60 * 1000;
+import {
+    WindowingOptions,
+    DEFAULT_WINDOWING_OPTIONS,
+    RecordWindow,
+    groupRecordsIntoWindows,
+    isWindowActive,
+    findWindowGaps
+} from './sessionWindowing';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS } from './tokenAccounting';
+
+/** Number of models listed per block in block summaries */
+const TOP_MODELS_PER_BLOCK = 3;
 
 /**
  * This is the main entry point for block calculation, called by the Facade (extension.ts)
@@ -25,14 +36,17 @@ const SESSION_DURATION_MS = 5 * 60 * 60 * 1000;
  *
  * **Processing Flow:**
  * 1. Handle error cases with empty records
- * 2. Calculate current session block from records
- * 3. Determine active vs inactive sessions
+ * 2. Calculate the full block history from records
+ * 3. Determine active vs inactive sessions and the gaps between them
  * 4. Return structured session information
  *
  * @param {ClaudeUsageRecord[]} records - Raw usage records to process
  * @param {Date} currentTime - Current timestamp for activity calculation
  * @param {ParseError} [error] - Optional parsing error to propagate
- * @returns {MultiSessionBlock | null} Session block information or null if no data
+ * @param {WindowingOptions} [windowing] - Window length and gap rule
+ * @param {TokenWeights} [weights] - Token accounting weights for block totals
+ * @returns {MultiSessionBlock | null} Session block information or null if no data; without an
+ *   active block `mostRestrictiveSession` is an empty, inactive session
  *
  * @example
  * ```typescript
@@ -45,13 +59,16 @@ const SESSION_DURATION_MS = 5 * 60 * 60 * 1000;
 export const createMultiSessionBlock = (
     records: ClaudeUsageRecord[],
     currentTime: Date = new Date(),
-    error?: ParseError
+    error?: ParseError,
+    windowing: WindowingOptions = DEFAULT_WINDOWING_OPTIONS,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
 ): MultiSessionBlock | null => {
     if (error && records.length === 0) {
         return {
             allSessions: [],
             activeSessions: [],
             mostRestrictiveSession: createEmptySession(currentTime),
+            gaps: [],
             currentTime,
             error
         };
@@ -61,16 +78,16 @@ export const createMultiSessionBlock = (
         return null;
     }
 
-    const currentSession = getCurrentSessionBlock(records, currentTime);
-
-    if (!currentSession) {
-        return null;
-    }
+    const allSessions = calculateSessionBlocks(records, currentTime, windowing, weights);
+    const activeSessions = allSessions.filter(session => session.isActive);
+    const currentSession = activeSessions[activeSessions.length - 1];
 
     const result = {
-        allSessions: [currentSession],
-        activeSessions: currentSession.isActive ? [currentSession] : [],
-        mostRestrictiveSession: currentSession,
+        allSessions,
+        activeSessions,
+        // Without an active block an empty one keeps history-wide figures (quota windows, block history) available
+        mostRestrictiveSession: currentSession ?? createEmptySession(currentTime),
+        gaps: findWindowGaps(allSessions),
         currentTime
     };
 
@@ -82,93 +99,107 @@ export const createMultiSessionBlock = (
 };
 
 /**
- * Floors timestamp to the nearest UTC hour.
+ * Calculates the full, chronologically ordered history of session blocks.
+ *
+ * @param records - Usage records in any order
+ * @param currentTime - Current timestamp for activity calculation
+ * @param windowing - Window length and gap rule
+ * @param weights - Token accounting weights for block totals
+ * @returns Every block from the oldest to the most recent
  */
-const floorToHour = (timestamp: Date): Date => {
-    const floored = new Date(timestamp);
-    floored.setUTCMinutes(0, 0, 0);
-    return floored;
+export const calculateSessionBlocks = (
+    records: ClaudeUsageRecord[],
+    currentTime: Date,
+    windowing: WindowingOptions = DEFAULT_WINDOWING_OPTIONS,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): SessionWindow[] => {
+    return groupRecordsIntoWindows(records, windowing)
+        .map(window => createSessionFromWindow(window, currentTime, windowing, weights));
 };
 
 /**
- * Calculates the current session block from usage records.
+ * Summarizes blocks for history display, most recent first.
+ *
+ * @param blocks - Chronologically ordered blocks
+ * @param rateLimitEstimate - Limit used to judge whether a block hit the limit
+ * @param weights - Token accounting weights for per-model totals
+ * @param limitEvents - Explicit limit-reached events; a block containing one hit the limit
+ * @returns Block summaries ordered from newest to oldest
  */
-const getCurrentSessionBlock = (
-    records: ClaudeUsageRecord[],
-    currentTime: Date
-): SessionWindow | null => {
-    if (records.length === 0) {
-        return null;
-    }
-
-    const sortedRecords = [...records].sort((a, b) =>
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    let currentSession: SessionWindow | null = null;
-    const sessionBlocks: SessionWindow[] = [];
-    let currentBlockStart: Date | null = null;
-    let currentBlockRecords: ClaudeUsageRecord[] = [];
-
-    for (const record of sortedRecords) {
-        const recordTime = new Date(record.timestamp);
+export const summarizeSessionBlocks = (
+    blocks: SessionWindow[],
+    rateLimitEstimate: number,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+    limitEvents: RateLimitEvent[] = []
+): BlockSummary[] => {
+    const sessionEventTimes = limitEvents
+        .filter(event => event.limitType === 'session')
+        .map(event => new Date(event.timestamp).getTime());
+
+    return blocks
+        .map(block => {
+            const lastRecord = block.records[block.records.length - 1];
+            const hasLimitEvent = sessionEventTimes.some(time =>
+                time >= block.startTime.getTime() && time <= block.endTime.getTime()
+            );
+            return {
+                sessionId: block.sessionId,
+                startTime: block.startTime,
+                endTime: block.endTime,
+                lastActivityTime: lastRecord ? new Date(lastRecord.timestamp) : block.startTime,
+                totalTokens: block.totalTokens,
+                requestCount: block.requestCount,
+                topModels: getTopModels(block.records, weights),
+                subAgentTokens: calculateTokenUsage(block.records.filter(record => record.isSidechain), weights).totalTokens,
+                isActive: block.isActive,
+                likelyHitLimit: hasLimitEvent || (rateLimitEstimate > 0 && block.totalTokens >= rateLimitEstimate)
+            };
+        })
+        .reverse();
+};
 
-        if (!currentBlockStart) {
-            currentBlockStart = floorToHour(recordTime);
-            currentBlockRecords = [record];
+/**
+ * Ranks the models of a block by request count.
+ */
+const getTopModels = (records: ClaudeUsageRecord[], weights: TokenWeights): BlockSummary['topModels'] => {
+    const byModel = new Map<string, ClaudeUsageRecord[]>();
+    for (const record of records) {
+        const model = record.model || 'unknown';
+        const modelRecords = byModel.get(model);
+        if (modelRecords) {
+            modelRecords.push(record);
         } else {
-            const timeSinceBlockStart = recordTime.getTime() - currentBlockStart.getTime();
-            const lastRecord = currentBlockRecords[currentBlockRecords.length - 1];
-            const timeSinceLastRecord = lastRecord ?
-                recordTime.getTime() - new Date(lastRecord.timestamp).getTime() : 0;
-
-            if (timeSinceBlockStart > SESSION_DURATION_MS || timeSinceLastRecord > SESSION_DURATION_MS) {
-                const blockSession = createSessionFromBlock(currentBlockStart, currentBlockRecords, currentTime);
-                sessionBlocks.push(blockSession);
-
-                currentBlockStart = floorToHour(recordTime);
-                currentBlockRecords = [record];
-            } else {
-                currentBlockRecords.push(record);
-            }
+            byModel.set(model, [record]);
         }
     }
 
-    if (currentBlockStart && currentBlockRecords.length > 0) {
-        const blockSession = createSessionFromBlock(currentBlockStart, currentBlockRecords, currentTime);
-        sessionBlocks.push(blockSession);
-    }
-
-    for (let i = sessionBlocks.length - 1; i >= 0; i--) {
-        const session = sessionBlocks[i];
-        if (session && session.isActive) {
-            return session;
-        }
-    }
-
-    return null;
+    return Array.from(byModel.entries())
+        .map(([model, modelRecords]) => ({
+            model,
+            requests: modelRecords.length,
+            tokens: calculateTokenUsage(modelRecords, weights).totalTokens
+        }))
+        .sort((a, b) => b.requests - a.requests)
+        .slice(0, TOP_MODELS_PER_BLOCK);
 };
 
 /**
- * Creates a session window from a block of records.
+ * Creates a session window from a window of records.
  */
-const createSessionFromBlock = (
-    startTime: Date,
-    records: ClaudeUsageRecord[],
-    currentTime: Date
+const createSessionFromWindow = (
+    window: RecordWindow,
+    currentTime: Date,
+    windowing: WindowingOptions,
+    weights: TokenWeights
 ): SessionWindow => {
-    const endTime = new Date(startTime.getTime() + SESSION_DURATION_MS);
-    const lastRecord = records[records.length - 1];
-    const actualEndTime = lastRecord ? new Date(lastRecord.timestamp) : startTime;
-    const isActive =
-        (currentTime.getTime() - actualEndTime.getTime() < SESSION_DURATION_MS) &&
-        (currentTime.getTime() <= endTime.getTime());
-    const tokenUsage = calculateTokenUsage(records);
+    const { startTime, endTime, records } = window;
+    const isActive = isWindowActive(window, currentTime, windowing);
+    const tokenUsage = calculateTokenUsage(records, weights);
     const timeUntilReset = Math.max(0, endTime.getTime() - currentTime.getTime());
     const mostUsedModel = records.length > 0 ? getMostUsedModel(records) : undefined;
 
     return {
-        sessionId: startTime.toISOString(),
+        sessionId: window.id,
         startTime,
         endTime,
         firstRecordTime: records.length > 0 ? new Date(records[0].timestamp) : startTime,
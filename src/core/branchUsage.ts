@@ -0,0 +1,161 @@
+/**
+ * Branch Usage - Core Module (Independent)
+ *
+ * Aggregates usage per working directory and git branch, as recorded by
+ * Claude Code on every transcript line, and splits a branch's usage into
+ * commit ranges once its commits are known.
+ *
+ * **Commit ranges:** a request belongs to the first commit made at or after
+ * it, i.e. the work that went into that commit. Requests after the newest
+ * commit are uncommitted.
+ *
+ * @module BranchUsage
+ */
+
+import { ClaudeUsageRecord } from '../types';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, sumWeightedTokens } from './tokenAccounting';
+import { PricingEntry, PRICING_HISTORY, calculateRecordsCost } from './modelPricing';
+
+/** A commit from `git log`. */
+export interface GitCommit {
+    hash: string;
+    /** Committer time */
+    time: Date;
+    subject: string;
+}
+
+/** Usage that went into one commit. */
+export interface CommitRangeUsage {
+    /** The commit closing the range; undefined for uncommitted work */
+    commit?: GitCommit;
+    /** The commit before it, when it is part of the log */
+    previousCommit?: GitCommit;
+    requestCount: number;
+    totalTokens: number;
+    estimatedCost: number;
+}
+
+/** Usage of one branch in one working directory. */
+export interface BranchUsage {
+    /** Working directory Claude Code ran in */
+    repository: string;
+    branch: string;
+    /** Records in chronological order */
+    records: ClaudeUsageRecord[];
+    requestCount: number;
+    totalTokens: number;
+    estimatedCost: number;
+    firstActivity: Date;
+    lastActivity: Date;
+    /** Usage per commit, newest first; only set when the git log was read */
+    commitRanges?: CommitRangeUsage[];
+}
+
+/** Usage per branch and what could not be attributed to one. */
+export interface BranchUsageReport {
+    /** Branches by estimated cost, most expensive first */
+    branches: BranchUsage[];
+    /** Requests without a git branch (outside a repository or older Claude Code versions) */
+    untaggedRequests: number;
+    untaggedCost: number;
+}
+
+/**
+ * Groups records by working directory and git branch.
+ *
+ * @param records - Usage records
+ * @param weights - Token accounting weights
+ * @param pricingTable - Model prices for cost estimates
+ * @returns Per-branch usage and the untagged remainder
+ *
+ * @example
+ * ```typescript
+ * const report = calculateBranchUsage(parsedData.records);
+ * console.log(report.branches[0].branch, report.branches[0].estimatedCost);
+ * ```
+ */
+export const calculateBranchUsage = (
+    records: ClaudeUsageRecord[],
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+    pricingTable: PricingEntry[] = PRICING_HISTORY
+): BranchUsageReport => {
+    const groups = new Map<string, ClaudeUsageRecord[]>();
+    const untagged: ClaudeUsageRecord[] = [];
+
+    records.forEach(record => {
+        if (!record.gitBranch) {
+            untagged.push(record);
+            return;
+        }
+        const key = `${record.cwd ?? record.project ?? ''}\n${record.gitBranch}`;
+        const group = groups.get(key);
+        if (group) {
+            group.push(record);
+        } else {
+            groups.set(key, [record]);
+        }
+    });
+
+    const branches = Array.from(groups.values())
+        .map(branchRecords => {
+            const sorted = [...branchRecords].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+            return {
+                repository: sorted[0].cwd ?? sorted[0].project ?? '',
+                branch: sorted[0].gitBranch!,
+                records: sorted,
+                requestCount: sorted.length,
+                totalTokens: Math.round(sumWeightedTokens(sorted, weights)),
+                estimatedCost: calculateRecordsCost(sorted, pricingTable),
+                firstActivity: new Date(sorted[0].timestamp),
+                lastActivity: new Date(sorted[sorted.length - 1].timestamp)
+            };
+        })
+        .sort((a, b) => b.estimatedCost - a.estimatedCost);
+
+    return {
+        branches,
+        untaggedRequests: untagged.length,
+        untaggedCost: calculateRecordsCost(untagged, pricingTable)
+    };
+};
+
+/**
+ * Splits a branch's usage into commit ranges.
+ *
+ * @param records - Records of the branch in chronological order
+ * @param commits - Commits of the branch in any order
+ * @param weights - Token accounting weights
+ * @param pricingTable - Model prices for cost estimates
+ * @returns Ranges with usage, newest first; commits without usage are left out
+ */
+export const attributeToCommits = (
+    records: ClaudeUsageRecord[],
+    commits: GitCommit[],
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+    pricingTable: PricingEntry[] = PRICING_HISTORY
+): CommitRangeUsage[] => {
+    const sortedCommits = [...commits].sort((a, b) => a.time.getTime() - b.time.getTime());
+    const rangeRecords: ClaudeUsageRecord[][] = Array.from({ length: sortedCommits.length + 1 }, () => []);
+
+    let index = 0;
+    [...records]
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+        .forEach(record => {
+            const time = new Date(record.timestamp).getTime();
+            while (index < sortedCommits.length && sortedCommits[index].time.getTime() < time) {
+                index++;
+            }
+            rangeRecords[index].push(record);
+        });
+
+    return rangeRecords
+        .map((rangeUsage, rangeIndex) => ({
+            commit: sortedCommits[rangeIndex],
+            previousCommit: rangeIndex > 0 ? sortedCommits[rangeIndex - 1] : undefined,
+            requestCount: rangeUsage.length,
+            totalTokens: Math.round(sumWeightedTokens(rangeUsage, weights)),
+            estimatedCost: calculateRecordsCost(rangeUsage, pricingTable)
+        }))
+        .filter(range => range.requestCount > 0)
+        .reverse();
+};
@@ -6,8 +6,9 @@
  * @module BurnRateCalculator
  */
 
-import { ClaudeUsageRecord, BurnRateAnalysis, ModelUsageBreakdown } from '../types';
-import { MODEL_PRICING } from './modelUtils';
+import { ClaudeUsageRecord, BurnRateAnalysis, ModelUsageBreakdown, AgentUsageBreakdown } from '../types';
+import { PricingEntry, PRICING_HISTORY, calculateRecordCost } from './modelPricing';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, getWeightedTokens, sumWeightedTokens } from './tokenAccounting';
 
 /** Time windows for analysis in milliseconds */
 const TIME_WINDOWS = {
@@ -25,6 +26,9 @@ const TIME_WINDOWS = {
  * @param currentUsage - Current total token usage in session
  * @param highThreshold - High usage threshold for predictions
  * @param baselineUsage - Baseline usage level for predictions
+ * @param tokenWeights - Token accounting weights (must match `currentUsage`)
+ * @param pricingTable - Versioned model prices for cost estimates
+ * @param rateLimit - Estimated session limit used for the depletion prediction
  * @returns Comprehensive burn rate analysis
  */
 export const calculateBurnRate = (
@@ -32,7 +36,10 @@ export const calculateBurnRate = (
     currentTime: Date,
     currentUsage: number,
     highThreshold: number,
-    baselineUsage: number
+    baselineUsage: number,
+    tokenWeights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+    pricingTable: PricingEntry[] = PRICING_HISTORY,
+    rateLimit?: number
 ): BurnRateAnalysis => {
     if (records.length === 0) {
         return createEmptyBurnRateAnalysis();
@@ -49,13 +56,13 @@ export const calculateBurnRate = (
     }
 
     // Calculate time-windowed activity
-    const recentActivity = calculateRecentActivity(recentRecords, currentTime);
+    const recentActivity = calculateRecentActivity(recentRecords, currentTime, tokenWeights);
 
     // Calculate burn rate with weighted recent activity
-    const burnRateData = calculateWeightedBurnRate(recentRecords, currentTime);
+    const burnRateData = calculateWeightedBurnRate(recentRecords, currentTime, tokenWeights);
 
     // Analyze trend
-    const trend = analyzeTrend(recentRecords, currentTime);
+    const trend = analyzeTrend(recentRecords, currentTime, tokenWeights);
 
     // Generate predictions
     const predictions = generatePredictions(
@@ -64,11 +71,15 @@ export const calculateBurnRate = (
         highThreshold,
         baselineUsage,
         currentTime,
-        trend
+        trend,
+        rateLimit
     );
 
     // Calculate model breakdown
-    const modelBreakdown = calculateModelBreakdown(recentRecords);
+    const modelBreakdown = calculateModelBreakdown(recentRecords, tokenWeights, pricingTable);
+
+    // Split main conversation and sub-agents
+    const agentBreakdown = calculateAgentBreakdown(recentRecords, currentTime, tokenWeights, pricingTable);
 
     return {
         tokensPerMinute: burnRateData.tokensPerMinute,
@@ -77,7 +88,8 @@ export const calculateBurnRate = (
         recentActivity,
         predictions,
         trend,
-        modelBreakdown
+        modelBreakdown,
+        agentBreakdown
     };
 };
 
@@ -86,14 +98,16 @@ export const calculateBurnRate = (
  */
 const calculateRecentActivity = (
     records: ClaudeUsageRecord[],
-    currentTime: Date
+    currentTime: Date,
+    tokenWeights: TokenWeights
 ): { last15min: number; last30min: number; last60min: number } => {
     const windows = [TIME_WINDOWS.FIFTEEN_MIN, TIME_WINDOWS.THIRTY_MIN, TIME_WINDOWS.SIXTY_MIN];
     const activity = windows.map(windowMs => {
         const windowStart = new Date(currentTime.getTime() - windowMs);
-        return records
-            .filter(record => new Date(record.timestamp) >= windowStart)
-            .reduce((sum, record) => sum + record.input_tokens + record.output_tokens, 0);
+        return sumWeightedTokens(
+            records.filter(record => new Date(record.timestamp) >= windowStart),
+            tokenWeights
+        );
     });
 
     return {
@@ -108,7 +122,8 @@ const calculateRecentActivity = (
  */
 const calculateWeightedBurnRate = (
     records: ClaudeUsageRecord[],
-    currentTime: Date
+    currentTime: Date,
+    tokenWeights: TokenWeights
 ): { tokensPerMinute: number; tokensPerHour: number; averageRequestSize: number } => {
     if (records.length === 0) {
         return { tokensPerMinute: 0, tokensPerHour: 0, averageRequestSize: 0 };
@@ -122,13 +137,13 @@ const calculateWeightedBurnRate = (
         return { tokensPerMinute: 0, tokensPerHour: 0, averageRequestSize: 0 };
     }
 
-    const totalTokens = records.reduce((sum, record) => sum + record.input_tokens + record.output_tokens, 0);
+    const totalTokens = sumWeightedTokens(records, tokenWeights);
     const timeSpanMinutes = timeSpanMs / (1000 * 60);
     
     // Calculate weighted average with recent bias
     const weights = records.map((_, index) => Math.pow(1.5, index)); // Exponential weighting
     const weightedSum = records.reduce((sum, record, index) => 
-        sum + (record.input_tokens + record.output_tokens) * weights[index], 0);
+        sum + getWeightedTokens(record, tokenWeights) * weights[index], 0);
     const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
     
     const weightedTokensPerMinute = totalWeight > 0 ? (weightedSum / totalWeight) * (records.length / timeSpanMinutes) : 0;
@@ -144,7 +159,8 @@ const calculateWeightedBurnRate = (
  */
 const analyzeTrend = (
     records: ClaudeUsageRecord[],
-    currentTime: Date
+    currentTime: Date,
+    tokenWeights: TokenWeights
 ): 'increasing' | 'decreasing' | 'stable' => {
     if (records.length < 3) {
         return 'stable';
@@ -159,12 +175,13 @@ const analyzeTrend = (
     
     for (let time = startTime; time < endTime; time += windowSizeMs) {
         const windowEnd = time + windowSizeMs;
-        const windowTokens = records
-            .filter(record => {
+        const windowTokens = sumWeightedTokens(
+            records.filter(record => {
                 const recordTime = new Date(record.timestamp).getTime();
                 return recordTime >= time && recordTime < windowEnd;
-            })
-            .reduce((sum, record) => sum + record.input_tokens + record.output_tokens, 0);
+            }),
+            tokenWeights
+        );
         
         if (windowTokens > 0) {
             windows.push({ timestamp: time, tokens: windowTokens });
@@ -204,7 +221,8 @@ const generatePredictions = (
     highThreshold: number,
     baselineUsage: number,
     currentTime: Date,
-    trend: 'increasing' | 'decreasing' | 'stable'
+    trend: 'increasing' | 'decreasing' | 'stable',
+    rateLimit?: number
 ): BurnRateAnalysis['predictions'] => {
     if (tokensPerMinute <= 0) {
         return { confidence: 'low' };
@@ -238,8 +256,8 @@ const generatePredictions = (
         }
     }
 
-    // Estimate session depletion (assume ~35K tokens for max plan)
-    const estimatedLimit = Math.max(highThreshold * 2, 35000);
+    // Estimate session depletion against the plan- and history-aware limit
+    const estimatedLimit = rateLimit && rateLimit > 0 ? rateLimit : highThreshold * 2;
     if (currentUsage < estimatedLimit) {
         const tokensToLimit = estimatedLimit - currentUsage;
         const minutesToLimit = tokensToLimit / adjustedRate;
@@ -261,38 +279,42 @@ const generatePredictions = (
 /**
  * Calculates model-specific usage breakdown with cost estimates.
  */
-const calculateModelBreakdown = (records: ClaudeUsageRecord[]): ModelUsageBreakdown[] => {
+const calculateModelBreakdown = (
+    records: ClaudeUsageRecord[],
+    tokenWeights: TokenWeights,
+    pricingTable: PricingEntry[]
+): ModelUsageBreakdown[] => {
     const modelStats = new Map<string, {
-        inputTokens: number;
-        outputTokens: number;
+        cost: number;
+        weightedTokens: number;
+        subAgentTokens: number;
         requests: number;
     }>();
 
     // Aggregate by model
     records.forEach(record => {
         const model = record.model || 'unknown';
-        const existing = modelStats.get(model) || { inputTokens: 0, outputTokens: 0, requests: 0 };
+        const existing = modelStats.get(model) || { cost: 0, weightedTokens: 0, subAgentTokens: 0, requests: 0 };
+        const tokens = getWeightedTokens(record, tokenWeights);
         
         modelStats.set(model, {
-            inputTokens: existing.inputTokens + record.input_tokens,
-            outputTokens: existing.outputTokens + record.output_tokens,
+            cost: existing.cost + calculateRecordCost(record, pricingTable),
+            weightedTokens: existing.weightedTokens + tokens,
+            subAgentTokens: existing.subAgentTokens + (record.isSidechain ? tokens : 0),
             requests: existing.requests + 1
         });
     });
 
-    const totalTokens = records.reduce((sum, record) => sum + record.input_tokens + record.output_tokens, 0);
+    const totalTokens = sumWeightedTokens(records, tokenWeights);
 
     // Convert to breakdown format
     return Array.from(modelStats.entries()).map(([model, stats]) => {
-        const tokens = stats.inputTokens + stats.outputTokens;
-        const percentage = Math.round((tokens / totalTokens) * 100);
+        const tokens = Math.round(stats.weightedTokens);
+        const percentage = totalTokens > 0 ? Math.round((tokens / totalTokens) * 100) : 0;
         const avgTokensPerRequest = Math.round(tokens / stats.requests);
 
-        // Calculate estimated cost
-        const pricing = MODEL_PRICING[model as keyof typeof MODEL_PRICING] || MODEL_PRICING.default;
-        const inputCost = (stats.inputTokens / 1_000_000) * pricing.input;
-        const outputCost = (stats.outputTokens / 1_000_000) * pricing.output;
-        const estimatedCost = Math.round((inputCost + outputCost) * 100) / 100; // Round to cents
+        // Priced per record, including cache writes and reads
+        const estimatedCost = Math.round(stats.cost * 100) / 100; // Round to cents
 
         return {
             model,
@@ -300,11 +322,43 @@ const calculateModelBreakdown = (records: ClaudeUsageRecord[]): ModelUsageBreakd
             requests: stats.requests,
             avgTokensPerRequest,
             percentage,
-            estimatedCost
+            estimatedCost,
+            subAgentTokens: Math.round(stats.subAgentTokens)
         };
     }).sort((a, b) => b.tokens - a.tokens); // Sort by token usage descending
 };
 
+/**
+ * Splits usage into the main conversation and sub-agent (sidechain) requests,
+ * each with its own burn rate. Sub-agents are omitted when they made no requests.
+ */
+const calculateAgentBreakdown = (
+    records: ClaudeUsageRecord[],
+    currentTime: Date,
+    tokenWeights: TokenWeights,
+    pricingTable: PricingEntry[]
+): AgentUsageBreakdown[] => {
+    const totalTokens = sumWeightedTokens(records, tokenWeights);
+    const groups: Array<[AgentUsageBreakdown['agent'], ClaudeUsageRecord[]]> = [
+        ['main', records.filter(record => !record.isSidechain)],
+        ['subagent', records.filter(record => record.isSidechain)]
+    ];
+
+    return groups
+        .filter(([agent, agentRecords]) => agent === 'main' || agentRecords.length > 0)
+        .map(([agent, agentRecords]) => {
+            const tokens = Math.round(sumWeightedTokens(agentRecords, tokenWeights));
+            return {
+                agent,
+                tokens,
+                requests: agentRecords.length,
+                percentage: totalTokens > 0 ? Math.round((tokens / totalTokens) * 100) : 0,
+                tokensPerMinute: calculateWeightedBurnRate(agentRecords, currentTime, tokenWeights).tokensPerMinute,
+                estimatedCost: Math.round(agentRecords.reduce((sum, record) => sum + calculateRecordCost(record, pricingTable), 0) * 100) / 100
+            };
+        });
+};
+
 /**
  * Creates empty burn rate analysis for no data scenarios.
  */
@@ -2,231 +2,383 @@
  * Claude Data Parser - Core Module (Independent)
  *
  * Parses Claude Code usage data from both legacy and modern JSONL formats.
- * Handles multi-project environments and provides comprehensive error reporting.
+ * Handles multi-project, multi-root environments and provides comprehensive error reporting.
  *
  * **Supported Formats:**
  * - Legacy: `usage.jsonl` (older Claude Code versions)
  * - Modern: `{UUID}.jsonl` (current Claude Code sessions)
  *
  * **Data Flow:**
- * 1. Discover all project directories
- * 2. Parse legacy and modern format files
- * 3. Aggregate usage records with metadata
- * 4. Provide detailed error reporting for debugging
+ * 1. Discover all project directories across every data root
+ * 2. Parse newly appended lines of legacy and modern format files
+ * 3. Aggregate cached and new usage records with metadata
+ * 4. Drop assistant messages duplicated across resumed or forked sessions
+ * 5. Collect explicit "usage limit reached" messages as rate limit events
+ * 6. Provide detailed error reporting for debugging
  *
  * @module ClaudeDataParser
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { ClaudeUsageRecord, ParsedUsageData, ParseError } from '../types';
-import { getClaudeProjectsPath } from './projectManager';
+import { ClaudeUsageRecord, DataRoot, DataRootSummary, ParsedUsageData, ParseError, RateLimitEvent } from '../types';
+import { decodeProjectDirectoryName, resolveClaudeDataRoots } from './projectManager';
+import { IngestedFile, UsageIngestionCache } from './usageIngestion';
+import { LineParserState, LinePrefilter, TranscriptEntry } from './jsonlStreamReader';
+import { deduplicateRecords, deduplicateLimitEvents } from './recordDeduplicator';
+import { SYNTHETIC_MODEL, getMessageText, parseLimitMessage } from './rateLimitEvents';
+import { linkSidechainLine, trackSubAgentCalls } from './sidechainLinks';
+
+/**
+ * Lines at or above this size are only parsed if their raw bytes mention an
+ * assistant message or start a sidechain. Large user lines (tool results,
+ * pasted files) are skipped without being decoded or JSON-parsed.
+ */
+const FAST_PATH_MIN_LINE_BYTES = 4 * 1024;
+
+/** Marker written by Claude Code on assistant transcript lines. */
+const ASSISTANT_TYPE_MARKER = '"type":"assistant"';
+
+/**
+ * Markers of a sidechain's first line, which carries the Task prompt that links
+ * the sub-agent to its call. Keys inside string content are escaped, so the raw
+ * markers only match the line's own fields.
+ */
+const SIDECHAIN_MARKER = '"isSidechain":true';
+const ROOT_LINE_MARKER = '"parentUuid":null';
+
+/**
+ * Cheap byte-level check that lets small lines through and keeps large lines
+ * only when they are assistant messages or the first line of a sidechain.
+ */
+const sessionLinePrefilter: LinePrefilter = (line: Buffer): boolean =>
+    line.length < FAST_PATH_MIN_LINE_BYTES ||
+    line.includes(ASSISTANT_TYPE_MARKER) ||
+    (line.includes(SIDECHAIN_MARKER) && line.includes(ROOT_LINE_MARKER));
+
+/**
+ * Appends items one by one; spreading them into `push` overflows the call
+ * stack for projects with hundreds of thousands of records.
+ */
+const appendAll = <T>(target: T[], items: T[]): void => {
+    for (const item of items) {
+        target.push(item);
+    }
+};
+
+/** Identity of the project directory a file belongs to. */
+interface ProjectContext {
+    /** Encoded directory name under the projects root */
+    projectKey: string;
+    /** Decoded project path */
+    project: string;
+    /** Data root containing the project directory */
+    dataRoot: string;
+}
 
 /**
  * Legacy files contain direct usage records in a simpler JSONL format
  * used by earlier versions of Claude Code.
  *
- * @param {string} filePath - Absolute path to the legacy usage file
- * @returns {ClaudeUsageRecord[]} Array of parsed usage records
- *
- * @example
- * ```typescript
- * const records = parseLegacyUsageFile('/path/to/usage.jsonl');
- * console.log(`Found ${records.length} legacy records`);
- * ```
+ * @param {ProjectContext} projectContext - Project the legacy file belongs to
+ * @returns Parser that converts a legacy JSONL line into a usage entry, or null if invalid
  *
  * @internal
  */
-const parseLegacyUsageFile = (filePath: string): ClaudeUsageRecord[] => {
+const createLegacyLineParser = (projectContext: ProjectContext) => (line: string): TranscriptEntry | null => {
+    try {
+        const data = JSON.parse(line);
+        if (data.model === SYNTHETIC_MODEL) {
+            return null;
+        }
+        return {
+            kind: 'usage',
+            record: {
+                timestamp: data.timestamp,
+                input_tokens: data.input_tokens || 0,
+                output_tokens: data.output_tokens || 0,
+                cache_creation_tokens: data.cache_creation_tokens || 0,
+                cache_read_tokens: data.cache_read_tokens || 0,
+                model: data.model || 'unknown',
+                ...projectContext
+            }
+        };
+    } catch (error) {
+        console.warn('Failed to parse legacy usage line:', error);
+        return null;
+    }
+};
+
+/**
+ * Creates a line parser for modern session files (UUID.jsonl format).
+ * Messages generated by Claude Code itself (`<synthetic>` model) never count as
+ * usage; those announcing a reached limit become rate limit events. Sub-agent
+ * (sidechain) lines are linked to the Task call that started them.
+ * @param sessionId - Session ID derived from the file name
+ * @param projectContext - Project the session file belongs to
+ * @returns Parser that extracts usage records and limit events from assistant messages
+ */
+const createSessionLineParser = (sessionId: string, projectContext: ProjectContext) => (
+    line: string,
+    fileState: LineParserState
+): TranscriptEntry | null => {
     try {
-        const fileContent = fs.readFileSync(filePath, 'utf-8');
-        return fileContent
-            .trim()
-            .split('\n')
-            .filter(line => line.trim())
-            .map(line => {
-                try {
-                    const data = JSON.parse(line);
-                    return {
-                        timestamp: data.timestamp,
-                        input_tokens: data.input_tokens || 0,
-                        output_tokens: data.output_tokens || 0,
-                        cache_creation_tokens: data.cache_creation_tokens || 0,
-                        cache_read_tokens: data.cache_read_tokens || 0,
-                        model: data.model || 'unknown',
-                    };
-                } catch (error) {
-                    console.warn(`Failed to parse legacy line in ${filePath}:`, error);
-                    return null;
+        const data = JSON.parse(line);
+
+        const isSidechain = data.isSidechain === true;
+        const parentToolUseId = isSidechain ? linkSidechainLine(data, fileState) : undefined;
+        if (!isSidechain && data.type === 'assistant') {
+            trackSubAgentCalls(data, fileState);
+        }
+
+        if (data.type !== 'assistant' || !data.message) {
+            return null;
+        }
+
+        if (data.message.model === SYNTHETIC_MODEL || data.isApiErrorMessage) {
+            const message = getMessageText(data.message.content);
+            const limit = parseLimitMessage(message, data.timestamp);
+            if (!limit) {
+                return null;
+            }
+            return {
+                kind: 'rate_limit',
+                event: {
+                    timestamp: data.timestamp,
+                    sessionId,
+                    ...limit,
+                    message,
+                    ...projectContext
+                }
+            };
+        }
+
+        if (data.message.usage) {
+            const usage = data.message.usage;
+            return {
+                kind: 'usage',
+                record: {
+                    timestamp: data.timestamp,
+                    input_tokens: usage.input_tokens || 0,
+                    output_tokens: usage.output_tokens || 0,
+                    cache_creation_tokens: usage.cache_creation_input_tokens || 0,
+                    cache_read_tokens: usage.cache_read_input_tokens || 0,
+                    model: data.message.model || 'unknown',
+                    sessionId: sessionId,
+                    requestId: data.requestId || data.uuid,
+                    messageId: data.message.id,
+                    ...(isSidechain ? { isSidechain, parentToolUseId } : {}),
+                    ...(typeof data.cwd === 'string' && data.cwd ? { cwd: data.cwd } : {}),
+                    ...(typeof data.gitBranch === 'string' && data.gitBranch ? { gitBranch: data.gitBranch } : {}),
+                    ...projectContext
                 }
-            })
-            .filter((record): record is ClaudeUsageRecord => record !== null);
+            };
+        }
+        return null;
+    } catch (error) {
+        return null;
+    }
+};
+
+/**
+ * Reads a legacy usage file through the ingestion cache.
+ * @param filePath - Absolute path to the legacy usage file
+ * @param projectContext - Project the file belongs to
+ * @param cache - Ingestion cache holding per-file offsets
+ * @returns Parsed usage records (legacy files carry no limit events)
+ */
+const parseLegacyUsageFile = (
+    filePath: string,
+    projectContext: ProjectContext,
+    cache: UsageIngestionCache
+): IngestedFile => {
+    try {
+        return cache.readFile(filePath, createLegacyLineParser(projectContext));
     } catch (error) {
         console.error(`Error reading legacy file ${filePath}:`, error);
-        return [];
+        return { records: [], limitEvents: [] };
     }
 };
 
 /**
- * Parses modern session files (UUID.jsonl format).
+ * Reads a modern session file through the ingestion cache.
  * @param filePath - Path to the session file
  * @param fileName - Name of the file (used for session ID)
- * @returns Array of parsed usage records
+ * @param projectContext - Project the file belongs to
+ * @param cache - Ingestion cache holding per-file offsets
+ * @returns Parsed usage records and limit events
  */
-const parseSessionFile = (filePath: string, fileName: string): ClaudeUsageRecord[] => {
+const parseSessionFile = (
+    filePath: string,
+    fileName: string,
+    projectContext: ProjectContext,
+    cache: UsageIngestionCache
+): IngestedFile => {
     const sessionId = fileName.replace('.jsonl', '');
 
     try {
-        const fileContent = fs.readFileSync(filePath, 'utf-8');
-        return fileContent
-            .trim()
-            .split('\n')
-            .filter(line => line.trim())
-            .map(line => {
-                try {
-                    const data = JSON.parse(line);
-
-                    if (data.type === 'assistant' && data.message?.usage) {
-                        const usage = data.message.usage;
-                        return {
-                            timestamp: data.timestamp,
-                            input_tokens: usage.input_tokens || 0,
-                            output_tokens: usage.output_tokens || 0,
-                            cache_creation_tokens: usage.cache_creation_input_tokens || 0,
-                            cache_read_tokens: usage.cache_read_input_tokens || 0,
-                            model: data.message.model || 'unknown',
-                            sessionId: sessionId,
-                            requestId: data.requestId || data.uuid
-                        } as ClaudeUsageRecord;
-                    }
-                    return null;
-                } catch (error) {
-                    return null;
-                }
-            })
-            .filter((record): record is ClaudeUsageRecord => record !== null);
+        return cache.readFile(filePath, createSessionLineParser(sessionId, projectContext), sessionLinePrefilter);
     } catch (error) {
         console.error(`Error reading session file ${filePath}:`, error);
-        return [];
+        return { records: [], limitEvents: [] };
     }
 };
 
 /**
  * Parses all usage data from a project directory.
  * @param projectPath - Path to the project directory
- * @returns Array of all usage records from the project
+ * @param cache - Ingestion cache holding per-file offsets
+ * @param seenFiles - Collects every file path visited, used to prune deleted files
+ * @returns All usage records and limit events from the project
  */
-const parseProjectDirectory = (projectPath: string): ClaudeUsageRecord[] => {
-    const records: ClaudeUsageRecord[] = [];
+const parseProjectDirectory = (
+    projectPath: string,
+    cache: UsageIngestionCache,
+    seenFiles: Set<string>
+): IngestedFile => {
+    const result: IngestedFile = { records: [], limitEvents: [] };
+    const projectKey = path.basename(projectPath);
+    const projectContext: ProjectContext = {
+        projectKey,
+        project: decodeProjectDirectoryName(projectKey),
+        dataRoot: path.dirname(projectPath)
+    };
 
     try {
-        const legacyUsageFile = path.join(projectPath, 'usage.jsonl');
-        if (fs.existsSync(legacyUsageFile)) {
-            records.push(...parseLegacyUsageFile(legacyUsageFile));
-        }
+        const files = fs.readdirSync(projectPath).filter(file => file.endsWith('.jsonl'));
 
-        const files = fs.readdirSync(projectPath);
-        const sessionRecords = files
-            .filter(file => file.endsWith('.jsonl') && file !== 'usage.jsonl')
-            .flatMap(file => parseSessionFile(path.join(projectPath, file), file));
+        for (const file of files) {
+            const filePath = path.join(projectPath, file);
+            seenFiles.add(filePath);
 
-        records.push(...sessionRecords);
+            const fileData = file === 'usage.jsonl'
+                ? parseLegacyUsageFile(filePath, projectContext, cache)
+                : parseSessionFile(filePath, file, projectContext, cache);
+            appendAll(result.records, fileData.records);
+            appendAll(result.limitEvents, fileData.limitEvents);
+        }
     } catch (error) {
         console.error(`Error parsing project directory ${projectPath}:`, error);
     }
 
-    return records;
+    return result;
 };
 
 
 /**
- * Parses all Claude Code usage data from the projects directory.
+ * Creates an empty parse result carrying an error.
+ * @param dataRoots - Scanned data roots for diagnostics
+ * @param error - Error describing why no data is available
+ */
+const createEmptyUsageData = (
+    dataRoots: DataRootSummary[],
+    error: ParseError
+): ParsedUsageData & { error: ParseError } => ({
+    records: [],
+    totalRecords: 0,
+    dateRange: { earliest: new Date(), latest: new Date() },
+    sessionIds: [],
+    duplicateRecords: 0,
+    dataRoots,
+    limitEvents: [],
+    error
+});
+
+/**
+ * Parses all Claude Code usage data from the projects directories.
  * Handles both legacy (usage.jsonl) and modern (UUID.jsonl) formats.
  * Provides comprehensive error handling and reporting.
+ *
+ * Pass a long-lived {@link UsageIngestionCache} to only parse lines appended
+ * since the previous call; without one every file is read in full.
+ *
+ * @param cache Ingestion cache holding per-file offsets
+ * @param roots Data roots to scan and merge (defaults to auto-detected locations)
  * @returns Parsed usage data with optional error information
  */
-export const parseAllUsageData = async (): Promise<ParsedUsageData & { error?: ParseError }> => {
+export const parseAllUsageData = async (
+    cache: UsageIngestionCache = new UsageIngestionCache(),
+    roots: DataRoot[] = resolveClaudeDataRoots()
+): Promise<ParsedUsageData & { error?: ParseError }> => {
+    const dataRoots: DataRootSummary[] = roots.map(root => ({ ...root, recordCount: 0 }));
+
     try {
-        const claudePath = getClaudeProjectsPath();
-        if (!fs.existsSync(claudePath)) {
-            return {
-                records: [],
-                totalRecords: 0,
-                dateRange: { earliest: new Date(), latest: new Date() },
-                sessionIds: [],
-                error: {
-                    type: 'directory_not_found',
-                    message: 'Claude Code data directory not found',
-                    details: `Expected directory: ${claudePath}`,
-                    suggestion: 'Please ensure Claude Code is installed and has been used at least once'
-                }
-            };
+        const existingRoots = dataRoots.filter(root => root.exists);
+        if (existingRoots.length === 0) {
+            return createEmptyUsageData(dataRoots, {
+                type: 'directory_not_found',
+                message: 'Claude Code data directory not found',
+                details: `Expected directory: ${dataRoots.map(root => root.path).join(', ')}`,
+                suggestion: 'Please ensure Claude Code is installed and has been used at least once'
+            });
         }
 
-        const projectDirs = fs.readdirSync(claudePath);
+        const projectPaths = existingRoots.flatMap(root =>
+            fs.readdirSync(root.path).map(projectDir => ({ root, projectPath: path.join(root.path, projectDir) }))
+        );
 
-        if (projectDirs.length === 0) {
-            return {
-                records: [],
-                totalRecords: 0,
-                dateRange: { earliest: new Date(), latest: new Date() },
-                sessionIds: [],
-                error: {
-                    type: 'data_format_error',
-                    message: 'No Claude Code projects found',
-                    details: 'The Claude projects directory exists but contains no project folders',
-                    suggestion: 'Start using Claude Code to generate usage data'
-                }
-            };
+        if (projectPaths.length === 0) {
+            return createEmptyUsageData(dataRoots, {
+                type: 'data_format_error',
+                message: 'No Claude Code projects found',
+                details: 'The Claude projects directory exists but contains no project folders',
+                suggestion: 'Start using Claude Code to generate usage data'
+            });
         }
 
         const allRecords: ClaudeUsageRecord[] = [];
+        const allLimitEvents: RateLimitEvent[] = [];
+        const seenFiles = new Set<string>();
         let parseErrors = 0;
         let totalFiles = 0;
 
-        for (const projectDir of projectDirs) {
-            const projectPath = path.join(claudePath, projectDir);
+        for (const { root, projectPath } of projectPaths) {
             try {
                 if (fs.statSync(projectPath).isDirectory()) {
-                    const projectRecords = parseProjectDirectory(projectPath);
-                    allRecords.push(...projectRecords);
+                    const filesBefore = seenFiles.size;
+                    const projectData = parseProjectDirectory(projectPath, cache, seenFiles);
+                    appendAll(allRecords, projectData.records);
+                    appendAll(allLimitEvents, projectData.limitEvents);
+                    root.recordCount += projectData.records.length;
 
                     // Count files for error rate calculation
-                    const files = fs.readdirSync(projectPath);
-                    totalFiles += files.filter(f => f.endsWith('.jsonl')).length;
+                    totalFiles += seenFiles.size - filesBefore;
                 }
             } catch (error) {
                 parseErrors++;
-                console.warn(`Failed to parse project directory ${projectDir}:`, error);
+                console.warn(`Failed to parse project directory ${projectPath}:`, error);
             }
         }
 
+        // Forget files that were deleted since the previous scan
+        cache.prune(seenFiles);
+
         // Check if we have a high error rate (might indicate format changes)
         const errorRate = totalFiles > 0 ? parseErrors / totalFiles : 0;
 
         if (allRecords.length === 0 && totalFiles > 0) {
-            return {
-                records: [],
-                totalRecords: 0,
-                dateRange: { earliest: new Date(), latest: new Date() },
-                sessionIds: [],
-                error: {
-                    type: 'data_format_error',
-                    message: 'Unable to parse any Claude Code usage data',
-                    details: `Found ${totalFiles} data files but could not parse any records`,
-                    suggestion: 'Claude Code data format may have changed. Please check for extension updates or report this issue'
-                }
-            };
+            return createEmptyUsageData(dataRoots, {
+                type: 'data_format_error',
+                message: 'Unable to parse any Claude Code usage data',
+                details: `Found ${totalFiles} data files but could not parse any records`,
+                suggestion: 'Claude Code data format may have changed. Please check for extension updates or report this issue'
+            });
         }
 
         if (errorRate > 0.5 && allRecords.length > 0) {
             console.warn(`High error rate detected: ${Math.round(errorRate * 100)}% of files failed to parse`);
         }
 
-        const records = allRecords
+        // Resumed and forked sessions copy the same assistant messages into several files
+        const { records: uniqueRecords, duplicateCount } = deduplicateRecords(allRecords);
+
+        const records = uniqueRecords
             .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 
-        const sessionIds = [...new Set(allRecords.map(r => r.sessionId).filter((id): id is string => Boolean(id)))];
+        const limitEvents = deduplicateLimitEvents(allLimitEvents)
+            .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+        const sessionIds = [...new Set(records.map(r => r.sessionId).filter((id): id is string => Boolean(id)))];
 
         const dateRange = records.length > 0 ? {
             earliest: new Date(records[0].timestamp),
@@ -240,7 +392,10 @@ export const parseAllUsageData = async (): Promise<ParsedUsageData & { error?: P
             records,
             totalRecords: records.length,
             dateRange,
-            sessionIds
+            sessionIds,
+            duplicateRecords: duplicateCount,
+            dataRoots,
+            limitEvents
         };
 
         // Add warning if error rate is concerning but we still got some data
@@ -259,17 +414,11 @@ export const parseAllUsageData = async (): Promise<ParsedUsageData & { error?: P
         return result;
     } catch (error) {
         console.error('Error parsing Claude usage data:', error);
-        return {
-            records: [],
-            totalRecords: 0,
-            dateRange: { earliest: new Date(), latest: new Date() },
-            sessionIds: [],
-            error: {
-                type: 'unknown_error',
-                message: 'Unexpected error while parsing Claude Code data',
-                details: error instanceof Error ? error.message : String(error),
-                suggestion: 'Please restart VSCode and try again. If the issue persists, report this error'
-            }
-        };
+        return createEmptyUsageData(dataRoots, {
+            type: 'unknown_error',
+            message: 'Unexpected error while parsing Claude Code data',
+            details: error instanceof Error ? error.message : String(error),
+            suggestion: 'Please restart VSCode and try again. If the issue persists, report this error'
+        });
     }
 };
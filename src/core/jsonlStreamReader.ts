@@ -0,0 +1,199 @@
+/**
+ * JSONL Stream Reader - Core Module (Independent)
+ *
+ * Reads JSONL files in fixed-size chunks and yields one line or entry at a
+ * time, so multi-hundred-MB session transcripts never have to be held in
+ * memory as a single string.
+ *
+ * **Safety Rules:**
+ * - Lines longer than `maxLineBytes` are discarded without being buffered
+ * - A trailing line without a newline is only consumed once it is complete JSON,
+ *   since Claude Code may still be writing it
+ * - An optional prefilter inspects raw bytes so uninteresting lines are never decoded or parsed
+ *
+ * @module JsonlStreamReader
+ */
+
+import * as fs from 'fs';
+import { ClaudeUsageRecord, RateLimitEvent } from '../types';
+
+/** Reader tuning options. */
+export interface JsonlStreamOptions {
+    /** Bytes read from disk per chunk */
+    chunkBytes: number;
+    /** Lines above this size are skipped entirely */
+    maxLineBytes: number;
+}
+
+/** Default options: 64 KB chunks, 8 MB per line. */
+export const DEFAULT_STREAM_OPTIONS: JsonlStreamOptions = {
+    chunkBytes: 64 * 1024,
+    maxLineBytes: 8 * 1024 * 1024
+};
+
+/**
+ * Read position shared between the reader and its caller.
+ * `offset` always points just past the last fully consumed line.
+ */
+export interface StreamCursor {
+    offset: number;
+    oversizedLines: number;
+}
+
+/** Decides from raw bytes whether a line is worth decoding and parsing. */
+export type LinePrefilter = (line: Buffer) => boolean;
+
+/** What a single transcript line contributes: token usage or a limit-reached message. */
+export type TranscriptEntry =
+    | { kind: 'usage'; record: ClaudeUsageRecord }
+    | { kind: 'rate_limit'; event: RateLimitEvent };
+
+/**
+ * Scratch state a line parser keeps for one file, e.g. to link a line to an
+ * earlier one. It survives incremental reads and is reset when the file is re-read.
+ */
+export type LineParserState = Map<string, string>;
+
+/** Converts a single JSONL line into a transcript entry, or null to skip it. */
+export type LineParser = (line: string, fileState: LineParserState) => TranscriptEntry | null;
+
+/** Line feed byte used to split chunks into lines. */
+const NEWLINE_BYTE = 0x0a;
+
+/**
+ * Checks whether a trailing line without a newline is already a complete JSON value.
+ * A line that is still being written by Claude Code will fail to parse.
+ */
+const isCompleteJsonLine = (line: Buffer): boolean => {
+    try {
+        JSON.parse(line.toString('utf-8'));
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Yields raw lines between the cursor offset and `endOffset`.
+ * The cursor is advanced after each line is consumed, including skipped ones.
+ *
+ * @param filePath Absolute path to the JSONL file
+ * @param cursor Read position, updated in place
+ * @param endOffset File size at the time of the read
+ * @param options Chunk and line size limits
+ */
+export function* readJsonlLines(
+    filePath: string,
+    cursor: StreamCursor,
+    endOffset: number,
+    options: JsonlStreamOptions = DEFAULT_STREAM_OPTIONS
+): Generator<Buffer> {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        const chunk = Buffer.alloc(options.chunkBytes);
+        let pending: Buffer[] = [];
+        let pendingBytes = 0;
+        let oversized = false;
+        let position = cursor.offset;
+
+        while (position < endOffset) {
+            const bytesRead = fs.readSync(fd, chunk, 0, Math.min(chunk.length, endOffset - position), position);
+            if (bytesRead === 0) {
+                break;
+            }
+
+            let lineStart = 0;
+            let newline = chunk.indexOf(NEWLINE_BYTE, 0);
+            while (newline !== -1 && newline < bytesRead) {
+                const segment = chunk.subarray(lineStart, newline);
+                const lineEnd = position + newline + 1;
+
+                if (oversized || pendingBytes + segment.length > options.maxLineBytes) {
+                    cursor.oversizedLines++;
+                    cursor.offset = lineEnd;
+                } else {
+                    const line = pendingBytes > 0 ? Buffer.concat([...pending, segment]) : Buffer.from(segment);
+                    cursor.offset = lineEnd;
+                    yield line;
+                }
+
+                pending = [];
+                pendingBytes = 0;
+                oversized = false;
+                lineStart = newline + 1;
+                newline = chunk.indexOf(NEWLINE_BYTE, lineStart);
+            }
+
+            // Carry the unterminated remainder of this chunk into the next one
+            if (lineStart < bytesRead && !oversized) {
+                const remainder = chunk.subarray(lineStart, bytesRead);
+                if (pendingBytes + remainder.length > options.maxLineBytes) {
+                    oversized = true;
+                    pending = [];
+                    pendingBytes = 0;
+                } else {
+                    pending.push(Buffer.from(remainder));
+                    pendingBytes += remainder.length;
+                }
+            }
+
+            position += bytesRead;
+        }
+
+        // A trailing line without newline is consumed only when it is already complete
+        if (!oversized && pendingBytes > 0) {
+            const tail = Buffer.concat(pending);
+            if (isCompleteJsonLine(tail)) {
+                cursor.offset = position;
+                yield tail;
+            }
+        }
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * Yields transcript entries one at a time from the cursor offset up to `endOffset`.
+ *
+ * @param filePath Absolute path to the JSONL file
+ * @param cursor Read position, updated in place
+ * @param endOffset File size at the time of the read
+ * @param parseLine Parser applied to each accepted line
+ * @param prefilter Optional byte-level check run before decoding a line
+ * @param options Chunk and line size limits
+ * @param fileState Parser state of the file, shared across reads
+ *
+ * @example
+ * ```typescript
+ * const cursor = { offset: 0, oversizedLines: 0 };
+ * for (const entry of streamTranscriptEntries(file, cursor, size, parseLine)) {
+ *   entries.push(entry);
+ * }
+ * ```
+ */
+export function* streamTranscriptEntries(
+    filePath: string,
+    cursor: StreamCursor,
+    endOffset: number,
+    parseLine: LineParser,
+    prefilter?: LinePrefilter,
+    options: JsonlStreamOptions = DEFAULT_STREAM_OPTIONS,
+    fileState: LineParserState = new Map()
+): Generator<TranscriptEntry> {
+    for (const line of readJsonlLines(filePath, cursor, endOffset, options)) {
+        if (prefilter && !prefilter(line)) {
+            continue;
+        }
+
+        const text = line.toString('utf-8');
+        if (!text.trim()) {
+            continue;
+        }
+
+        const entry = parseLine(text, fileState);
+        if (entry) {
+            yield entry;
+        }
+    }
+}
@@ -0,0 +1,213 @@
+/**
+ * Model Pricing - Core Module (Independent)
+ *
+ * Versioned price registry for Claude models. Model ids are matched by prefix
+ * (e.g. `claude-sonnet-4` matches `claude-sonnet-4-20250514`), falling back to
+ * the newest price of the same family (opus, sonnet, haiku) for unknown ids.
+ *
+ * **Versioning:** every entry carries the date from which it applies, so a
+ * record is always priced with the entry in force at its timestamp.
+ *
+ * @module ModelPricing
+ */
+
+import { ClaudeUsageRecord } from '../types';
+
+/** Prices in USD per 1M tokens. */
+export interface ModelPrice {
+    input: number;
+    output: number;
+    /** Cache creation (5-minute cache write) tokens */
+    cacheWrite: number;
+    /** Cache read tokens */
+    cacheRead: number;
+}
+
+/** A price for a model id prefix, valid from a date onwards. */
+export interface PricingEntry {
+    /** Model id prefix, e.g. `claude-opus-4-1` */
+    model: string;
+    /** ISO date (YYYY-MM-DD) from which the price applies */
+    effectiveFrom: string;
+    price: ModelPrice;
+}
+
+/** Model families used when no prefix matches. */
+const MODEL_FAMILIES = ['opus', 'sonnet', 'haiku'] as const;
+
+/** Price used when neither a prefix nor a family matches. */
+export const DEFAULT_MODEL_PRICE: ModelPrice = { input: 3.00, output: 15.00, cacheWrite: 3.75, cacheRead: 0.30 };
+
+/** Published Anthropic list prices. */
+export const PRICING_HISTORY: PricingEntry[] = [
+    { model: 'claude-3-haiku', effectiveFrom: '2024-03-07', price: { input: 0.25, output: 1.25, cacheWrite: 0.30, cacheRead: 0.03 } },
+    { model: 'claude-3-sonnet', effectiveFrom: '2024-02-29', price: { input: 3.00, output: 15.00, cacheWrite: 3.75, cacheRead: 0.30 } },
+    { model: 'claude-3-opus', effectiveFrom: '2024-02-29', price: { input: 15.00, output: 75.00, cacheWrite: 18.75, cacheRead: 1.50 } },
+    { model: 'claude-3-5-sonnet', effectiveFrom: '2024-06-20', price: { input: 3.00, output: 15.00, cacheWrite: 3.75, cacheRead: 0.30 } },
+    { model: 'claude-3-5-haiku', effectiveFrom: '2024-10-22', price: { input: 0.80, output: 4.00, cacheWrite: 1.00, cacheRead: 0.08 } },
+    { model: 'claude-3-7-sonnet', effectiveFrom: '2025-02-24', price: { input: 3.00, output: 15.00, cacheWrite: 3.75, cacheRead: 0.30 } },
+    { model: 'claude-sonnet-4', effectiveFrom: '2025-05-22', price: { input: 3.00, output: 15.00, cacheWrite: 3.75, cacheRead: 0.30 } },
+    { model: 'claude-opus-4', effectiveFrom: '2025-05-22', price: { input: 15.00, output: 75.00, cacheWrite: 18.75, cacheRead: 1.50 } },
+    { model: 'claude-opus-4-1', effectiveFrom: '2025-08-05', price: { input: 15.00, output: 75.00, cacheWrite: 18.75, cacheRead: 1.50 } },
+    { model: 'claude-sonnet-4-5', effectiveFrom: '2025-09-29', price: { input: 3.00, output: 15.00, cacheWrite: 3.75, cacheRead: 0.30 } },
+    { model: 'claude-haiku-4-5', effectiveFrom: '2025-10-15', price: { input: 1.00, output: 5.00, cacheWrite: 1.25, cacheRead: 0.10 } },
+    { model: 'claude-opus-4-5', effectiveFrom: '2025-11-24', price: { input: 5.00, output: 25.00, cacheWrite: 6.25, cacheRead: 0.50 } }
+];
+
+/**
+ * Normalizes provider-specific model ids to Anthropic's naming.
+ * Strips Bedrock prefixes (`us.anthropic.`) and lowercases the id.
+ */
+const normalizeModelId = (model: string): string => {
+    const lower = model.toLowerCase();
+    const start = lower.indexOf('claude-');
+    return start > 0 ? lower.slice(start) : lower;
+};
+
+/** Checks whether a model id starts with the prefix at a segment boundary. */
+const matchesPrefix = (modelId: string, prefix: string): boolean =>
+    modelId.startsWith(prefix) && !/[a-z0-9]/.test(modelId.charAt(prefix.length));
+
+/** Price versions that apply to one model id, oldest first. */
+interface ModelPriceVersions {
+    entries: PricingEntry[];
+    /** Start of each entry in epoch milliseconds */
+    effectiveTimes: number[];
+}
+
+/**
+ * Price versions per pricing table and model id. Tables are created once per
+ * settings read, so entries are dropped together with their table.
+ */
+const priceVersionCache = new WeakMap<PricingEntry[], Map<string, ModelPriceVersions | null>>();
+
+/** Sorts entries into price versions, oldest first. */
+const createPriceVersions = (entries: PricingEntry[]): ModelPriceVersions | null => {
+    if (entries.length === 0) {
+        return null;
+    }
+    const sorted = [...entries].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    return { entries: sorted, effectiveTimes: sorted.map(entry => Date.parse(entry.effectiveFrom)) };
+};
+
+/**
+ * Finds the price versions of a model id: those of the longest matching
+ * prefix, otherwise those of the same family.
+ */
+const findPriceVersions = (modelId: string, table: PricingEntry[]): ModelPriceVersions | null => {
+    const prefixMatches = table.filter(entry => matchesPrefix(modelId, entry.model));
+    if (prefixMatches.length > 0) {
+        const longest = prefixMatches.reduce((length, entry) => Math.max(length, entry.model.length), 0);
+        return createPriceVersions(prefixMatches.filter(entry => entry.model.length === longest));
+    }
+
+    const family = MODEL_FAMILIES.find(name => modelId.includes(name));
+    return family ? createPriceVersions(table.filter(entry => entry.model.includes(family))) : null;
+};
+
+/** Gets the price versions of a model from the cache, resolving them on first use. */
+const getPriceVersions = (model: string, table: PricingEntry[]): ModelPriceVersions | null => {
+    let byModel = priceVersionCache.get(table);
+    if (!byModel) {
+        byModel = new Map();
+        priceVersionCache.set(table, byModel);
+    }
+    let versions = byModel.get(model);
+    if (versions === undefined) {
+        versions = findPriceVersions(normalizeModelId(model), table);
+        byModel.set(model, versions);
+    }
+    return versions;
+};
+
+/** Picks the entry in force at the given time, or the earliest one for older records. */
+const selectEffectiveEntry = (versions: ModelPriceVersions, time: number): PricingEntry => {
+    for (let index = versions.entries.length - 1; index > 0; index--) {
+        if (versions.effectiveTimes[index] <= time) {
+            return versions.entries[index];
+        }
+    }
+    return versions.entries[0];
+};
+
+/**
+ * Creates a pricing table with user overrides taking precedence.
+ * An override replaces every built-in version of the same model that took
+ * effect on or after the override's date; earlier versions remain in force
+ * for older records.
+ *
+ * @param overrides - User-configured entries
+ * @param history - Built-in entries
+ * @returns Combined pricing table
+ */
+export const createPricingTable = (
+    overrides: PricingEntry[] = [],
+    history: PricingEntry[] = PRICING_HISTORY
+): PricingEntry[] => {
+    const normalizedOverrides = overrides.map(entry => ({ ...entry, model: normalizeModelId(entry.model) }));
+    const remaining = history.filter(entry => !normalizedOverrides.some(override =>
+        override.model === entry.model && override.effectiveFrom <= entry.effectiveFrom
+    ));
+
+    return [...remaining, ...normalizedOverrides];
+};
+
+/**
+ * Looks up the price of a model at a point in time.
+ *
+ * Matching order:
+ * 1. Longest matching prefix, priced at the entry in force at `timestamp`
+ * 2. Newest entry of the same family (opus, sonnet, haiku) in force at `timestamp`
+ * 3. `DEFAULT_MODEL_PRICE`
+ *
+ * @param model - Model id as found in the transcripts
+ * @param timestamp - Time of the request (defaults to now)
+ * @param table - Pricing table
+ * @returns Price per 1M tokens
+ *
+ * @example
+ * ```typescript
+ * const price = getModelPrice('claude-sonnet-4-20250514', '2025-06-01T10:00:00Z');
+ * console.log(price.input); // 3
+ * ```
+ */
+export const getModelPrice = (
+    model: string,
+    timestamp: string | Date = new Date(),
+    table: PricingEntry[] = PRICING_HISTORY
+): ModelPrice => {
+    const versions = getPriceVersions(model || '', table);
+    return versions ? selectEffectiveEntry(versions, new Date(timestamp).getTime()).price : DEFAULT_MODEL_PRICE;
+};
+
+/**
+ * Calculates the cost of a single record with the price in force at its timestamp.
+ *
+ * @param record - Usage record
+ * @param table - Pricing table
+ * @returns Cost in USD
+ */
+export const calculateRecordCost = (
+    record: ClaudeUsageRecord,
+    table: PricingEntry[] = PRICING_HISTORY
+): number => {
+    const price = getModelPrice(record.model, record.timestamp, table);
+    return (
+        record.input_tokens * price.input +
+        record.output_tokens * price.output +
+        record.cache_creation_tokens * price.cacheWrite +
+        record.cache_read_tokens * price.cacheRead
+    ) / 1_000_000;
+};
+
+/**
+ * Calculates the total cost of records.
+ *
+ * @param records - Usage records
+ * @param table - Pricing table
+ * @returns Cost in USD
+ */
+export const calculateRecordsCost = (
+    records: ClaudeUsageRecord[],
+    table: PricingEntry[] = PRICING_HISTORY
+): number => records.reduce((sum, record) => sum + calculateRecordCost(record, table), 0);
@@ -7,40 +7,32 @@
  * @module ModelUtils
  */
 
-/** Model pricing in USD per 1M tokens (approximate) */
-export const MODEL_PRICING = {
-    'claude-3-5-sonnet': { input: 3.00, output: 15.00 },
-    'claude-3-5-haiku': { input: 0.25, output: 1.25 },
-    'claude-3-opus': { input: 15.00, output: 75.00 },
-    'claude-3-sonnet': { input: 3.00, output: 15.00 },
-    'claude-3-haiku': { input: 0.25, output: 1.25 },
-    'default': { input: 3.00, output: 15.00 }
-} as const;
+import { ModelPrice, PRICING_HISTORY, DEFAULT_MODEL_PRICE, getModelPrice } from './modelPricing';
 
-/** Model accuracy ranks based on average token price (lower rank = lower accuracy) */
-const MODEL_ACCURACY_RANKS: Record<string, number> = (() => {
-    const ranks: Record<string, number> = {};
-    
-    // Calculate average price per token for ranking
-    Object.entries(MODEL_PRICING).forEach(([model, pricing]) => {
-        if (model !== 'default') {
-            const avgPrice = (pricing.input + pricing.output) / 2;
-            ranks[model] = avgPrice;
-        }
-    });
-    
-    return ranks;
+/**
+ * Current model pricing in USD per 1M tokens, keyed by model id prefix.
+ * Derived from the versioned registry in `modelPricing`; use `getModelPrice`
+ * for prefix matching and historical prices.
+ */
+export const MODEL_PRICING: Record<string, ModelPrice> = (() => {
+    const pricing: Record<string, ModelPrice> = {};
+    [...PRICING_HISTORY]
+        .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))
+        .forEach(entry => { pricing[entry.model] = entry.price; });
+    pricing['default'] = DEFAULT_MODEL_PRICE;
+    return pricing;
 })();
 
 /**
- * Gets the accuracy rank of a model based on its pricing.
+ * Gets the accuracy rank of a model based on its current pricing.
  * Lower values indicate lower accuracy (cheaper models).
  * 
  * @param model - The model identifier
- * @returns Accuracy rank (price-based), or default rank if unknown
+ * @returns Accuracy rank (average of input and output price)
  */
 export const getModelAccuracyRank = (model: string): number => {
-    return MODEL_ACCURACY_RANKS[model] || MODEL_ACCURACY_RANKS['default'] || 9.0;
+    const pricing = getModelPrice(model);
+    return (pricing.input + pricing.output) / 2;
 };
 
 /**
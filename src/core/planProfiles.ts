@@ -0,0 +1,75 @@
+/**
+ * Plan Profiles - Core Module (Independent)
+ *
+ * Known 5-hour session limits of the Claude subscription plans. The limits are
+ * expressed in raw input + output tokens and are rescaled to the active token
+ * accounting model by the caller.
+ *
+ * **Built-in profiles:**
+ * - `pro`: ~19K tokens
+ * - `max5`: ~88K tokens (Max 5x)
+ * - `max20`: ~220K tokens (Max 20x)
+ * - `api`: no fixed session limit (pay as you go)
+ *
+ * @module PlanProfiles
+ */
+
+/** Limit profile of a subscription plan. */
+export interface PlanProfile {
+    /** Identifier used in settings, e.g. `max5` */
+    id: string;
+    /** Display name */
+    label: string;
+    /** Tokens per 5-hour session (raw input + output), or null when the plan has no fixed limit */
+    sessionLimit: number | null;
+}
+
+/** Built-in plan profiles. */
+export const BUILT_IN_PLAN_PROFILES: Record<string, PlanProfile> = {
+    pro: { id: 'pro', label: 'Pro', sessionLimit: 19_000 },
+    max5: { id: 'max5', label: 'Max 5x', sessionLimit: 88_000 },
+    max20: { id: 'max20', label: 'Max 20x', sessionLimit: 220_000 },
+    api: { id: 'api', label: 'API', sessionLimit: null }
+};
+
+/** Plan id meaning "no plan selected, estimate from history only". */
+export const AUTO_PLAN_ID = 'auto';
+
+/**
+ * Resolves the selected plan against the built-in and user-defined profiles.
+ * User profiles with a built-in id replace the built-in profile.
+ *
+ * @param planId - Selected plan id, or `auto`
+ * @param customProfiles - User-defined profiles keyed by id
+ * @returns The plan profile, or undefined for `auto` and unknown ids
+ *
+ * @example
+ * ```typescript
+ * const plan = resolvePlanProfile('max5');
+ * console.log(plan?.sessionLimit); // 88000
+ * ```
+ */
+export const resolvePlanProfile = (
+    planId: string,
+    customProfiles: Record<string, Partial<Omit<PlanProfile, 'id'>>> = {}
+): PlanProfile | undefined => {
+    if (!planId || planId === AUTO_PLAN_ID) {
+        return undefined;
+    }
+
+    const builtIn = BUILT_IN_PLAN_PROFILES[planId];
+    const custom = customProfiles[planId];
+    if (!custom) {
+        return builtIn;
+    }
+
+    const sessionLimit = typeof custom.sessionLimit === 'number' && custom.sessionLimit > 0
+        ? custom.sessionLimit
+        : custom.sessionLimit === null ? null : builtIn?.sessionLimit ?? null;
+
+    return {
+        id: planId,
+        label: typeof custom.label === 'string' && custom.label ? custom.label : builtIn?.label ?? planId,
+        sessionLimit
+    };
+};
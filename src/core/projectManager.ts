@@ -4,12 +4,126 @@
  * Manages Claude Code project directory discovery across different platforms.
  * Provides cross-platform compatible path resolution for Claude Code data.
  *
+ * Several data roots can be active at once: user-configured directories,
+ * `CLAUDE_CONFIG_DIR`, `~/.config/claude/projects` and `~/.claude/projects`.
+ *
  * @module ProjectManager
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { ClaudeUsageRecord, DataRoot } from '../types';
+
+/**
+ * Lists candidate home directories in order of preference.
+ */
+const getPotentialHomes = (): string[] => {
+    const homes = [
+        os.homedir(),           // Primary Node.js method (cross-platform)
+        process.env.HOME,       // Unix/Linux/macOS environment variable
+        process.env.USERPROFILE // Windows environment variable
+    ].filter(Boolean) as string[];
+    return [...new Set(homes)];
+};
+
+/**
+ * Expands `~`, `$VAR`, `${VAR}` and `%VAR%` references in a path.
+ * Unset variables are left untouched so the unresolved path shows up in diagnostics.
+ *
+ * @param rawPath - Path as entered by the user
+ * @returns Absolute, normalized path
+ *
+ * @example
+ * ```typescript
+ * expandPathVariables('$CLAUDE_CONFIG_DIR/projects'); // "/opt/claude/projects"
+ * expandPathVariables('~/.claude/projects');          // "/Users/username/.claude/projects"
+ * ```
+ */
+export const expandPathVariables = (rawPath: string): string => {
+    const lookup = (match: string, name: string): string => process.env[name] ?? match;
+
+    let expanded = rawPath.trim()
+        .replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, lookup)
+        .replace(/\$([A-Za-z_][A-Za-z0-9_]*)/g, lookup)
+        .replace(/%([A-Za-z_][A-Za-z0-9_]*)%/g, lookup);
+
+    if (expanded === '~' || expanded.startsWith('~/') || expanded.startsWith('~\\')) {
+        expanded = path.join(os.homedir(), expanded.slice(1));
+    }
+
+    return path.resolve(expanded);
+};
+
+/**
+ * Accepts either a Claude config directory or its `projects` sub-directory.
+ */
+const toProjectsDirectory = (directory: string): string => {
+    const nested = path.join(directory, 'projects');
+    if (path.basename(directory) !== 'projects' && fs.existsSync(nested)) {
+        return nested;
+    }
+    return directory;
+};
+
+/**
+ * Resolves every Claude Code data root that should be scanned.
+ *
+ * **Resolution Order:**
+ * 1. Roots configured in settings (with variable expansion)
+ * 2. Each entry of `CLAUDE_CONFIG_DIR` (comma-separated), plus `/projects`
+ * 3. `~/.config/claude/projects` and `~/.claude/projects` for every home directory
+ *
+ * Steps 2 and 3 only run when auto-detection is enabled. Duplicate paths,
+ * including symlinked aliases, are reported once.
+ *
+ * @param configuredRoots - Roots from the `dataRoots` setting
+ * @param autoDetect - Whether common locations are detected automatically
+ * @returns Data roots with existence information
+ */
+export const resolveClaudeDataRoots = (configuredRoots: string[] = [], autoDetect: boolean = true): DataRoot[] => {
+    const candidates: Array<{ path: string; source: DataRoot['source'] }> = configuredRoots
+        .filter(root => root.trim())
+        .map(root => ({ path: toProjectsDirectory(expandPathVariables(root)), source: 'setting' as const }));
+
+    if (autoDetect) {
+        const configDirs = (process.env.CLAUDE_CONFIG_DIR ?? '')
+            .split(',')
+            .map(dir => dir.trim())
+            .filter(Boolean);
+        for (const configDir of configDirs) {
+            candidates.push({ path: path.join(expandPathVariables(configDir), 'projects'), source: 'CLAUDE_CONFIG_DIR' });
+        }
+
+        for (const homeDir of getPotentialHomes()) {
+            candidates.push({ path: path.join(homeDir, '.config', 'claude', 'projects'), source: 'default' });
+            candidates.push({ path: path.join(homeDir, '.claude', 'projects'), source: 'default' });
+        }
+    }
+
+    const seen = new Set<string>();
+    const roots: DataRoot[] = [];
+
+    for (const candidate of candidates) {
+        const exists = fs.existsSync(candidate.path);
+        const identity = exists ? fs.realpathSync(candidate.path) : candidate.path;
+        if (seen.has(identity)) {
+            continue;
+        }
+        seen.add(identity);
+
+        // Missing auto-detected locations are noise; missing configured ones are worth reporting
+        if (exists || candidate.source !== 'default') {
+            roots.push({ path: candidate.path, source: candidate.source, exists });
+        }
+    }
+
+    if (roots.length === 0) {
+        roots.push({ path: getClaudeProjectsPath(), source: 'default', exists: false });
+    }
+
+    return roots;
+};
 
 /**
  * Discovers and returns the Claude Code projects directory path.
@@ -44,11 +158,7 @@ import * as os from 'os';
  */
 export const getClaudeProjectsPath = (): string => {
     // Define potential home directory sources in order of preference
-    const potentialHomes = [
-        os.homedir(),           // Primary Node.js method (cross-platform)
-        process.env.HOME,       // Unix/Linux/macOS environment variable
-        process.env.USERPROFILE // Windows environment variable
-    ].filter(Boolean) as string[];
+    const potentialHomes = getPotentialHomes();
 
     // Search for existing Claude projects directory
     for (const homeDir of potentialHomes) {
@@ -65,3 +175,104 @@ export const getClaudeProjectsPath = (): string => {
     const defaultPath = path.join(os.homedir(), '.claude', 'projects');
     return defaultPath;
 };
+
+/** Memoized results of {@link decodeProjectDirectoryName}. */
+const decodedProjectCache = new Map<string, string>();
+
+/**
+ * Encodes an absolute project path the way Claude Code names project directories.
+ *
+ * @param projectPath - Absolute path of the working directory
+ * @returns Directory name used under the projects root
+ *
+ * @example
+ * ```typescript
+ * encodeProjectPath('/Users/me/my.app'); // "-Users-me-my-app"
+ * ```
+ */
+export const encodeProjectPath = (projectPath: string): string =>
+    projectPath.replace(/[^A-Za-z0-9]/g, '-');
+
+/**
+ * Decodes a Claude Code project directory name back into a project path.
+ *
+ * The encoding replaces every separator and punctuation character with `-`,
+ * so decoding is ambiguous. Segments are greedily re-joined with `-`, `.` or
+ * `_` where such a path exists on disk; otherwise `-` is read as a separator.
+ *
+ * @param directoryName - Directory name under the projects root
+ * @returns Best-effort absolute project path
+ *
+ * @example
+ * ```typescript
+ * decodeProjectDirectoryName('-Users-me-my-app'); // "/Users/me/my-app" if it exists
+ * ```
+ */
+export const decodeProjectDirectoryName = (directoryName: string): string => {
+    const cached = decodedProjectCache.get(directoryName);
+    if (cached) {
+        return cached;
+    }
+
+    const driveMatch = /^([A-Za-z])--(.*)$/.exec(directoryName);
+    const root = driveMatch ? `${driveMatch[1]}:${path.sep}` : path.sep;
+    const remainder = driveMatch ? driveMatch[2] : directoryName.replace(/^-/, '');
+    const tokens = remainder.split('-');
+
+    let current = root;
+    let index = 0;
+    while (index < tokens.length) {
+        let matched = false;
+
+        // Prefer the longest run of tokens that forms an existing entry
+        for (let end = tokens.length; end > index + 1 && !matched; end--) {
+            for (const joiner of ['-', '.', '_']) {
+                const candidate = path.join(current, tokens.slice(index, end).join(joiner));
+                if (fs.existsSync(candidate)) {
+                    current = candidate;
+                    index = end;
+                    matched = true;
+                    break;
+                }
+            }
+        }
+
+        if (!matched) {
+            current = path.join(current, tokens[index]);
+            index++;
+        }
+    }
+
+    decodedProjectCache.set(directoryName, current);
+    return current;
+};
+
+/**
+ * Locates the session transcript a usage record was read from.
+ *
+ * @param record - Usage record with data root, project directory and session ID
+ * @returns Absolute path of `{sessionId}.jsonl`, or undefined for legacy records
+ */
+export const getSessionTranscriptPath = (
+    record: Pick<ClaudeUsageRecord, 'dataRoot' | 'projectKey' | 'sessionId'>
+): string | undefined =>
+    record.dataRoot && record.projectKey && record.sessionId
+        ? path.join(record.dataRoot, record.projectKey, `${record.sessionId}.jsonl`)
+        : undefined;
+
+/**
+ * Checks whether a Claude Code project belongs to one of the given folders.
+ * A project matches when it is the folder itself or lies inside it.
+ *
+ * @param projectKey - Encoded project directory name
+ * @param project - Decoded project path
+ * @param folders - Absolute folder paths (e.g. VS Code workspace folders)
+ * @returns True if the project belongs to any folder
+ */
+export const isProjectInFolders = (projectKey: string, project: string, folders: string[]): boolean =>
+    folders.some(folder => {
+        const normalized = path.resolve(folder);
+        return encodeProjectPath(normalized) === projectKey ||
+            project === normalized ||
+            project.startsWith(normalized + path.sep);
+    });
@@ -0,0 +1,87 @@
+/**
+ * Project Usage Calculator - Core Module (Independent)
+ *
+ * Attributes token usage within a block to the Claude Code projects that
+ * produced it, and isolates the share used by the open workspace.
+ *
+ * @module ProjectUsageCalculator
+ */
+
+import { ClaudeUsageRecord, ProjectUsage, WorkspaceUsage } from '../types';
+import { calculateTokenUsage } from './usageCalculator';
+import { isProjectInFolders } from './projectManager';
+import { calculateUsagePercentageWithLimit } from './usageBaselineCalculator';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS } from './tokenAccounting';
+
+/** Project key used for records that carry no project information. */
+const UNKNOWN_PROJECT_KEY = 'unknown';
+
+/**
+ * Groups block records by project and totals their tokens.
+ *
+ * @param records - Records of a single block
+ * @param weights - Token accounting weights
+ * @returns Per-project totals sorted by token usage (descending)
+ */
+export const calculateProjectUsage = (
+    records: ClaudeUsageRecord[],
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): ProjectUsage[] => {
+    const byProject = new Map<string, ClaudeUsageRecord[]>();
+
+    for (const record of records) {
+        const key = record.projectKey ?? UNKNOWN_PROJECT_KEY;
+        const projectRecords = byProject.get(key);
+        if (projectRecords) {
+            projectRecords.push(record);
+        } else {
+            byProject.set(key, [record]);
+        }
+    }
+
+    const blockTotal = calculateTokenUsage(records, weights).totalTokens;
+
+    return Array.from(byProject.entries())
+        .map(([projectKey, projectRecords]) => {
+            const usage = calculateTokenUsage(projectRecords, weights);
+            return {
+                projectKey,
+                project: projectRecords[0].project ?? projectKey,
+                totalTokens: usage.totalTokens,
+                requestCount: usage.requestCount,
+                shareOfBlock: blockTotal > 0 ? Math.round((usage.totalTokens / blockTotal) * 100) : 0
+            };
+        })
+        .sort((a, b) => b.totalTokens - a.totalTokens);
+};
+
+/**
+ * Sums the usage of the projects that belong to the given workspace folders.
+ *
+ * @param projectUsage - Per-project totals for the block
+ * @param workspaceFolders - Absolute paths of the open workspace folders
+ * @param rateLimitEstimate - Rate limit used for the percentage
+ * @returns Workspace usage, or undefined when no folder is open
+ */
+export const calculateWorkspaceUsage = (
+    projectUsage: ProjectUsage[],
+    workspaceFolders: string[],
+    rateLimitEstimate: number
+): WorkspaceUsage | undefined => {
+    if (workspaceFolders.length === 0) {
+        return undefined;
+    }
+
+    const matched = projectUsage.filter(usage =>
+        isProjectInFolders(usage.projectKey, usage.project, workspaceFolders)
+    );
+    const totalTokens = matched.reduce((sum, usage) => sum + usage.totalTokens, 0);
+    const shareOfBlock = matched.reduce((sum, usage) => sum + usage.shareOfBlock, 0);
+
+    return {
+        projects: matched.map(usage => usage.project),
+        totalTokens,
+        usagePercentage: calculateUsagePercentageWithLimit(totalTokens, rateLimitEstimate),
+        shareOfBlock: Math.min(100, shareOfBlock)
+    };
+};
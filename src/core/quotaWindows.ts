@@ -0,0 +1,259 @@
+/**
+ * Quota Windows - Core Module (Independent)
+ *
+ * Evaluates several usage quotas at once: the 5-hour block, a 7-day rolling
+ * window and per-model weekly windows (e.g. Opus). Each window gets its own
+ * usage, limit and reset time so the most constrained one can be surfaced.
+ *
+ * **Window types:**
+ * - `block`: follows the shared session windowing engine (the current 5-hour block)
+ * - `rolling`: covers the trailing `durationMs` before now
+ *
+ * **Limits:** a configured limit wins; otherwise block windows use the rate
+ * limit estimate and rolling windows use the tokens observed at matching
+ * limit-reached events. Without either, the window is tracked without a limit.
+ *
+ * @module QuotaWindows
+ */
+
+import { ClaudeUsageRecord, QuotaWindowStatus, RateLimitEvent } from '../types';
+import { WindowingOptions, DEFAULT_WINDOWING_OPTIONS, groupRecordsIntoWindows, isWindowActive } from './sessionWindowing';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, sumWeightedTokens } from './tokenAccounting';
+import { calculateUsagePercentageWithLimit } from './usageBaselineCalculator';
+import { formatTimeUntilReset } from '../utils/timeUtils';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+/** Usage percentage at which a window counts as high usage. */
+const HIGH_USAGE_PERCENTAGE = 70;
+/** Usage percentage at which a window counts as critical. */
+const CRITICAL_USAGE_PERCENTAGE = 90;
+
+/** Definition of one quota window. */
+export interface QuotaWindowDefinition {
+    id: string;
+    label: string;
+    type: 'block' | 'rolling';
+    /** Window length (rolling windows only; block windows follow the windowing options) */
+    durationMs: number;
+    /** Only records whose model id contains this text count towards the window */
+    modelFilter?: string;
+    /** Limit-reached events of this type measure the window's limit */
+    limitType?: RateLimitEvent['limitType'];
+    /** Configured limit in tokens */
+    limit?: number | null;
+}
+
+/** 5-hour block, 7-day rolling window and Opus weekly window. */
+export const DEFAULT_QUOTA_WINDOWS: QuotaWindowDefinition[] = [
+    { id: 'session', label: '5-hour', type: 'block', durationMs: 5 * HOUR_MS, limitType: 'session' },
+    { id: 'weekly', label: 'Weekly', type: 'rolling', durationMs: WEEK_MS, limitType: 'weekly' },
+    { id: 'opus-weekly', label: 'Opus weekly', type: 'rolling', durationMs: WEEK_MS, modelFilter: 'opus', limitType: 'opus_weekly' }
+];
+
+/**
+ * Infers which limit-reached events belong to a window.
+ * Blocks match session events; week-long rolling windows match weekly events
+ * (Opus-filtered ones the Opus weekly events).
+ *
+ * @param type - Window type
+ * @param durationMs - Window length
+ * @param modelFilter - Model filter of the window
+ * @returns Matching limit type, or undefined if no event type applies
+ */
+export const inferLimitType = (
+    type: QuotaWindowDefinition['type'],
+    durationMs: number,
+    modelFilter?: string
+): RateLimitEvent['limitType'] | undefined => {
+    if (type === 'block') {
+        return modelFilter ? undefined : 'session';
+    }
+    if (durationMs !== WEEK_MS) {
+        return undefined;
+    }
+    if (!modelFilter) {
+        return 'weekly';
+    }
+    return modelFilter.toLowerCase().includes('opus') ? 'opus_weekly' : undefined;
+};
+
+/**
+ * Evaluates all quota windows at the given time.
+ *
+ * @param records - Usage records
+ * @param currentTime - Reference time
+ * @param definitions - Windows to evaluate
+ * @param sessionLimit - Rate limit estimate used by unfiltered block windows without a configured limit
+ * @param limitEvents - Explicit limit-reached events
+ * @param windowing - Window length and gap rule for block windows
+ * @param weights - Token accounting weights
+ * @returns One status per definition, in definition order
+ *
+ * @example
+ * ```typescript
+ * const windows = evaluateQuotaWindows(records, new Date(), DEFAULT_QUOTA_WINDOWS, 88_000, events);
+ * const tightest = selectMostConstrainedWindow(windows);
+ * ```
+ */
+export const evaluateQuotaWindows = (
+    records: ClaudeUsageRecord[],
+    currentTime: Date,
+    definitions: QuotaWindowDefinition[] = DEFAULT_QUOTA_WINDOWS,
+    sessionLimit?: number,
+    limitEvents: RateLimitEvent[] = [],
+    windowing: WindowingOptions = DEFAULT_WINDOWING_OPTIONS,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): QuotaWindowStatus[] => definitions.map(definition => {
+    const windowRecords = definition.modelFilter
+        ? records.filter(record => (record.model || '').toLowerCase().includes(definition.modelFilter!.toLowerCase()))
+        : records;
+
+    const span = definition.type === 'block'
+        ? evaluateBlockSpan(windowRecords, currentTime, windowing)
+        : evaluateRollingSpan(windowRecords, currentTime, definition.durationMs);
+
+    const usedTokens = sumWeightedTokens(span.records, weights);
+    const { limit, limitSource } = resolveWindowLimit(definition, records, limitEvents, sessionLimit, weights);
+
+    // A matching limit event that announced a later reset is more precise than the computed one
+    const announcedReset = findAnnouncedReset(definition, limitEvents, currentTime);
+    const resetTime = announcedReset ?? span.resetTime;
+
+    const usagePercentage = limit ? calculateUsagePercentageWithLimit(usedTokens, limit) : null;
+    const timeUntilReset = Math.max(0, resetTime.getTime() - currentTime.getTime());
+
+    return {
+        id: definition.id,
+        label: definition.label,
+        usedTokens,
+        limit,
+        limitSource,
+        usagePercentage,
+        windowStart: span.windowStart,
+        resetTime,
+        timeUntilReset,
+        timeUntilResetFormatted: formatTimeUntilReset(timeUntilReset),
+        isHighUsage: usagePercentage !== null && usagePercentage >= HIGH_USAGE_PERCENTAGE,
+        isCriticalUsage: usagePercentage !== null && usagePercentage >= CRITICAL_USAGE_PERCENTAGE
+    };
+});
+
+/**
+ * Picks the window closest to exhaustion.
+ *
+ * @param windows - Evaluated windows
+ * @returns Window with the highest usage percentage, or undefined if no window has a limit
+ */
+export const selectMostConstrainedWindow = (windows: QuotaWindowStatus[]): QuotaWindowStatus | undefined =>
+    windows
+        .filter(window => window.usagePercentage !== null)
+        .reduce<QuotaWindowStatus | undefined>((tightest, window) =>
+            !tightest || window.usagePercentage! > tightest.usagePercentage! ? window : tightest, undefined);
+
+/** Records and boundaries of a window at the current time. */
+interface WindowSpan {
+    records: ClaudeUsageRecord[];
+    windowStart: Date;
+    resetTime: Date;
+}
+
+/** Current block of the windowing engine, or an empty span if no block is active. */
+const evaluateBlockSpan = (
+    records: ClaudeUsageRecord[],
+    currentTime: Date,
+    windowing: WindowingOptions
+): WindowSpan => {
+    const windows = groupRecordsIntoWindows(records, windowing);
+    const latest = windows[windows.length - 1];
+
+    if (latest && isWindowActive(latest, currentTime, windowing)) {
+        return { records: latest.records, windowStart: latest.startTime, resetTime: latest.endTime };
+    }
+
+    return {
+        records: [],
+        windowStart: currentTime,
+        resetTime: new Date(currentTime.getTime() + windowing.windowMs)
+    };
+};
+
+/** Trailing window; usage starts to drop once the oldest record in it ages out. */
+const evaluateRollingSpan = (
+    records: ClaudeUsageRecord[],
+    currentTime: Date,
+    durationMs: number
+): WindowSpan => {
+    const windowStart = new Date(currentTime.getTime() - durationMs);
+    const inWindow = records.filter(record => {
+        const time = new Date(record.timestamp).getTime();
+        return time > windowStart.getTime() && time <= currentTime.getTime();
+    });
+
+    const oldest = inWindow.reduce((min, record) =>
+        Math.min(min, new Date(record.timestamp).getTime()), Number.POSITIVE_INFINITY);
+    const resetTime = Number.isFinite(oldest) ? new Date(oldest + durationMs) : currentTime;
+
+    return { records: inWindow, windowStart, resetTime };
+};
+
+/** Resolves the limit of a window from configuration, limit events or the session estimate. */
+const resolveWindowLimit = (
+    definition: QuotaWindowDefinition,
+    records: ClaudeUsageRecord[],
+    limitEvents: RateLimitEvent[],
+    sessionLimit: number | undefined,
+    weights: TokenWeights
+): Pick<QuotaWindowStatus, 'limit' | 'limitSource'> => {
+    if (definition.limit && definition.limit > 0) {
+        return { limit: definition.limit, limitSource: 'configured' };
+    }
+
+    if (definition.type === 'block' && !definition.modelFilter) {
+        return sessionLimit && sessionLimit > 0
+            ? { limit: sessionLimit, limitSource: 'estimate' }
+            : { limit: null, limitSource: 'none' };
+    }
+
+    const events = limitEvents.filter(event => event.limitType === definition.limitType);
+    if (definition.type !== 'rolling' || events.length === 0) {
+        return { limit: null, limitSource: 'none' };
+    }
+
+    const samples = events
+        .map(event => {
+            const eventTime = new Date(event.timestamp);
+            const span = evaluateRollingSpan(records, eventTime, definition.durationMs);
+            const matching = definition.modelFilter
+                ? span.records.filter(record => (record.model || '').toLowerCase().includes(definition.modelFilter!.toLowerCase()))
+                : span.records;
+            return sumWeightedTokens(matching, weights);
+        })
+        .filter(tokens => tokens > 0)
+        .sort((a, b) => a - b);
+
+    if (samples.length === 0) {
+        return { limit: null, limitSource: 'none' };
+    }
+
+    return { limit: samples[Math.floor(samples.length / 2)], limitSource: 'limit_events' };
+};
+
+/** Latest reset time announced by a matching limit event that is still in the future. */
+const findAnnouncedReset = (
+    definition: QuotaWindowDefinition,
+    limitEvents: RateLimitEvent[],
+    currentTime: Date
+): Date | undefined => {
+    if (!definition.limitType || definition.type === 'block') {
+        return undefined;
+    }
+
+    const resets = limitEvents
+        .filter(event => event.limitType === definition.limitType && event.resetTime)
+        .map(event => new Date(event.resetTime!))
+        .filter(reset => reset.getTime() > currentTime.getTime());
+
+    return resets.length > 0 ? resets.reduce((a, b) => (a > b ? a : b)) : undefined;
+};
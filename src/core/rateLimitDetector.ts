@@ -1,9 +1,21 @@
 /**
  * Rate Limit Detector - Core Module
+ *
+ * Explicit "usage limit reached" events are ground truth: the tokens used in
+ * the block up to each event are exact limit samples. Only when no such event
+ * exists are limit hits guessed from session length and idle gaps.
+ *
  * @module RateLimitDetector
  */
 
-import { ClaudeUsageRecord } from '../types';
+import { ClaudeUsageRecord, RateLimitEvent } from '../types';
+import {
+    WindowingOptions,
+    DEFAULT_WINDOWING_OPTIONS,
+    RecordWindow,
+    groupRecordsIntoWindows
+} from './sessionWindowing';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, sumWeightedTokens, getWeightScale } from './tokenAccounting';
 
 export interface RateLimitDetection {
     detectedLimit: number | null;
@@ -13,70 +25,101 @@ export interface RateLimitDetection {
     candidateLimits: number[];
 }
 
+/** Detection method reported when the limit comes from explicit limit events. */
+export const LIMIT_EVENT_DETECTION_METHOD = 'limit_events';
+
 /**
- * Detects rate limit from historical usage patterns.
+ * Detects rate limit from explicit limit events, falling back to historical usage patterns.
  * @param records Historical usage records
+ * @param windowing Window length and gap rule shared with the block calculator
+ * @param weights Token accounting weights for session totals
+ * @param limitEvents Explicit limit-reached events from the transcripts
  * @returns Rate limit detection result
  */
-export const detectRateLimit = (records: ClaudeUsageRecord[]): RateLimitDetection => {
+export const detectRateLimit = (
+    records: ClaudeUsageRecord[],
+    windowing: WindowingOptions = DEFAULT_WINDOWING_OPTIONS,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+    limitEvents: RateLimitEvent[] = []
+): RateLimitDetection => {
     if (records.length === 0) {
         return createEmptyDetection();
     }
 
-    const sessions = groupInto5HourSessions(records);
-    const limitCandidates = findLimitCandidates(sessions);
+    const eventDetection = detectFromLimitEvents(records, limitEvents, windowing, weights);
+    if (eventDetection) {
+        return eventDetection;
+    }
+
+    // Token thresholds below are calibrated for raw input + output tokens
+    const scale = getWeightScale(records, weights);
+    const sessions = groupRecordsIntoWindows(records, windowing).map(window => analyzeSession(window, weights));
+    const limitCandidates = findLimitCandidates(sessions, scale);
     
     if (limitCandidates.length === 0) {
         return createEmptyDetection();
     }
 
-    return analyzeLimitCandidates(limitCandidates);
+    return analyzeLimitCandidates(limitCandidates, scale);
 };
 
-/** Groups usage records into 5-hour session blocks. */
-const groupInto5HourSessions = (records: ClaudeUsageRecord[]): SessionAnalysis[] => {
-    const sortedRecords = [...records].sort((a, b) => 
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+/**
+ * Measures the block usage at the moment of each explicit session limit event.
+ * Only the first event of each block counts; later ones repeat the same hit.
+ * @returns Detection built from the samples, or null if no event falls into a block
+ */
+const detectFromLimitEvents = (
+    records: ClaudeUsageRecord[],
+    limitEvents: RateLimitEvent[],
+    windowing: WindowingOptions,
+    weights: TokenWeights
+): RateLimitDetection | null => {
+    // Unclassified events include transient API errors ("rate limit reached") that say nothing about the block limit
+    const sessionEvents = limitEvents.filter(event => event.limitType === 'session');
+    if (sessionEvents.length === 0) {
+        return null;
+    }
 
-    const sessions: SessionAnalysis[] = [];
-    const sessionDuration = 5 * 60 * 60 * 1000; // 5 hours in milliseconds
-
-    let currentSession: ClaudeUsageRecord[] = [];
-    let sessionStartTime: Date | null = null;
-
-    for (const record of sortedRecords) {
-        const recordTime = new Date(record.timestamp);
-
-        if (!sessionStartTime) {
-            sessionStartTime = new Date(recordTime);
-            sessionStartTime.setUTCMinutes(0, 0, 0);
-            currentSession = [record];
-        } else {
-            const timeSinceStart = recordTime.getTime() - sessionStartTime.getTime();
-            const lastRecord = currentSession[currentSession.length - 1];
-            const timeSinceLastRecord = lastRecord ? 
-                recordTime.getTime() - new Date(lastRecord.timestamp).getTime() : 0;
-
-            if (timeSinceStart <= sessionDuration && timeSinceLastRecord <= sessionDuration) {
-                currentSession.push(record);
-            } else {
-                if (currentSession.length > 0) {
-                    sessions.push(analyzeSession(currentSession, sessionStartTime));
-                }
-                
-                sessionStartTime = new Date(recordTime);
-                sessionStartTime.setUTCMinutes(0, 0, 0);
-                currentSession = [record];
-            }
+    const windows = groupRecordsIntoWindows(records, windowing);
+    const sampledWindows = new Set<string>();
+    const samples: number[] = [];
+
+    for (const event of sessionEvents) {
+        const eventTime = new Date(event.timestamp).getTime();
+        const window = windows.find(w =>
+            w.startTime.getTime() <= eventTime && eventTime <= w.endTime.getTime()
+        );
+        if (!window || sampledWindows.has(window.id)) {
+            continue;
+        }
+
+        const usedTokens = sumWeightedTokens(
+            window.records.filter(record => new Date(record.timestamp).getTime() <= eventTime),
+            weights
+        );
+        if (usedTokens > 0) {
+            sampledWindows.add(window.id);
+            samples.push(usedTokens);
         }
     }
 
-    if (currentSession.length > 0 && sessionStartTime) {
-        sessions.push(analyzeSession(currentSession, sessionStartTime));
+    if (samples.length === 0) {
+        return null;
     }
 
-    return sessions;
+    const sortedSamples = [...samples].sort((a, b) => a - b);
+    const middle = Math.floor(sortedSamples.length / 2);
+    const median = sortedSamples.length % 2 === 0
+        ? Math.round((sortedSamples[middle - 1] + sortedSamples[middle]) / 2)
+        : sortedSamples[middle];
+
+    return {
+        detectedLimit: median,
+        confidence: sortedSamples.length >= 3 ? 'high' : 'medium',
+        sampleCount: sortedSamples.length,
+        detectionMethod: LIMIT_EVENT_DETECTION_METHOD,
+        candidateLimits: sortedSamples
+    };
 };
 
 interface SessionAnalysis {
@@ -90,16 +133,17 @@ interface SessionAnalysis {
     isLikelyLimitHit: boolean;
 }
 
-/** Analyzes a single session for rate limit indicators. */
-const analyzeSession = (records: ClaudeUsageRecord[], startTime: Date): SessionAnalysis => {
+/** Analyzes a single session window for rate limit indicators. */
+const analyzeSession = (window: RecordWindow, weights: TokenWeights): SessionAnalysis => {
+    const { records, startTime, endTime } = window;
     const lastRecord = records[records.length - 1];
     const lastActivityTime = new Date(lastRecord.timestamp);
-    const totalTokens = records.reduce((sum, r) => sum + r.input_tokens + r.output_tokens, 0);
+    const totalTokens = sumWeightedTokens(records, weights);
     const duration = lastActivityTime.getTime() - startTime.getTime();
 
     return {
         startTime,
-        endTime: new Date(startTime.getTime() + 5 * 60 * 60 * 1000),
+        endTime,
         records,
         totalTokens,
         duration,
@@ -110,7 +154,7 @@ const analyzeSession = (records: ClaudeUsageRecord[], startTime: Date): SessionA
 };
 
 /** Finds sessions that likely hit rate limits. */
-const findLimitCandidates = (sessions: SessionAnalysis[]): number[] => {
+const findLimitCandidates = (sessions: SessionAnalysis[], scale: number): number[] => {
     const limitCandidates: number[] = [];
 
     for (let i = 0; i < sessions.length - 1; i++) {
@@ -128,9 +172,9 @@ const findLimitCandidates = (sessions: SessionAnalysis[]): number[] => {
     }
 
     for (const session of sessions) {
-        const hasHighUsage = session.totalTokens >= 10000;
+        const hasHighUsage = session.totalTokens >= 10000 * scale;
         const hasSignificantDuration = session.duration >= 3 * 60 * 60 * 1000;
-        const isReasonableLimit = session.totalTokens >= 15000 && session.totalTokens <= 200000;
+        const isReasonableLimit = session.totalTokens >= 15000 * scale && session.totalTokens <= 200000 * scale;
         
         session.isLikelyLimitHit = hasHighUsage && 
             (session.hasLongGapAfter || hasSignificantDuration) && 
@@ -145,13 +189,13 @@ const findLimitCandidates = (sessions: SessionAnalysis[]): number[] => {
 };
 
 /** Analyzes limit candidates to determine most likely actual limit. */
-const analyzeLimitCandidates = (candidates: number[]): RateLimitDetection => {
+const analyzeLimitCandidates = (candidates: number[], scale: number = 1): RateLimitDetection => {
     if (candidates.length === 0) {
         return createEmptyDetection();
     }
 
     const sortedCandidates = [...candidates].sort((a, b) => a - b);
-    const clusters = findClusters(sortedCandidates);
+    const clusters = findClusters(sortedCandidates, 5000 * scale);
     const largestCluster = clusters.reduce((max, cluster) => 
         cluster.values.length > max.values.length ? cluster : max
     );
@@ -180,11 +224,10 @@ interface Cluster {
 }
 
 /** Simple clustering to group similar limit values. */
-const findClusters = (values: number[]): Cluster[] => {
+const findClusters = (values: number[], tolerance: number = 5000): Cluster[] => {
     if (values.length === 0) return [];
     
     const clusters: Cluster[] = [];
-    const tolerance = 5000;
 
     for (const value of values) {
         let belongsToCluster = false;
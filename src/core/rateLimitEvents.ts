@@ -0,0 +1,158 @@
+/**
+ * Rate Limit Events - Core Module (Independent)
+ *
+ * Recognizes the "usage limit reached" messages Claude Code writes into session
+ * transcripts. They appear as assistant lines from the `<synthetic>` model (or
+ * flagged `isApiErrorMessage`) and carry no token usage of their own.
+ *
+ * **Known message formats:**
+ * - `Claude AI usage limit reached|1751302800` (reset as Unix seconds)
+ * - `5-hour limit reached ∙ resets 2pm`
+ * - `Weekly limit reached ∙ resets Oct 20, 9am (Europe/Berlin)`
+ * - `Claude usage limit reached. Your limit will reset at 5:30pm (America/New_York).`
+ *
+ * @module RateLimitEvents
+ */
+
+import { RateLimitEvent } from '../types';
+
+/** Model name Claude Code uses for messages it generates itself. */
+export const SYNTHETIC_MODEL = '<synthetic>';
+
+const LIMIT_MESSAGE_PATTERN = /limit reached|hit your limit|usage limit/i;
+const EPOCH_RESET_PATTERN = /\|(\d{9,})\s*$/;
+const CLOCK_RESET_PATTERN =
+    /resets?\s+(?:at\s+)?(?:([a-z]{3,9})\.?\s+(\d{1,2}),?\s+(?:at\s+)?)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?(?:\s*\(([^)]+)\))?/i;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Limit details extracted from a message. */
+export interface ParsedLimitMessage {
+    limitType: RateLimitEvent['limitType'];
+    resetTime?: string;
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant.
+ * Falls back to the local zone when the name is unknown.
+ */
+const getZoneOffsetMs = (timeZone: string | undefined, at: Date): number => {
+    if (timeZone) {
+        try {
+            const parts = new Intl.DateTimeFormat('en-US', {
+                timeZone,
+                hourCycle: 'h23',
+                year: 'numeric', month: 'numeric', day: 'numeric',
+                hour: 'numeric', minute: 'numeric', second: 'numeric'
+            }).formatToParts(at);
+            const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+            const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+            return wallClock - Math.floor(at.getTime() / 1000) * 1000;
+        } catch {
+            // Unknown zone name: use the local zone
+        }
+    }
+    return -at.getTimezoneOffset() * 60 * 1000;
+};
+
+/**
+ * Resolves a wall-clock reset ("2pm", "Oct 20, 9am") to the next matching instant after the message.
+ */
+const resolveClockReset = (match: RegExpMatchArray, messageTime: Date): string | undefined => {
+    const [, monthName, day, hourText, minuteText, meridiem, timeZone] = match;
+    let hour = Number(hourText);
+    const minute = Number(minuteText ?? 0);
+
+    if (meridiem) {
+        hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+    }
+    if (hour > 23 || minute > 59) {
+        return undefined;
+    }
+
+    const offset = getZoneOffsetMs(timeZone, messageTime);
+    const wall = new Date(messageTime.getTime() + offset);
+    const monthIndex = monthName ? MONTHS.indexOf(monthName.slice(0, 3).toLowerCase()) : wall.getUTCMonth();
+    if (monthIndex < 0) {
+        return undefined;
+    }
+
+    const dayOfMonth = day ? Number(day) : wall.getUTCDate();
+    let reset = Date.UTC(wall.getUTCFullYear(), monthIndex, dayOfMonth, hour, minute) - offset;
+
+    if (reset <= messageTime.getTime()) {
+        reset = monthName
+            ? Date.UTC(wall.getUTCFullYear() + 1, monthIndex, dayOfMonth, hour, minute) - offset
+            : reset + DAY_MS;
+    }
+
+    return new Date(reset).toISOString();
+};
+
+/**
+ * Classifies a limit message and extracts its reset time.
+ *
+ * @param text - Message text
+ * @param timestamp - Time the message was written
+ * @returns Limit details, or null if the text is not a limit message
+ *
+ * @example
+ * ```typescript
+ * parseLimitMessage('Claude AI usage limit reached|1751302800', '2025-06-30T14:12:00Z');
+ * // { limitType: 'session', resetTime: '2025-06-30T17:00:00.000Z' }
+ * ```
+ */
+export const parseLimitMessage = (text: string, timestamp: string): ParsedLimitMessage | null => {
+    if (!LIMIT_MESSAGE_PATTERN.test(text)) {
+        return null;
+    }
+
+    let limitType: RateLimitEvent['limitType'] = 'unknown';
+    if (/opus/i.test(text)) {
+        limitType = 'opus_weekly';
+    } else if (/week/i.test(text)) {
+        limitType = 'weekly';
+    } else if (/5-hour|session|usage limit/i.test(text)) {
+        limitType = 'session';
+    }
+
+    const epochMatch = text.match(EPOCH_RESET_PATTERN);
+    if (epochMatch) {
+        return { limitType, resetTime: new Date(Number(epochMatch[1]) * 1000).toISOString() };
+    }
+
+    const messageTime = new Date(timestamp);
+    const clockMatch = text.match(CLOCK_RESET_PATTERN);
+    const resetTime = clockMatch && !isNaN(messageTime.getTime())
+        ? resolveClockReset(clockMatch, messageTime)
+        : undefined;
+
+    return { limitType, resetTime };
+};
+
+/**
+ * Checks whether a parsed JSON value is an object whose fields can be read.
+ * @param value - Parsed JSON value
+ * @returns True for objects and arrays
+ */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+/**
+ * Extracts the plain text of a transcript message.
+ *
+ * @param content - `message.content` of a transcript line (string or content blocks)
+ * @returns Concatenated text
+ */
+export const getMessageText = (content: unknown): string => {
+    if (typeof content === 'string') {
+        return content;
+    }
+    if (Array.isArray(content)) {
+        return content
+            .filter(block => block && block.type === 'text' && typeof block.text === 'string')
+            .map(block => block.text)
+            .join('\n');
+    }
+    return '';
+};
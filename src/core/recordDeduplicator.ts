@@ -0,0 +1,128 @@
+/**
+ * Record Deduplicator - Core Module (Independent)
+ *
+ * Removes assistant messages that Claude Code copied into several session files
+ * when a conversation was resumed or forked, and the extra lines of streamed
+ * responses, which Claude Code writes once per content block. Limit-reached
+ * messages are copied the same way and are de-duplicated by timestamp and text.
+ *
+ * **Identity:** a record is identified by its `message.id` plus `requestId`.
+ * Records lacking a message id are never treated as duplicates.
+ *
+ * **Winner Rule (deterministic):**
+ * 1. Within a session file the copy with the most complete usage (highest
+ *    `output_tokens`) wins; streamed lines carry partial counts
+ * 2. Between session files the earliest timestamp wins
+ * 3. On equal timestamps, the lexicographically smallest session ID wins
+ *
+ * @module RecordDeduplicator
+ */
+
+import { ClaudeUsageRecord, RateLimitEvent } from '../types';
+
+/** Result of removing duplicated records. */
+export interface DeduplicationResult {
+    records: ClaudeUsageRecord[];
+    duplicateCount: number;
+}
+
+/**
+ * Builds the identity key for a record.
+ * @param record Usage record
+ * @returns Key or undefined if the record cannot be matched against others
+ */
+const getRecordKey = (record: ClaudeUsageRecord): string | undefined => {
+    if (!record.messageId) {
+        return undefined;
+    }
+    return `${record.messageId}:${record.requestId ?? ''}`;
+};
+
+/**
+ * Decides whether a candidate copy should replace the current winner.
+ * Also picks among the streamed lines of one message in a transcript, so
+ * per-turn usage matches the de-duplicated totals.
+ * @param candidate Copy being considered
+ * @param current Current winner
+ * @returns True if the candidate wins by the winner rule
+ */
+export const isPreferredCopy = (candidate: ClaudeUsageRecord, current: ClaudeUsageRecord): boolean => {
+    if (candidate.sessionId === current.sessionId && candidate.output_tokens !== current.output_tokens) {
+        return candidate.output_tokens > current.output_tokens;
+    }
+    const candidateTime = new Date(candidate.timestamp).getTime();
+    const currentTime = new Date(current.timestamp).getTime();
+    if (candidateTime !== currentTime) {
+        return candidateTime < currentTime;
+    }
+    return (candidate.sessionId ?? '') < (current.sessionId ?? '');
+};
+
+/**
+ * Removes duplicated assistant messages across all projects and session files.
+ *
+ * @param records Records from all parsed files
+ * @returns Unique records and the number of copies dropped
+ *
+ * @example
+ * ```typescript
+ * const { records, duplicateCount } = deduplicateRecords(allRecords);
+ * console.log(`Dropped ${duplicateCount} copied messages`);
+ * ```
+ */
+export const deduplicateRecords = (records: ClaudeUsageRecord[]): DeduplicationResult => {
+    const sessionWinners = new Map<string, ClaudeUsageRecord>();
+    const unkeyed: ClaudeUsageRecord[] = [];
+
+    // Complete streamed lines within each file first, so the order of files cannot change the winner
+    for (const record of records) {
+        const key = getRecordKey(record);
+        if (!key) {
+            unkeyed.push(record);
+            continue;
+        }
+
+        const sessionKey = `${key}:${record.sessionId ?? ''}`;
+        const current = sessionWinners.get(sessionKey);
+        if (!current || isPreferredCopy(record, current)) {
+            sessionWinners.set(sessionKey, record);
+        }
+    }
+
+    const winners = new Map<string, ClaudeUsageRecord>();
+    for (const record of sessionWinners.values()) {
+        const key = getRecordKey(record)!;
+        const current = winners.get(key);
+        if (!current || isPreferredCopy(record, current)) {
+            winners.set(key, record);
+        }
+    }
+
+    const uniqueRecords = [...unkeyed, ...winners.values()];
+
+    return {
+        records: uniqueRecords,
+        duplicateCount: records.length - uniqueRecords.length
+    };
+};
+
+/**
+ * Removes limit-reached messages copied across resumed or forked sessions.
+ * Of several copies, the one from the lexicographically smallest session ID is kept.
+ *
+ * @param events Limit events from all parsed files
+ * @returns Unique limit events
+ */
+export const deduplicateLimitEvents = (events: RateLimitEvent[]): RateLimitEvent[] => {
+    const winners = new Map<string, RateLimitEvent>();
+
+    for (const event of events) {
+        const key = `${event.timestamp}:${event.message}`;
+        const current = winners.get(key);
+        if (!current || (event.sessionId ?? '') < (current.sessionId ?? '')) {
+            winners.set(key, event);
+        }
+    }
+
+    return [...winners.values()];
+};
@@ -0,0 +1,351 @@
+/**
+ * Session Transcript - Core Module (Independent)
+ *
+ * Reads a single `{sessionId}.jsonl` transcript with its message content and
+ * the `uuid`/`parentUuid` chain, and turns it into assistant turns with token
+ * usage, the user prompt that started the exchange and the tool calls whose
+ * results were sent with the request.
+ *
+ * Only short previews of prompts, responses and tool inputs are kept, so large
+ * transcripts stay cheap to hold in memory.
+ *
+ * @module SessionTranscript
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClaudeUsageRecord } from '../types';
+import { readJsonlLines } from './jsonlStreamReader';
+import { isPreferredCopy } from './recordDeduplicator';
+import { SYNTHETIC_MODEL, getMessageText, isObject } from './rateLimitEvents';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, getWeightedTokens } from './tokenAccounting';
+import { PricingEntry, PRICING_HISTORY, calculateRecordCost } from './modelPricing';
+
+/** Characters kept of prompts and responses. */
+const TEXT_PREVIEW_LENGTH = 300;
+
+/** Bytes read between yields to the event loop, so large transcripts do not block the caller. */
+const READ_YIELD_BYTES = 1024 * 1024;
+
+/** Characters kept of tool inputs. */
+const TOOL_INPUT_PREVIEW_LENGTH = 120;
+
+/** Input fields that best describe a tool call, in order of preference. */
+const TOOL_INPUT_SUMMARY_FIELDS = ['command', 'file_path', 'path', 'pattern', 'url', 'query', 'description', 'prompt'];
+
+/** A tool call requested by an assistant message. */
+export interface TranscriptToolUse {
+    id: string;
+    name: string;
+    /** Short summary of the input, e.g. the command or file path */
+    inputPreview: string;
+}
+
+/** A tool result sent back in a user message. */
+export interface TranscriptToolResult {
+    toolUseId: string;
+    /** Size of the result content in characters */
+    resultChars: number;
+    isError: boolean;
+}
+
+/** A transcript line reduced to what the turn analysis needs. */
+export interface TranscriptMessage {
+    uuid: string;
+    parentUuid?: string;
+    type: 'user' | 'assistant' | 'other';
+    timestamp: string;
+    /** Whether the line belongs to a sub-agent (Task tool) conversation */
+    isSidechain: boolean;
+    /** Whether Claude Code generated the line itself (e.g. command caveats) */
+    isMeta: boolean;
+    /** Text content, truncated */
+    textPreview: string;
+    toolUses: TranscriptToolUse[];
+    toolResults: TranscriptToolResult[];
+    /** Assistant messages only */
+    model?: string;
+    messageId?: string;
+    requestId?: string;
+    usage?: Pick<ClaudeUsageRecord, 'input_tokens' | 'output_tokens' | 'cache_creation_tokens' | 'cache_read_tokens'>;
+}
+
+/** A tool call whose result was sent with a turn's request. */
+export interface PrecedingToolCall extends TranscriptToolUse {
+    /** Size of the result in characters (0 when the result is missing) */
+    resultChars: number;
+    isError: boolean;
+}
+
+/** One assistant API request with its usage and context. */
+export interface TranscriptTurn {
+    /** Position in the transcript, starting at 1 */
+    index: number;
+    /** uuid of the turn's first line */
+    uuid: string;
+    timestamp: string;
+    model: string;
+    messageId?: string;
+    requestId?: string;
+    isSidechain: boolean;
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    /** Tokens per the token accounting model */
+    totalTokens: number;
+    estimatedCost: number;
+    /** The user prompt the turn answers, if found in the chain */
+    promptPreview?: string;
+    /** Tool results sent with this request, in order */
+    precedingToolCalls: PrecedingToolCall[];
+    /** Text of the response, truncated */
+    responsePreview: string;
+    /** Tool calls the response requested */
+    requestedTools: TranscriptToolUse[];
+}
+
+/** Reports the bytes of a transcript read so far and its size. */
+export type TranscriptReadProgress = (bytesRead: number, totalBytes: number) => void;
+
+/** A parsed session transcript. */
+export interface SessionTranscript {
+    filePath: string;
+    sessionId: string;
+    turns: TranscriptTurn[];
+    /** Lines skipped because they exceeded the line size limit */
+    oversizedLines: number;
+}
+
+const truncate = (text: string, length: number): string => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+};
+
+/** Summarizes a tool input by its most descriptive field. */
+const summarizeToolInput = (input: unknown): string => {
+    if (!input || typeof input !== 'object') {
+        return '';
+    }
+    const fields = input as Record<string, unknown>;
+    const field = TOOL_INPUT_SUMMARY_FIELDS.find(name => typeof fields[name] === 'string' && fields[name]);
+    return truncate(field ? String(fields[field]) : JSON.stringify(input), TOOL_INPUT_PREVIEW_LENGTH);
+};
+
+/** Measures tool result content (string or content blocks) in characters. */
+const measureToolResult = (content: unknown): number => {
+    if (typeof content === 'string') {
+        return content.length;
+    }
+    if (Array.isArray(content)) {
+        return content.reduce((sum: number, block) =>
+            sum + (block && block.type === 'text' && typeof block.text === 'string' ? block.text.length : JSON.stringify(block ?? '').length), 0);
+    }
+    return content === undefined || content === null ? 0 : JSON.stringify(content).length;
+};
+
+/**
+ * Parses a transcript line.
+ * @param line - JSONL line
+ * @returns The message, or null for lines without a uuid or invalid JSON
+ */
+export const parseTranscriptLine = (line: string): TranscriptMessage | null => {
+    let data: unknown;
+    try {
+        data = JSON.parse(line);
+    } catch {
+        return null;
+    }
+    if (!isObject(data) || typeof data.uuid !== 'string') {
+        return null;
+    }
+
+    const message = isObject(data.message) ? data.message : {};
+    const content = message.content;
+    const blocks = Array.isArray(content) ? content.filter(isObject) : [];
+    const type = data.type === 'user' || data.type === 'assistant' ? data.type : 'other';
+    const usage = isObject(message.usage) ? message.usage : undefined;
+    const model = typeof message.model === 'string' ? message.model : undefined;
+    const count = (value: unknown) => (typeof value === 'number' ? value : 0);
+
+    return {
+        uuid: data.uuid,
+        parentUuid: typeof data.parentUuid === 'string' ? data.parentUuid : undefined,
+        type,
+        timestamp: typeof data.timestamp === 'string' ? data.timestamp : '',
+        isSidechain: data.isSidechain === true,
+        isMeta: data.isMeta === true,
+        textPreview: truncate(getMessageText(content), TEXT_PREVIEW_LENGTH),
+        toolUses: blocks
+            .filter(block => block.type === 'tool_use' && typeof block.id === 'string')
+            .map(block => ({ id: block.id as string, name: String(block.name ?? 'unknown'), inputPreview: summarizeToolInput(block.input) })),
+        toolResults: blocks
+            .filter(block => block.type === 'tool_result' && typeof block.tool_use_id === 'string')
+            .map(block => ({ toolUseId: block.tool_use_id as string, resultChars: measureToolResult(block.content), isError: block.is_error === true })),
+        model: type === 'assistant' ? model ?? 'unknown' : undefined,
+        messageId: typeof message.id === 'string' ? message.id : undefined,
+        requestId: typeof data.requestId === 'string' ? data.requestId : undefined,
+        usage: type === 'assistant' && usage && model !== SYNTHETIC_MODEL && !data.isApiErrorMessage
+            ? {
+                input_tokens: count(usage.input_tokens),
+                output_tokens: count(usage.output_tokens),
+                cache_creation_tokens: count(usage.cache_creation_input_tokens),
+                cache_read_tokens: count(usage.cache_read_input_tokens)
+            }
+            : undefined
+    };
+};
+
+/**
+ * Reads every message of a transcript file, yielding to the event loop after
+ * each megabyte.
+ * @param filePath - Absolute path of the `{sessionId}.jsonl` file
+ * @param onProgress - Called at each yield with the bytes read so far
+ * @returns Messages in file order and the number of oversized lines skipped
+ */
+export const readTranscriptMessages = async (
+    filePath: string,
+    onProgress?: TranscriptReadProgress
+): Promise<{ messages: TranscriptMessage[]; oversizedLines: number }> => {
+    const cursor = { offset: 0, oversizedLines: 0 };
+    const messages: TranscriptMessage[] = [];
+    const totalBytes = (await fs.promises.stat(filePath)).size;
+    let yieldedAt = 0;
+    for (const line of readJsonlLines(filePath, cursor, totalBytes)) {
+        const message = parseTranscriptLine(line.toString('utf-8'));
+        if (message) {
+            messages.push(message);
+        }
+        if (cursor.offset - yieldedAt >= READ_YIELD_BYTES) {
+            yieldedAt = cursor.offset;
+            onProgress?.(cursor.offset, totalBytes);
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    }
+    return { messages, oversizedLines: cursor.oversizedLines };
+};
+
+/**
+ * Groups assistant lines into turns and links each turn to its context.
+ *
+ * Claude Code writes one line per content block of a response, all carrying
+ * the same message id and usage; they form one turn. Walking up the
+ * `parentUuid` chain from a turn, the tool results before the previous
+ * assistant message are its preceding tool calls, and the first user line
+ * with text that is neither a tool result nor generated by Claude Code is its prompt.
+ *
+ * @param messages - Transcript messages in file order
+ * @param weights - Token accounting weights
+ * @param pricingTable - Model prices for cost estimates
+ * @returns Turns in transcript order
+ */
+export const buildTranscriptTurns = (
+    messages: TranscriptMessage[],
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+    pricingTable: PricingEntry[] = PRICING_HISTORY
+): TranscriptTurn[] => {
+    const byUuid = new Map(messages.map(message => [message.uuid, message]));
+    const toolUses = new Map<string, TranscriptToolUse>();
+    messages.forEach(message => message.toolUses.forEach(toolUse => toolUses.set(toolUse.id, toolUse)));
+
+    const groups = new Map<string, TranscriptMessage[]>();
+    messages
+        .filter(message => message.type === 'assistant' && message.usage)
+        .forEach(message => {
+            const key = message.messageId ? `${message.messageId}:${message.requestId ?? ''}` : message.uuid;
+            const group = groups.get(key);
+            if (group) {
+                group.push(message);
+            } else {
+                groups.set(key, [message]);
+            }
+        });
+
+    return Array.from(groups.values()).map((lines, position) => {
+        const first = lines[0];
+        // Streamed copies carry different partial usage; keep the copy the usage totals keep
+        const record = lines
+            .map((line): ClaudeUsageRecord => ({ timestamp: line.timestamp, model: line.model ?? 'unknown', ...line.usage! }))
+            .reduce((winner, candidate) => (isPreferredCopy(candidate, winner) ? candidate : winner));
+
+        const precedingToolCalls: PrecedingToolCall[] = [];
+        let promptPreview: string | undefined;
+        let collectingResults = true;
+        const visited = new Set<string>();
+        let current = first.parentUuid ? byUuid.get(first.parentUuid) : undefined;
+        while (current && !visited.has(current.uuid)) {
+            visited.add(current.uuid);
+            if (current.type === 'assistant') {
+                collectingResults = false;
+            } else if (current.type === 'user') {
+                if (collectingResults) {
+                    current.toolResults.slice().reverse().forEach(result => {
+                        const toolUse = toolUses.get(result.toolUseId);
+                        precedingToolCalls.unshift({
+                            id: result.toolUseId,
+                            name: toolUse?.name ?? 'unknown',
+                            inputPreview: toolUse?.inputPreview ?? '',
+                            resultChars: result.resultChars,
+                            isError: result.isError
+                        });
+                    });
+                }
+                if (current.toolResults.length === 0 && !current.isMeta && current.textPreview) {
+                    promptPreview = current.textPreview;
+                    break;
+                }
+            }
+            current = current.parentUuid ? byUuid.get(current.parentUuid) : undefined;
+        }
+
+        return {
+            index: position + 1,
+            uuid: first.uuid,
+            timestamp: first.timestamp,
+            model: record.model,
+            messageId: first.messageId,
+            requestId: first.requestId,
+            isSidechain: first.isSidechain,
+            inputTokens: record.input_tokens,
+            outputTokens: record.output_tokens,
+            cacheCreationTokens: record.cache_creation_tokens,
+            cacheReadTokens: record.cache_read_tokens,
+            totalTokens: Math.round(getWeightedTokens(record, weights)),
+            estimatedCost: calculateRecordCost(record, pricingTable),
+            promptPreview,
+            precedingToolCalls,
+            responsePreview: truncate(lines.map(line => line.textPreview).filter(Boolean).join(' '), TEXT_PREVIEW_LENGTH),
+            requestedTools: lines.flatMap(line => line.toolUses)
+        };
+    });
+};
+
+/**
+ * Reads a session transcript and builds its turns.
+ *
+ * @param filePath - Absolute path of the `{sessionId}.jsonl` file
+ * @param weights - Token accounting weights
+ * @param pricingTable - Model prices for cost estimates
+ * @param onProgress - Called with the bytes read so far while the file is read
+ * @returns Parsed transcript
+ *
+ * @example
+ * ```typescript
+ * const transcript = await readSessionTranscript('/home/me/.claude/projects/-home-me-app/1a2b.jsonl');
+ * const expensive = [...transcript.turns].sort((a, b) => b.estimatedCost - a.estimatedCost)[0];
+ * ```
+ */
+export const readSessionTranscript = async (
+    filePath: string,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+    pricingTable: PricingEntry[] = PRICING_HISTORY,
+    onProgress?: TranscriptReadProgress
+): Promise<SessionTranscript> => {
+    const { messages, oversizedLines } = await readTranscriptMessages(filePath, onProgress);
+    return {
+        filePath,
+        sessionId: path.basename(filePath, '.jsonl'),
+        turns: buildTranscriptTurns(messages, weights, pricingTable),
+        oversizedLines
+    };
+};
@@ -0,0 +1,147 @@
+/**
+ * Session Windowing - Core Module (Independent)
+ *
+ * The single implementation of Claude's session windowing, shared by the
+ * block calculator, the rate limit detector and the usage baseline so that
+ * a block means the same thing everywhere in the extension.
+ *
+ * **Rules:**
+ * - A window starts at the first record, floored to the UTC hour when `alignToHour` is set
+ * - A record more than `windowMs` after the window start opens a new window
+ * - A record more than `idleGapMs` after the previous record opens a new window
+ *   (set `idleGapMs` to null to disable the idle-gap rule)
+ *
+ * @module SessionWindowing
+ */
+
+import { ClaudeUsageRecord, SessionGap } from '../types';
+import { WINDOW_DURATION_MS, floorToHour } from '../utils/timeUtils';
+
+/** Window length and gap rule. */
+export interface WindowingOptions {
+    /** Length of each window in milliseconds */
+    windowMs: number;
+    /** Idle time between records that closes a window early, or null to disable */
+    idleGapMs: number | null;
+    /** Whether window starts are floored to the UTC hour */
+    alignToHour: boolean;
+}
+
+/** Claude Code's 5-hour rolling window with a 5-hour idle gap. */
+export const DEFAULT_WINDOWING_OPTIONS: WindowingOptions = {
+    windowMs: WINDOW_DURATION_MS,
+    idleGapMs: WINDOW_DURATION_MS,
+    alignToHour: true
+};
+
+/** A group of records sharing one window. */
+export interface RecordWindow {
+    /** Window identifier (ISO start time) */
+    id: string;
+    startTime: Date;
+    endTime: Date;
+    /** Records in chronological order */
+    records: ClaudeUsageRecord[];
+}
+
+/**
+ * Groups records into consecutive windows.
+ *
+ * @param records - Usage records in any order
+ * @param options - Window length and gap rule
+ * @returns Windows in chronological order
+ *
+ * @example
+ * ```typescript
+ * const windows = groupRecordsIntoWindows(records);
+ * console.log(`${windows.length} blocks, latest started ${windows[windows.length - 1].id}`);
+ * ```
+ */
+export const groupRecordsIntoWindows = (
+    records: ClaudeUsageRecord[],
+    options: WindowingOptions = DEFAULT_WINDOWING_OPTIONS
+): RecordWindow[] => {
+    const sortedRecords = [...records].sort((a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    const windows: RecordWindow[] = [];
+    let current: RecordWindow | undefined;
+    let lastRecordTime = 0;
+
+    for (const record of sortedRecords) {
+        const recordTime = new Date(record.timestamp).getTime();
+
+        const exceedsWindow = current !== undefined && recordTime - current.startTime.getTime() > options.windowMs;
+        const exceedsGap = current !== undefined && options.idleGapMs !== null &&
+            recordTime - lastRecordTime > options.idleGapMs;
+
+        if (!current || exceedsWindow || exceedsGap) {
+            current = createWindow(new Date(recordTime), options);
+            windows.push(current);
+        }
+
+        current.records.push(record);
+        lastRecordTime = recordTime;
+    }
+
+    return windows;
+};
+
+/**
+ * Checks whether a window is still open at the given time.
+ * A window is active while its end has not passed and the idle gap since its last record has not elapsed.
+ *
+ * @param window - Window to check
+ * @param currentTime - Reference time
+ * @param options - Window length and gap rule
+ * @returns True if new records at `currentTime` would still fall into this window
+ */
+export const isWindowActive = (
+    window: RecordWindow,
+    currentTime: Date,
+    options: WindowingOptions = DEFAULT_WINDOWING_OPTIONS
+): boolean => {
+    const lastRecord = window.records[window.records.length - 1];
+    const lastActivity = lastRecord ? new Date(lastRecord.timestamp).getTime() : window.startTime.getTime();
+    const idleLimit = options.idleGapMs ?? options.windowMs;
+
+    return currentTime.getTime() - lastActivity < idleLimit &&
+        currentTime.getTime() <= window.endTime.getTime();
+};
+
+/**
+ * Lists idle periods between consecutive windows.
+ * A gap spans from the end of one window to the start of the next.
+ *
+ * @param windows - Chronologically ordered windows
+ * @returns Gaps between windows that do not touch
+ */
+export const findWindowGaps = (windows: Array<{ startTime: Date; endTime: Date }>): SessionGap[] => {
+    const gaps: SessionGap[] = [];
+
+    for (let i = 1; i < windows.length; i++) {
+        const previousEnd = windows[i - 1].endTime;
+        const nextStart = windows[i].startTime;
+        const duration = nextStart.getTime() - previousEnd.getTime();
+
+        if (duration > 0) {
+            gaps.push({ startTime: previousEnd, endTime: nextStart, duration });
+        }
+    }
+
+    return gaps;
+};
+
+/**
+ * Creates an empty window starting at (or at the hour of) the given time.
+ */
+const createWindow = (firstRecordTime: Date, options: WindowingOptions): RecordWindow => {
+    const startTime = options.alignToHour ? floorToHour(firstRecordTime) : firstRecordTime;
+    return {
+        id: startTime.toISOString(),
+        startTime,
+        endTime: new Date(startTime.getTime() + options.windowMs),
+        records: []
+    };
+};
@@ -0,0 +1,103 @@
+/**
+ * Sidechain Links - Core Module (Independent)
+ *
+ * Links sub-agent (sidechain) transcript lines to the Task tool call that
+ * started them. Claude Code writes sub-agent conversations into the parent's
+ * session file with `isSidechain: true` but without a reference to the call,
+ * so the link is reconstructed while the file is read:
+ *
+ * 1. Task calls of the main conversation are remembered with their prompt
+ * 2. A sidechain's first line (no `parentUuid`) is matched to the call with the
+ *    same prompt, or to the latest call when no prompt matches
+ * 3. Every further sidechain line inherits the call of its parent line, or of
+ *    the latest linked line when the parent was never parsed (large lines are
+ *    skipped by the prefilter)
+ *
+ * State is kept in the file's {@link LineParserState}, so links survive
+ * incremental reads. Only the most recent prompts and line links are kept, as
+ * sidechain lines refer to lines shortly before them.
+ *
+ * @module SidechainLinks
+ */
+
+import { LineParserState } from './jsonlStreamReader';
+import { getMessageText, isObject } from './rateLimitEvents';
+
+/** Tools that run a sub-agent. */
+export const SUB_AGENT_TOOL_NAMES: readonly string[] = ['Task'];
+
+/** Characters of a prompt used to match a sidechain to its Task call. */
+const PROMPT_KEY_LENGTH = 200;
+
+/** Prompt and line links kept per file; the oldest are dropped beyond this. */
+const MAX_REMEMBERED_LINKS = 1000;
+
+const LATEST_TASK_KEY = 'latestTask';
+const LATEST_SIDECHAIN_KEY = 'latestSidechainTask';
+const LATEST_KEYS: readonly string[] = [LATEST_TASK_KEY, LATEST_SIDECHAIN_KEY];
+
+const promptKey = (prompt: string): string => `prompt:${prompt.trim().slice(0, PROMPT_KEY_LENGTH)}`;
+const lineKey = (uuid: string): string => `line:${uuid}`;
+
+/** Stores a prompt or line link, dropping the oldest link when the file holds too many. */
+const rememberLink = (fileState: LineParserState, key: string, toolUseId: string): void => {
+    // Re-inserting moves the key behind all others, so insertion order is age order
+    fileState.delete(key);
+    fileState.set(key, toolUseId);
+    if (fileState.size <= MAX_REMEMBERED_LINKS + LATEST_KEYS.length) {
+        return;
+    }
+    for (const oldest of fileState.keys()) {
+        if (!LATEST_KEYS.includes(oldest)) {
+            fileState.delete(oldest);
+            return;
+        }
+    }
+};
+
+/**
+ * Remembers the Task calls of a main conversation assistant line.
+ * @param data - Parsed transcript line
+ * @param fileState - Parser state of the file
+ */
+export const trackSubAgentCalls = (data: unknown, fileState: LineParserState): void => {
+    const content = isObject(data) && isObject(data.message) ? data.message.content : undefined;
+    if (!isObject(data) || data.isSidechain === true || !Array.isArray(content)) {
+        return;
+    }
+    content
+        .filter(isObject)
+        .filter(block => block.type === 'tool_use' && typeof block.id === 'string' &&
+            typeof block.name === 'string' && SUB_AGENT_TOOL_NAMES.includes(block.name))
+        .forEach(block => {
+            const toolUseId = block.id as string;
+            if (isObject(block.input) && typeof block.input.prompt === 'string') {
+                rememberLink(fileState, promptKey(block.input.prompt), toolUseId);
+            }
+            fileState.set(LATEST_TASK_KEY, toolUseId);
+        });
+};
+
+/**
+ * Resolves the Task call a sidechain line belongs to and records the link for its children.
+ * @param data - Parsed transcript line with `isSidechain: true`
+ * @param fileState - Parser state of the file
+ * @returns Task tool use id, or undefined when no Task call was seen in the file
+ */
+export const linkSidechainLine = (data: unknown, fileState: LineParserState): string | undefined => {
+    if (!isObject(data)) {
+        return undefined;
+    }
+    const content = isObject(data.message) ? data.message.content : undefined;
+    const toolUseId = typeof data.parentUuid === 'string'
+        ? fileState.get(lineKey(data.parentUuid)) ?? fileState.get(LATEST_SIDECHAIN_KEY)
+        : fileState.get(promptKey(getMessageText(content))) ?? fileState.get(LATEST_TASK_KEY);
+
+    if (toolUseId) {
+        if (typeof data.uuid === 'string') {
+            rememberLink(fileState, lineKey(data.uuid), toolUseId);
+        }
+        fileState.set(LATEST_SIDECHAIN_KEY, toolUseId);
+    }
+    return toolUseId;
+};
@@ -0,0 +1,99 @@
+/**
+ * Status Bar Configuration - Core Module (Independent)
+ *
+ * Settings shapes and built-in presets of the main status bar item and the
+ * additional entries, shared by the settings manager that reads them and the
+ * UI that renders them.
+ *
+ * @module StatusBarConfig
+ */
+
+import { PlaceholderCondition } from './statusBarTemplate';
+
+/** Status bar colours as theme colour ids (e.g. `charts.red`) or CSS colours (e.g. `#ff4444`). */
+export interface StatusBarColors {
+    /** Below 70% of the limit */
+    normal: string;
+    /** From 70% of the limit, a nearly spent budget, and for data issues */
+    warning: string;
+    /** At or above the limit, an exceeded budget, and for read errors */
+    critical: string;
+    /** No active block */
+    inactive: string;
+}
+
+/** Default colours, taken from the theme so they follow light and dark themes. */
+export const DEFAULT_STATUS_BAR_COLORS: StatusBarColors = {
+    normal: 'charts.green',
+    warning: 'charts.orange',
+    critical: 'charts.red',
+    inactive: 'disabledForeground'
+};
+
+/** Appearance of the status bar item. */
+export interface StatusBarSettings {
+    /** Format with placeholders; empty for the built-in layout */
+    format: string;
+    alignment: 'left' | 'right';
+    /** Higher values are placed more to the left */
+    priority: number;
+    colors: StatusBarColors;
+}
+
+/** Built-in entries that only need to be named in the settings. */
+export type StatusBarMetric = 'percent' | 'countdown' | 'burnRate' | 'cost' | 'models' | 'subagents' | 'budget';
+
+/** Resolved configuration of one additional entry. */
+export interface StatusBarItemDefinition {
+    /** Unique per entry; identifies the item across configuration changes */
+    id: string;
+    /** Format with placeholders (see {@link StatusBarTemplate}) */
+    format: string;
+    /** Command run on click */
+    command: string;
+    tooltip: string;
+    /** Entry is hidden unless the condition holds */
+    showWhen?: PlaceholderCondition;
+    alignment: 'left' | 'right';
+    /** Higher values are placed more to the left */
+    priority: number;
+}
+
+/** Format, command and tooltip of the built-in entries. */
+export const STATUS_BAR_METRIC_PRESETS: Record<StatusBarMetric, Pick<StatusBarItemDefinition, 'format' | 'command' | 'tooltip'>> = {
+    percent: {
+        format: '$(pulse) {percent}%',
+        command: 'claude-code-usage.showDetails',
+        tooltip: 'Claude Code: share of the estimated limit used in the current block'
+    },
+    countdown: {
+        format: '$(clock) {countdown}',
+        command: 'claude-code-usage.showDetails',
+        tooltip: 'Claude Code: time until the current block resets'
+    },
+    burnRate: {
+        format: '$(flame) {burnRate} {trend}',
+        command: 'claude-code-usage.showDetails',
+        tooltip: 'Claude Code: current burn rate and trend'
+    },
+    cost: {
+        format: '$(credit-card) {cost}',
+        command: 'claude-code-usage.showReport',
+        tooltip: 'Claude Code: estimated cost of the current block'
+    },
+    models: {
+        format: '$(hubot) {models}',
+        command: 'claude-code-usage.showDetails',
+        tooltip: 'Claude Code: share of the current block by model'
+    },
+    subagents: {
+        format: '$(organization) {subagents}',
+        command: 'claude-code-usage.showDetails',
+        tooltip: 'Claude Code: share of the current block spent by sub-agents'
+    },
+    budget: {
+        format: '[$(law) {budget} → {budgetForecast}]',
+        command: 'claude-code-usage.showDetails',
+        tooltip: 'Claude Code: spend of the budget closest to its limit and its end-of-period forecast'
+    }
+};
@@ -0,0 +1,187 @@
+/**
+ * Status Bar Template - Core Module (Independent)
+ *
+ * Renders user-defined status bar formats such as
+ * `$(terminal) {percent}% [| {burnRate} ][percent>=90? $(flame)]`.
+ *
+ * - `{name}` is replaced by the placeholder's text; unknown names stay as written
+ * - `[...]` is an optional segment, left out when a placeholder inside has no value
+ * - `[name>=number? ...]` is shown only when the condition holds
+ *   (operators: `>`, `>=`, `<`, `<=`, `==`, `!=`)
+ * - `\` escapes the next character, e.g. `\[` for a literal bracket
+ *
+ * @module StatusBarTemplate
+ */
+
+/** Value of a placeholder. */
+export interface PlaceholderValue {
+    /** Text inserted for `{name}` */
+    text: string;
+    /** Number compared by conditions; placeholders without one never satisfy a condition */
+    value?: number;
+}
+
+/** Placeholder values by name; undefined marks a known placeholder without a value. */
+export type PlaceholderValues = Record<string, PlaceholderValue | undefined>;
+
+type ComparisonOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+/** Comparison of a placeholder's number with a constant, e.g. `cost>=1`. */
+export interface PlaceholderCondition {
+    name: string;
+    operator: ComparisonOperator;
+    operand: number;
+}
+
+type TemplateNode =
+    | { kind: 'text'; text: string }
+    | { kind: 'placeholder'; name: string }
+    | { kind: 'segment'; condition?: PlaceholderCondition; children: TemplateNode[] };
+
+const PLACEHOLDER_PATTERN = /^\{(\w+)\}/;
+const CONDITION_PATTERN = /^\[\s*(\w+)\s*(>=|<=|==|!=|>|<)\s*(-?\d+(?:\.\d+)?)\s*\?/;
+const STANDALONE_CONDITION_PATTERN = /^\s*(\w+)\s*(>=|<=|==|!=|>|<)\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * Parses a standalone condition such as `cost>=1` or `percent < 50`.
+ * @param text - Condition text
+ * @returns The condition, or undefined for invalid input
+ */
+export const parsePlaceholderCondition = (text: string): PlaceholderCondition | undefined => {
+    const match = text.match(STANDALONE_CONDITION_PATTERN);
+    return match
+        ? { name: match[1], operator: match[2] as ComparisonOperator, operand: Number(match[3]) }
+        : undefined;
+};
+
+/**
+ * Parses a format into nodes. Unmatched closing brackets are kept as text;
+ * a segment that is never closed runs to the end of the format.
+ */
+const parseNodes = (format: string, start: number, inSegment: boolean): { nodes: TemplateNode[]; end: number } => {
+    const nodes: TemplateNode[] = [];
+    let text = '';
+    const flushText = () => {
+        if (text) {
+            nodes.push({ kind: 'text', text });
+            text = '';
+        }
+    };
+
+    let index = start;
+    while (index < format.length) {
+        const char = format[index];
+
+        if (char === '\\' && index + 1 < format.length) {
+            text += format[index + 1];
+            index += 2;
+            continue;
+        }
+
+        if (char === ']' && inSegment) {
+            flushText();
+            return { nodes, end: index + 1 };
+        }
+
+        if (char === '[') {
+            flushText();
+            const conditionMatch = format.slice(index).match(CONDITION_PATTERN);
+            const condition: PlaceholderCondition | undefined = conditionMatch
+                ? { name: conditionMatch[1], operator: conditionMatch[2] as ComparisonOperator, operand: Number(conditionMatch[3]) }
+                : undefined;
+            const segment = parseNodes(format, index + (conditionMatch ? conditionMatch[0].length : 1), true);
+            nodes.push({ kind: 'segment', condition, children: segment.nodes });
+            index = segment.end;
+            continue;
+        }
+
+        const placeholderMatch = char === '{' ? format.slice(index).match(PLACEHOLDER_PATTERN) : null;
+        if (placeholderMatch) {
+            flushText();
+            nodes.push({ kind: 'placeholder', name: placeholderMatch[1] });
+            index += placeholderMatch[0].length;
+            continue;
+        }
+
+        text += char;
+        index++;
+    }
+
+    flushText();
+    return { nodes, end: format.length };
+};
+
+const compare = (value: number, operator: ComparisonOperator, operand: number): boolean => {
+    switch (operator) {
+        case '>': return value > operand;
+        case '>=': return value >= operand;
+        case '<': return value < operand;
+        case '<=': return value <= operand;
+        case '==': return value === operand;
+        case '!=': return value !== operand;
+    }
+};
+
+/**
+ * Checks a condition against placeholder values.
+ * @param condition - Parsed condition
+ * @param values - Placeholder values
+ * @returns False when the placeholder has no number or the comparison fails
+ */
+export const matchesPlaceholderCondition = (condition: PlaceholderCondition, values: PlaceholderValues): boolean => {
+    const value = values[condition.name]?.value;
+    return value !== undefined && compare(value, condition.operator, condition.operand);
+};
+
+/**
+ * Renders nodes.
+ * @returns The text and whether every placeholder directly inside had a value
+ */
+const renderNodes = (nodes: TemplateNode[], values: PlaceholderValues): { text: string; complete: boolean } => {
+    let text = '';
+    let complete = true;
+
+    for (const node of nodes) {
+        if (node.kind === 'text') {
+            text += node.text;
+        } else if (node.kind === 'placeholder') {
+            if (!Object.prototype.hasOwnProperty.call(values, node.name)) {
+                text += `{${node.name}}`;
+                continue;
+            }
+            const value = values[node.name];
+            if (value && value.text) {
+                text += value.text;
+            } else {
+                complete = false;
+            }
+        } else {
+            if (node.condition && !matchesPlaceholderCondition(node.condition, values)) {
+                continue;
+            }
+            const segment = renderNodes(node.children, values);
+            if (segment.complete) {
+                text += segment.text;
+            }
+        }
+    }
+
+    return { text, complete };
+};
+
+/**
+ * Renders a status bar format.
+ *
+ * @param format - Format with placeholders and optional segments
+ * @param values - Placeholder values
+ * @returns Rendered text with surrounding and repeated whitespace collapsed
+ *
+ * @example
+ * ```typescript
+ * renderStatusBarFormat('{percent}%[ | {model}]', { percent: { text: '42', value: 42 }, model: undefined }); // "42%"
+ * ```
+ */
+export const renderStatusBarFormat = (format: string, values: PlaceholderValues): string =>
+    renderNodes(parseNodes(format, 0, false).nodes, values).text
+        .replace(/\s+/g, ' ')
+        .trim();
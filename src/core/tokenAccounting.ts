@@ -0,0 +1,116 @@
+/**
+ * Token Accounting - Core Module (Independent)
+ *
+ * Defines how the four token types of a Claude Code request are combined
+ * into a single "tokens" figure. The chosen weights drive block totals, the
+ * usage baseline, rate limit detection and the burn rate alike.
+ *
+ * **Presets:**
+ * - `raw-io`: input + output only (cache tokens ignored)
+ * - `all-tokens`: every token counts once, including cache creation and cache reads
+ * - `cost-weighted`: tokens weighted by their price relative to input tokens
+ *
+ * @module TokenAccounting
+ */
+
+import { ClaudeUsageRecord } from '../types';
+
+/** Multiplier applied to each token type. */
+export interface TokenWeights {
+    input: number;
+    output: number;
+    cacheCreation: number;
+    cacheRead: number;
+}
+
+/** Names of the built-in token accounting presets. */
+export type TokenModelPreset = 'raw-io' | 'all-tokens' | 'cost-weighted';
+
+/** Built-in token accounting presets. */
+export const TOKEN_MODEL_PRESETS: Record<TokenModelPreset, TokenWeights> = {
+    'raw-io': { input: 1, output: 1, cacheCreation: 0, cacheRead: 0 },
+    'all-tokens': { input: 1, output: 1, cacheCreation: 1, cacheRead: 1 },
+    // Anthropic list price ratios: output 5x, cache write 1.25x, cache read 0.1x of input
+    'cost-weighted': { input: 1, output: 5, cacheCreation: 1.25, cacheRead: 0.1 }
+};
+
+/** Default weights, matching the historical input + output convention. */
+export const DEFAULT_TOKEN_WEIGHTS: TokenWeights = TOKEN_MODEL_PRESETS['raw-io'];
+
+/**
+ * Calculates the weighted token count of a single record.
+ *
+ * @param record - Usage record
+ * @param weights - Token accounting weights
+ * @returns Weighted token count (may be fractional)
+ *
+ * @example
+ * ```typescript
+ * const tokens = getWeightedTokens(record, TOKEN_MODEL_PRESETS['all-tokens']);
+ * ```
+ */
+export const getWeightedTokens = (
+    record: ClaudeUsageRecord,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): number =>
+    record.input_tokens * weights.input +
+    record.output_tokens * weights.output +
+    record.cache_creation_tokens * weights.cacheCreation +
+    record.cache_read_tokens * weights.cacheRead;
+
+/**
+ * Sums weighted tokens over records.
+ *
+ * @param records - Usage records
+ * @param weights - Token accounting weights
+ * @returns Rounded weighted token total
+ */
+export const sumWeightedTokens = (
+    records: ClaudeUsageRecord[],
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): number => Math.round(records.reduce((sum, record) => sum + getWeightedTokens(record, weights), 0));
+
+/**
+ * Ratio of weighted tokens to raw input + output tokens across records.
+ *
+ * Fixed thresholds in the detector and baseline are calibrated for raw I/O
+ * tokens; multiplying them by this ratio keeps them meaningful under other models.
+ *
+ * @param records - Usage records
+ * @param weights - Token accounting weights
+ * @returns Scale factor (1 for raw I/O or when no data is available)
+ */
+export const getWeightScale = (
+    records: ClaudeUsageRecord[],
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): number => {
+    const raw = records.reduce((sum, record) => sum + record.input_tokens + record.output_tokens, 0);
+    if (raw === 0) {
+        return 1;
+    }
+    return records.reduce((sum, record) => sum + getWeightedTokens(record, weights), 0) / raw;
+};
+
+/**
+ * Resolves a preset name or custom weights into token weights.
+ *
+ * @param model - Preset name, or 'custom'
+ * @param customWeights - Weights used when `model` is 'custom'; missing entries default to 0
+ * @returns Token weights (falls back to raw I/O for unknown names)
+ */
+export const resolveTokenWeights = (
+    model: string,
+    customWeights?: Partial<TokenWeights>
+): TokenWeights => {
+    if (model === 'custom' && customWeights) {
+        const weight = (value: unknown) => (typeof value === 'number' && value >= 0 ? value : 0);
+        return {
+            input: weight(customWeights.input),
+            output: weight(customWeights.output),
+            cacheCreation: weight(customWeights.cacheCreation),
+            cacheRead: weight(customWeights.cacheRead)
+        };
+    }
+
+    return TOKEN_MODEL_PRESETS[model as TokenModelPreset] ?? DEFAULT_TOKEN_WEIGHTS;
+};
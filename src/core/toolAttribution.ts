@@ -0,0 +1,182 @@
+/**
+ * Tool Attribution - Core Module (Independent)
+ *
+ * Attributes the input and cache tokens of an assistant turn to the tool
+ * results that were sent with its request, and sums them per tool (Bash,
+ * Read, Edit, Grep, Task, ...).
+ *
+ * **Attribution rule:** a turn's input, cache write and cache read tokens are
+ * split across its preceding tool results in proportion to their size in
+ * characters (evenly when all are empty). Output tokens are never attributed,
+ * and turns without tool results count as unattributed.
+ *
+ * @module ToolAttribution
+ */
+
+import { ClaudeUsageRecord } from '../types';
+import { SessionTranscript, TranscriptTurn } from './sessionTranscript';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, getWeightedTokens } from './tokenAccounting';
+import { PricingEntry, PRICING_HISTORY, calculateRecordCost } from './modelPricing';
+
+/** Time range of an analysis; open ends are unbounded. */
+export interface ToolAttributionScope {
+    /** Earliest included turn time (inclusive) */
+    from?: Date;
+    /** Latest included turn time (exclusive) */
+    to?: Date;
+    /** Only turns of this model */
+    model?: string;
+}
+
+/** Usage attributed to one tool. */
+export interface ToolUsageStats {
+    tool: string;
+    /** Calls whose result was sent to the model */
+    calls: number;
+    /** Calls whose result was marked as an error */
+    errors: number;
+    /** Total result size in characters */
+    resultChars: number;
+    attributedInputTokens: number;
+    attributedCacheCreationTokens: number;
+    attributedCacheReadTokens: number;
+    /** Attributed tokens per the token accounting model */
+    attributedTokens: number;
+    /** Cost of the attributed tokens in USD */
+    attributedCost: number;
+}
+
+/** Result of a tool attribution analysis. */
+export interface ToolAttributionReport {
+    /** Turns in scope */
+    turnCount: number;
+    /** Turns that were sent tool results */
+    turnsWithTools: number;
+    /** Per-tool usage, most attributed tokens first */
+    tools: ToolUsageStats[];
+    /** Input and cache tokens of turns without tool results, per the token accounting model */
+    unattributedTokens: number;
+    unattributedCost: number;
+}
+
+/**
+ * Collects the turns of several transcripts that fall into a time range,
+ * optionally of a single model.
+ * Turns copied into resumed or forked sessions are counted once.
+ *
+ * @param transcripts - Parsed session transcripts
+ * @param scope - Time range and model
+ * @returns Turns in scope, oldest first
+ */
+export const selectTurns = (transcripts: SessionTranscript[], scope: ToolAttributionScope = {}): TranscriptTurn[] => {
+    const seen = new Set<string>();
+    return transcripts
+        .flatMap(transcript => transcript.turns)
+        .filter(turn => {
+            const time = new Date(turn.timestamp).getTime();
+            if ((scope.from && time < scope.from.getTime()) || (scope.to && time >= scope.to.getTime())) {
+                return false;
+            }
+            if (scope.model && turn.model !== scope.model) {
+                return false;
+            }
+            if (turn.messageId) {
+                const key = `${turn.messageId}:${turn.requestId ?? ''}`;
+                if (seen.has(key)) {
+                    return false;
+                }
+                seen.add(key);
+            }
+            return true;
+        })
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+};
+
+/**
+ * Attributes turn usage to tools.
+ *
+ * @param turns - Assistant turns, e.g. from {@link selectTurns}
+ * @param weights - Token accounting weights
+ * @param pricingTable - Model prices for cost estimates
+ * @returns Per-tool usage and the unattributed remainder
+ *
+ * @example
+ * ```typescript
+ * const report = attributeToolUsage(selectTurns([transcript]));
+ * console.log(report.tools[0].tool, report.tools[0].attributedTokens);
+ * ```
+ */
+export const attributeToolUsage = (
+    turns: TranscriptTurn[],
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+    pricingTable: PricingEntry[] = PRICING_HISTORY
+): ToolAttributionReport => {
+    const stats = new Map<string, ToolUsageStats>();
+    let turnsWithTools = 0;
+    let unattributedTokens = 0;
+    let unattributedCost = 0;
+
+    const contextUsage = (turn: TranscriptTurn, share: number): ClaudeUsageRecord => ({
+        timestamp: turn.timestamp,
+        model: turn.model,
+        input_tokens: turn.inputTokens * share,
+        output_tokens: 0,
+        cache_creation_tokens: turn.cacheCreationTokens * share,
+        cache_read_tokens: turn.cacheReadTokens * share
+    });
+
+    for (const turn of turns) {
+        const calls = turn.precedingToolCalls;
+        if (calls.length === 0) {
+            const usage = contextUsage(turn, 1);
+            unattributedTokens += getWeightedTokens(usage, weights);
+            unattributedCost += calculateRecordCost(usage, pricingTable);
+            continue;
+        }
+
+        turnsWithTools++;
+        const totalChars = calls.reduce((sum, call) => sum + call.resultChars, 0);
+        for (const call of calls) {
+            const share = totalChars > 0 ? call.resultChars / totalChars : 1 / calls.length;
+            const usage = contextUsage(turn, share);
+            const entry = stats.get(call.name) ?? {
+                tool: call.name,
+                calls: 0,
+                errors: 0,
+                resultChars: 0,
+                attributedInputTokens: 0,
+                attributedCacheCreationTokens: 0,
+                attributedCacheReadTokens: 0,
+                attributedTokens: 0,
+                attributedCost: 0
+            };
+            entry.calls++;
+            entry.errors += call.isError ? 1 : 0;
+            entry.resultChars += call.resultChars;
+            entry.attributedInputTokens += usage.input_tokens;
+            entry.attributedCacheCreationTokens += usage.cache_creation_tokens;
+            entry.attributedCacheReadTokens += usage.cache_read_tokens;
+            entry.attributedTokens += getWeightedTokens(usage, weights);
+            entry.attributedCost += calculateRecordCost(usage, pricingTable);
+            stats.set(call.name, entry);
+        }
+    }
+
+    const tools = Array.from(stats.values())
+        .map(entry => ({
+            ...entry,
+            attributedInputTokens: Math.round(entry.attributedInputTokens),
+            attributedCacheCreationTokens: Math.round(entry.attributedCacheCreationTokens),
+            attributedCacheReadTokens: Math.round(entry.attributedCacheReadTokens),
+            attributedTokens: Math.round(entry.attributedTokens)
+        }))
+        .sort((a, b) => b.attributedTokens - a.attributedTokens);
+
+    return {
+        turnCount: turns.length,
+        turnsWithTools,
+        tools,
+        unattributedTokens: Math.round(unattributedTokens),
+        unattributedCost
+    };
+};
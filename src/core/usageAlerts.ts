@@ -0,0 +1,192 @@
+/**
+ * Usage Alerts - Core Module (Independent)
+ *
+ * Decides which usage alerts apply to the current block: crossed percentage
+ * thresholds and predicted depletion within a warning horizon. Budget alerts
+ * apply to the current calendar period instead. Delivery, de-duplication and
+ * snoozing are left to the caller.
+ *
+ * @module UsageAlerts
+ */
+
+import { BudgetStatus, UsageStatus } from '../types';
+import { formatPredictionTime } from './burnRateCalculator';
+
+/** Default usage percentages that trigger an alert. */
+export const DEFAULT_ALERT_THRESHOLDS = [50, 75, 90, 100];
+
+/** Default horizon of the depletion alert in minutes. */
+export const DEFAULT_DEPLETION_WARNING_MINUTES = 30;
+
+/** Daily period in local time during which alerts are held back. */
+export interface QuietHours {
+    /** Local start time, `HH:MM` */
+    start: string;
+    /** Local end time, `HH:MM`; may be earlier than `start` to span midnight */
+    end: string;
+}
+
+/** What triggers alerts. */
+export interface AlertSettings {
+    /** Usage percentages of the rate limit */
+    thresholds: number[];
+    /** Warn when depletion is predicted within this many minutes; 0 disables */
+    depletionWarningMinutes: number;
+}
+
+/** Alert triggers together with delivery preferences. */
+export interface NotificationSettings extends AlertSettings {
+    enabled: boolean;
+    /** How long Snooze holds back alerts, in minutes */
+    snoozeMinutes: number;
+    quietHours: QuietHours | null;
+}
+
+/** An alert that applies to the current block. */
+export interface UsageAlert {
+    /**
+     * Stable within a block, e.g. `threshold-75` or `depletion`; budget alerts
+     * carry their period instead, e.g. `budget:daily:2025-01-15:warning`
+     */
+    id: string;
+    kind: 'threshold' | 'depletion' | 'budget';
+    severity: 'info' | 'warning' | 'critical';
+    message: string;
+    /** Threshold percentage for threshold alerts */
+    threshold?: number;
+    /** Budget id for budget alerts */
+    budgetId?: string;
+}
+
+const CLOCK_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+/**
+ * Parses a local clock time.
+ * @param text - Time as `HH:MM`
+ * @returns Minutes after midnight, or undefined for invalid input
+ */
+export const parseClockTime = (text: string): number | undefined => {
+    const match = text.trim().match(CLOCK_PATTERN);
+    if (!match) {
+        return undefined;
+    }
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    return hours < 24 && minutes < 60 ? hours * 60 + minutes : undefined;
+};
+
+/**
+ * Checks whether a time falls into the quiet hours.
+ *
+ * @param time - Time to check (interpreted in local time)
+ * @param quietHours - Quiet period; invalid or empty periods never match
+ * @returns True when alerts should be held back
+ *
+ * @example
+ * ```typescript
+ * isWithinQuietHours(new Date(2025, 0, 1, 23, 30), { start: '22:00', end: '07:00' }); // true
+ * ```
+ */
+export const isWithinQuietHours = (time: Date, quietHours: QuietHours | null | undefined): boolean => {
+    if (!quietHours) {
+        return false;
+    }
+    const start = parseClockTime(quietHours.start);
+    const end = parseClockTime(quietHours.end);
+    if (start === undefined || end === undefined || start === end) {
+        return false;
+    }
+
+    const minutes = time.getHours() * 60 + time.getMinutes();
+    return start < end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end;
+};
+
+/**
+ * Lists the alerts that apply to the current block, most important first.
+ *
+ * Every crossed threshold is listed, so callers can tell which ones have been
+ * passed even when usage jumped over several at once.
+ *
+ * @param status - Usage status of the current block
+ * @param settings - Thresholds and depletion horizon
+ * @param currentTime - Reference time
+ * @returns Applicable alerts; depletion first, then thresholds from highest to lowest
+ */
+export const evaluateUsageAlerts = (
+    status: UsageStatus,
+    settings: AlertSettings,
+    currentTime: Date = new Date()
+): UsageAlert[] => {
+    const alerts: UsageAlert[] = [];
+
+    const depletionTime = status.burnRate?.predictions.estimatedDepletionTime ?? status.estimatedDepletionTime;
+    if (settings.depletionWarningMinutes > 0 && depletionTime) {
+        const remainingMs = depletionTime.getTime() - currentTime.getTime();
+        if (remainingMs <= settings.depletionWarningMinutes * 60 * 1000 && depletionTime < status.resetTime) {
+            const remaining = remainingMs > 0 ? `in ${formatPredictionTime(depletionTime, currentTime)}` : 'imminently';
+            alerts.push({
+                id: 'depletion',
+                kind: 'depletion',
+                severity: 'critical',
+                message: `Claude Code limit predicted ${remaining} at the current burn rate ` +
+                    `(${status.usagePercentage}% used, block resets in ${status.timeUntilResetFormatted}).`
+            });
+        }
+    }
+
+    const crossed = Array.from(new Set(settings.thresholds))
+        .filter(threshold => threshold > 0 && status.usagePercentage >= threshold)
+        .sort((a, b) => b - a);
+
+    for (const threshold of crossed) {
+        alerts.push({
+            id: `threshold-${threshold}`,
+            kind: 'threshold',
+            severity: threshold >= 90 ? 'critical' : threshold >= 75 ? 'warning' : 'info',
+            threshold,
+            message: threshold >= 100
+                ? `Claude Code usage reached the estimated limit (${status.usagePercentage}%). Block resets in ${status.timeUntilResetFormatted}.`
+                : `Claude Code usage passed ${threshold}% of the estimated limit (${status.usagePercentage}%). Block resets in ${status.timeUntilResetFormatted}.`
+        });
+    }
+
+    return alerts;
+};
+
+/**
+ * Lists the alerts of budgets that are exceeded, nearly spent or forecast to
+ * be exceeded, most important first. Like thresholds, every level a budget
+ * reached is listed.
+ *
+ * @param budgets - Evaluated budgets of the current periods
+ * @returns Applicable alerts; exceeded budgets first, then warnings, then forecasts
+ */
+export const evaluateBudgetAlerts = (budgets: BudgetStatus[]): UsageAlert[] => {
+    const alerts: UsageAlert[] = [];
+    const alert = (budget: BudgetStatus, level: string, severity: UsageAlert['severity'], message: string) => alerts.push({
+        id: `budget:${budget.id}:${budget.periodKey}:${level}`,
+        kind: 'budget',
+        severity,
+        budgetId: budget.id,
+        message
+    });
+    const spend = (budget: BudgetStatus) => `$${budget.spent.toFixed(2)} of $${budget.amount.toFixed(2)}`;
+
+    budgets.filter(budget => budget.state === 'exceeded').forEach(budget =>
+        alert(budget, 'exceeded', 'critical',
+            `${budget.label} Claude Code budget exceeded: ${spend(budget)} spent (${budget.percentage}%). Resets in ${budget.timeUntilResetFormatted}.`));
+
+    budgets.filter(budget => budget.state === 'exceeded' || budget.state === 'warning').forEach(budget =>
+        alert(budget, 'warning', 'warning',
+            `${budget.label} Claude Code budget ${budget.percentage}% spent: ${spend(budget)}. ` +
+            `Forecast $${budget.forecast.toFixed(2)} by the end of the period.`));
+
+    budgets.filter(budget => budget.forecast > budget.amount).forEach(budget =>
+        alert(budget, 'forecast', 'info',
+            `${budget.label} Claude Code budget forecast to reach $${budget.forecast.toFixed(2)} (${budget.forecastPercentage}%) ` +
+            `at the recent rate of $${budget.runRatePerHour.toFixed(2)}/h; ${spend(budget)} spent so far.`));
+
+    return alerts;
+};
@@ -8,6 +8,8 @@
  */
 
 import { ClaudeUsageRecord } from '../types';
+import { WindowingOptions, DEFAULT_WINDOWING_OPTIONS, groupRecordsIntoWindows } from './sessionWindowing';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, sumWeightedTokens, getWeightScale } from './tokenAccounting';
 
 /**
  * Statistical usage baseline with metrics and thresholds.
@@ -28,18 +30,29 @@ export interface UsageBaseline {
 /**
  * Calculates statistical baseline from historical usage data.
  * 
- * Filters last 30 days, groups into 5-hour blocks, removes outliers using IQR,
- * and calculates statistical measures with confidence assessment.
+ * Filters last 30 days, groups into blocks with the shared windowing engine,
+ * removes outliers using IQR, and calculates statistical measures with
+ * confidence assessment.
  * 
  * @param records Historical usage records
  * @param currentActiveBlockId Optional current session ID to exclude
+ * @param windowing Window length and gap rule shared with the block calculator
+ * @param weights Token accounting weights for block totals
  * @returns Statistical baseline analysis
  */
-export const calculateUsageBaseline = (records: ClaudeUsageRecord[], currentActiveBlockId?: string): UsageBaseline => {
+export const calculateUsageBaseline = (
+    records: ClaudeUsageRecord[],
+    currentActiveBlockId?: string,
+    windowing: WindowingOptions = DEFAULT_WINDOWING_OPTIONS,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): UsageBaseline => {
     if (records.length === 0) {
         return createDefaultBaseline();
     }
 
+    // Defaults and minimum block size are calibrated for raw input + output tokens
+    const scale = getWeightScale(records, weights);
+
     const now = new Date();
     const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
 
@@ -49,47 +62,18 @@ export const calculateUsageBaseline = (records: ClaudeUsageRecord[], currentActi
     });
 
     if (recentRecords.length === 0) {
-        return createDefaultBaseline();
+        return createDefaultBaseline(scale);
     }
 
-    const blockUsages: number[] = [];
-    const blockSize = 5 * 60 * 60 * 1000;
-
-    const sortedRecords = recentRecords.sort((a, b) =>
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    let currentBlockStart = new Date(sortedRecords[0].timestamp);
-    currentBlockStart.setUTCMinutes(0, 0, 0);
-    let currentBlockTokens = 0;
-    let currentBlockId = currentBlockStart.toISOString();
-
-    for (const record of sortedRecords) {
-        const recordTime = new Date(record.timestamp);
-        const timeSinceBlockStart = recordTime.getTime() - currentBlockStart.getTime();
-
-        if (timeSinceBlockStart > blockSize) {
-            if (currentBlockTokens > 1000 && currentBlockId !== currentActiveBlockId) {
-                blockUsages.push(currentBlockTokens);
-            }
-
-            currentBlockStart = new Date(recordTime);
-            currentBlockStart.setUTCMinutes(0, 0, 0);
-            currentBlockId = currentBlockStart.toISOString();
-            currentBlockTokens = record.input_tokens + record.output_tokens;
-        } else {
-            currentBlockTokens += record.input_tokens + record.output_tokens;
-        }
-    }
-
-    if (currentBlockTokens > 1000 && currentBlockId !== currentActiveBlockId) {
-        blockUsages.push(currentBlockTokens);
-    }
+    const blockUsages = groupRecordsIntoWindows(recentRecords, windowing)
+        .filter(window => window.id !== currentActiveBlockId)
+        .map(window => sumWeightedTokens(window.records, weights))
+        .filter(blockTokens => blockTokens > 1000 * scale);
 
     const activeBlocks = blockUsages;
 
     if (activeBlocks.length < 3) {
-        return createDefaultBaseline();
+        return createDefaultBaseline(scale);
     }
 
     const tokenUsages = activeBlocks;
@@ -97,7 +81,7 @@ export const calculateUsageBaseline = (records: ClaudeUsageRecord[], currentActi
     const cleanedUsages = removeOutliers(tokenUsages);
 
     if (cleanedUsages.length < 3) {
-        return createDefaultBaseline();
+        return createDefaultBaseline(scale);
     }
 
     const sortedUsages = [...cleanedUsages].sort((a, b) => a - b);
@@ -176,15 +160,15 @@ const calculatePercentile = (sortedValues: number[], percentile: number): number
     return Math.round(sortedValues[lower] * (1 - weight) + sortedValues[upper] * weight);
 };
 
-/** Creates default baseline for insufficient data. */
-const createDefaultBaseline = (): UsageBaseline => ({
-    averageUsage: 30_000,
-    medianUsage: 25_000,
-    standardDeviation: 15_000,
-    percentile75: 40_000,
-    percentile90: 55_000,
-    highUsageThreshold: 45_000,
-    criticalUsageThreshold: 60_000,
+/** Creates default baseline for insufficient data, scaled to the token accounting model. */
+const createDefaultBaseline = (scale: number = 1): UsageBaseline => ({
+    averageUsage: Math.round(30_000 * scale),
+    medianUsage: Math.round(25_000 * scale),
+    standardDeviation: Math.round(15_000 * scale),
+    percentile75: Math.round(40_000 * scale),
+    percentile90: Math.round(55_000 * scale),
+    highUsageThreshold: Math.round(45_000 * scale),
+    criticalUsageThreshold: Math.round(60_000 * scale),
     totalSessions: 0,
     analysisMethod: 'default_fallback',
     confidence: 'low'
@@ -0,0 +1,154 @@
+/**
+ * Usage Budgets - Core Module (Independent)
+ *
+ * Evaluates daily, weekly and monthly cost budgets against the full usage
+ * history, either across all projects or for a single one. Spend is priced
+ * with the pricing table; the end-of-period forecast extends it by the recent
+ * run rate.
+ *
+ * **Periods:** calendar periods in local time as in usage reports (days start
+ * at midnight, weeks on Monday, months on the 1st).
+ *
+ * **Run rate:** estimated cost per hour over a trailing window that spans idle
+ * time as well as active sessions, so the forecast does not assume around the
+ * clock usage: the last 24 hours for daily budgets and the last 7 days for
+ * weekly and monthly budgets.
+ *
+ * @module UsageBudgets
+ */
+
+import * as path from 'path';
+import { BudgetStatus, ClaudeUsageRecord } from '../types';
+import { ReportPeriod, getPeriodStart, getPeriodEnd, formatPeriodKey } from './usageReports';
+import { PricingEntry, PRICING_HISTORY, calculateRecordsCost } from './modelPricing';
+import { matchesProject } from './usageExport';
+import { formatTimeUntilReset } from '../utils/timeUtils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Default percentage of a budget at which it counts as nearly spent. */
+export const DEFAULT_BUDGET_WARNING_PERCENTAGE = 80;
+
+/** Trailing window the run rate of each budget period is measured over. */
+const RUN_RATE_WINDOW_MS: Record<ReportPeriod, number> = {
+    daily: 24 * HOUR_MS,
+    weekly: 7 * 24 * HOUR_MS,
+    monthly: 7 * 24 * HOUR_MS
+};
+
+const PERIOD_LABELS: Record<ReportPeriod, string> = {
+    daily: 'Daily',
+    weekly: 'Weekly',
+    monthly: 'Monthly'
+};
+
+/** Definition of one budget. */
+export interface BudgetDefinition {
+    period: ReportPeriod;
+    /** Budget in USD */
+    amount: number;
+    /** Only records of this project (path or encoded directory name) count towards the budget */
+    project?: string;
+    /** Display name; defaults to the period and project */
+    label?: string;
+}
+
+/**
+ * Gets the id of a budget, e.g. `daily` or `monthly:/home/me/app`.
+ * @param definition - Budget definition
+ * @returns Id that stays the same across periods
+ */
+export const getBudgetId = (definition: BudgetDefinition): string =>
+    definition.project ? `${definition.period}:${definition.project}` : definition.period;
+
+/**
+ * Evaluates all budgets for the periods containing the given time.
+ *
+ * @param records - Full usage history
+ * @param definitions - Budgets to evaluate
+ * @param currentTime - Reference time
+ * @param warningPercentage - Spend percentage from which a budget is in the `warning` state
+ * @param pricingTable - Model prices for cost estimates
+ * @returns One status per definition, in definition order
+ *
+ * @example
+ * ```typescript
+ * const budgets = evaluateBudgets(records, [{ period: 'daily', amount: 20 }], new Date());
+ * console.log(budgets[0].spent, budgets[0].forecast);
+ * ```
+ */
+export const evaluateBudgets = (
+    records: ClaudeUsageRecord[],
+    definitions: BudgetDefinition[],
+    currentTime: Date = new Date(),
+    warningPercentage: number = DEFAULT_BUDGET_WARNING_PERCENTAGE,
+    pricingTable: PricingEntry[] = PRICING_HISTORY
+): BudgetStatus[] => definitions.map(definition => {
+    const budgetRecords = definition.project
+        ? records.filter(record => matchesProject(record, definition.project!))
+        : records;
+
+    const periodStart = getPeriodStart(currentTime, definition.period);
+    const periodEnd = getPeriodEnd(periodStart, definition.period);
+    const now = currentTime.getTime();
+    const runRateMs = RUN_RATE_WINDOW_MS[definition.period];
+
+    const spent = calculateRecordsCost(recordsBetween(budgetRecords, periodStart.getTime(), now), pricingTable);
+    const runRatePerHour = calculateRecordsCost(recordsBetween(budgetRecords, now - runRateMs, now), pricingTable) /
+        (runRateMs / HOUR_MS);
+
+    const timeUntilReset = Math.max(0, periodEnd.getTime() - now);
+    const forecast = spent + runRatePerHour * (timeUntilReset / HOUR_MS);
+    const percentage = Math.round(spent / definition.amount * 100);
+    const forecastPercentage = Math.round(forecast / definition.amount * 100);
+
+    return {
+        id: getBudgetId(definition),
+        label: definition.label ?? getDefaultLabel(definition),
+        period: definition.period,
+        project: definition.project,
+        amount: definition.amount,
+        periodKey: formatPeriodKey(periodStart, definition.period),
+        periodStart,
+        periodEnd,
+        spent,
+        percentage,
+        runRatePerHour,
+        forecast,
+        forecastPercentage,
+        timeUntilReset,
+        timeUntilResetFormatted: formatTimeUntilReset(timeUntilReset),
+        state: spent >= definition.amount
+            ? 'exceeded'
+            : percentage >= warningPercentage
+                ? 'warning'
+                : forecast > definition.amount ? 'forecast' : 'ok'
+    };
+});
+
+/**
+ * Picks the budget closest to being spent.
+ *
+ * @param budgets - Evaluated budgets
+ * @returns Budget with the highest spend percentage (forecast breaks ties), or undefined without budgets
+ */
+export const selectMostConstrainedBudget = (budgets: BudgetStatus[]): BudgetStatus | undefined =>
+    budgets.reduce<BudgetStatus | undefined>((tightest, budget) =>
+        !tightest ||
+        budget.percentage > tightest.percentage ||
+        (budget.percentage === tightest.percentage && budget.forecastPercentage > tightest.forecastPercentage)
+            ? budget
+            : tightest, undefined);
+
+/** Records with a timestamp in `[from, to]`. */
+const recordsBetween = (records: ClaudeUsageRecord[], from: number, to: number): ClaudeUsageRecord[] =>
+    records.filter(record => {
+        const time = new Date(record.timestamp).getTime();
+        return time >= from && time <= to;
+    });
+
+/** Label from the period and the project's directory name, e.g. "Daily (app)". */
+const getDefaultLabel = (definition: BudgetDefinition): string => {
+    const period = PERIOD_LABELS[definition.period];
+    return definition.project ? `${period} (${path.basename(definition.project) || definition.project})` : period;
+};
@@ -8,6 +8,7 @@
  */
 
 import { ClaudeUsageRecord } from '../types';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, sumWeightedTokens } from './tokenAccounting';
 
 /**
  * Comprehensive token usage statistics interface.
@@ -30,7 +31,7 @@ export interface TokenUsageStats {
     /** Total cache read tokens used when accessing cached prompts */
     totalCacheReadTokens: number;
 
-    /** Combined total of input and output tokens (excludes cache tokens) */
+    /** Weighted total per the token accounting model (default: input + output, excludes cache tokens) */
     totalTokens: number;
 
     /** Total number of API requests made */
@@ -47,10 +48,11 @@ export interface TokenUsageStats {
  * - **Cache Creation Tokens**: Tokens used for creating prompt cache
  * - **Cache Read Tokens**: Tokens used when reading from prompt cache
  *
- * **Note**: Cache tokens are tracked separately and NOT included in `totalTokens`
- * as they typically have different rate limit implications.
+ * **Note**: `totalTokens` follows the token accounting model. With the default
+ * raw I/O weights, cache tokens are tracked separately and NOT included.
  *
  * @param {ClaudeUsageRecord[]} records - Array of Claude usage records to aggregate
+ * @param {TokenWeights} [weights] - Token accounting weights for `totalTokens`
  * @returns {TokenUsageStats} Comprehensive token usage statistics
  *
  * @example
@@ -65,7 +67,10 @@ export interface TokenUsageStats {
  * console.log(stats.requestCount); // 2
  * ```
  */
-export const calculateTokenUsage = (records: ClaudeUsageRecord[]): TokenUsageStats => {
+export const calculateTokenUsage = (
+    records: ClaudeUsageRecord[],
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): TokenUsageStats => {
     // Aggregate all token types using reduce for efficient single-pass calculation
     const aggregated = records.reduce(
         (acc, record) => ({
@@ -84,8 +89,8 @@ export const calculateTokenUsage = (records: ClaudeUsageRecord[]): TokenUsageSta
 
     return {
         ...aggregated,
-        // totalTokens excludes cache tokens per rate limiting conventions
-        totalTokens: aggregated.totalInputTokens + aggregated.totalOutputTokens,
+        // Default weights exclude cache tokens per rate limiting conventions
+        totalTokens: sumWeightedTokens(records, weights),
         requestCount: records.length
     };
 };
@@ -0,0 +1,266 @@
+/**
+ * Usage Export - Core Module (Independent)
+ *
+ * Flattens usage records, blocks and reports into tables and serializes them
+ * as CSV, JSON or Markdown.
+ *
+ * **Stable columns:** column names and their order are part of the export
+ * format that downstream scripts depend on. New columns may only be appended;
+ * existing ones must not be renamed, reordered or removed.
+ *
+ * @module UsageExport
+ */
+
+import { ClaudeUsageRecord } from '../types';
+import { calculateTokenUsage } from './usageCalculator';
+import { calculateSessionBlocks } from './blockCalculator';
+import { WindowingOptions, DEFAULT_WINDOWING_OPTIONS } from './sessionWindowing';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, getWeightedTokens } from './tokenAccounting';
+import { PricingEntry, PRICING_HISTORY, calculateRecordCost, calculateRecordsCost } from './modelPricing';
+import { ReportPeriod, generateUsageReport } from './usageReports';
+import { getMostUsedModel } from './modelUtils';
+import { isProjectInFolders } from './projectManager';
+
+/** What to export. */
+export type ExportDataset = 'records' | 'blocks' | ReportPeriod;
+
+/** Output format. */
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+/** Restricts exported usage. */
+export interface ExportFilter {
+    /** Earliest included time (inclusive) */
+    from?: Date;
+    /** Latest included time (exclusive) */
+    to?: Date;
+    /** Project path or encoded project directory name; sub-directories match too */
+    project?: string;
+}
+
+/** Settings that shape the exported figures. */
+export interface ExportOptions {
+    windowing?: WindowingOptions;
+    tokenWeights?: TokenWeights;
+    pricingTable?: PricingEntry[];
+    /** Reference time for block activity */
+    currentTime?: Date;
+}
+
+/** Cell value of an exported table. */
+export type ExportValue = string | number | boolean | null;
+
+/** A flat table with stable column names. */
+export interface ExportTable {
+    columns: readonly string[];
+    rows: ExportValue[][];
+}
+
+/** Columns of the raw record export. */
+export const RECORD_COLUMNS = [
+    'timestamp', 'session_id', 'request_id', 'message_id', 'project', 'model',
+    'input_tokens', 'output_tokens', 'cache_creation_tokens', 'cache_read_tokens',
+    'total_tokens', 'cost_usd', 'is_sidechain', 'parent_tool_use_id', 'cwd', 'git_branch'
+] as const;
+
+/** Columns of the block export. */
+export const BLOCK_COLUMNS = [
+    'block_id', 'start', 'end', 'first_activity', 'last_activity',
+    'input_tokens', 'output_tokens', 'cache_creation_tokens', 'cache_read_tokens',
+    'total_tokens', 'requests', 'cost_usd', 'top_model', 'is_active', 'subagent_tokens'
+] as const;
+
+/** Columns of the daily, weekly and monthly report exports. */
+export const REPORT_COLUMNS = [
+    'period', 'start', 'end',
+    'input_tokens', 'output_tokens', 'cache_creation_tokens', 'cache_read_tokens',
+    'total_tokens', 'requests', 'cost_usd', 'models'
+] as const;
+
+/** File extension per format. */
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+    csv: 'csv',
+    json: 'json',
+    markdown: 'md'
+};
+
+/** Rounds a USD amount to a stable number of decimals. */
+const roundCost = (cost: number): number => Math.round(cost * 1_000_000) / 1_000_000;
+
+/**
+ * Checks whether a record belongs to a project filter.
+ *
+ * @param record - Usage record
+ * @param project - Project path or encoded project directory name
+ * @returns True when the record's project matches
+ */
+export const matchesProject = (record: ClaudeUsageRecord, project: string): boolean =>
+    record.projectKey === project ||
+    record.project === project ||
+    isProjectInFolders(record.projectKey ?? '', record.project ?? '', [project]);
+
+/**
+ * Applies the date range and project filter to records.
+ *
+ * @param records - Usage records
+ * @param filter - Date range and project filter
+ * @returns Matching records in input order
+ */
+export const filterRecords = (records: ClaudeUsageRecord[], filter: ExportFilter = {}): ClaudeUsageRecord[] =>
+    records.filter(record => {
+        const time = new Date(record.timestamp).getTime();
+        if (filter.from && time < filter.from.getTime()) {
+            return false;
+        }
+        if (filter.to && time >= filter.to.getTime()) {
+            return false;
+        }
+        return !filter.project || matchesProject(record, filter.project);
+    });
+
+/**
+ * Builds the table for a dataset.
+ *
+ * Blocks are computed from all records, so block boundaries match the status
+ * bar; the filter then narrows each block to its matching records and drops
+ * blocks without any.
+ *
+ * @param records - All usage records
+ * @param dataset - What to export
+ * @param filter - Date range and project filter
+ * @param options - Windowing, token weights, pricing and reference time
+ * @returns Table with the dataset's stable columns
+ *
+ * @example
+ * ```typescript
+ * const table = createExportTable(records, 'daily', { project: '/home/me/app' });
+ * const csv = serializeExportTable(table, 'csv');
+ * ```
+ */
+export const createExportTable = (
+    records: ClaudeUsageRecord[],
+    dataset: ExportDataset,
+    filter: ExportFilter = {},
+    options: ExportOptions = {}
+): ExportTable => {
+    const weights = options.tokenWeights ?? DEFAULT_TOKEN_WEIGHTS;
+    const pricingTable = options.pricingTable ?? PRICING_HISTORY;
+
+    if (dataset === 'records') {
+        return {
+            columns: RECORD_COLUMNS,
+            rows: filterRecords(records, filter)
+                .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+                .map(record => [
+                    record.timestamp,
+                    record.sessionId ?? null,
+                    record.requestId ?? null,
+                    record.messageId ?? null,
+                    record.project ?? record.projectKey ?? null,
+                    record.model,
+                    record.input_tokens,
+                    record.output_tokens,
+                    record.cache_creation_tokens,
+                    record.cache_read_tokens,
+                    Math.round(getWeightedTokens(record, weights)),
+                    roundCost(calculateRecordCost(record, pricingTable)),
+                    record.isSidechain === true,
+                    record.parentToolUseId ?? null,
+                    record.cwd ?? null,
+                    record.gitBranch ?? null
+                ])
+        };
+    }
+
+    if (dataset === 'blocks') {
+        const blocks = calculateSessionBlocks(
+            records,
+            options.currentTime ?? new Date(),
+            options.windowing ?? DEFAULT_WINDOWING_OPTIONS,
+            weights
+        );
+        return {
+            columns: BLOCK_COLUMNS,
+            rows: blocks.flatMap(block => {
+                const blockRecords = filterRecords(block.records, filter);
+                if (blockRecords.length === 0) {
+                    return [];
+                }
+                const usage = calculateTokenUsage(blockRecords, weights);
+                return [[
+                    block.sessionId,
+                    block.startTime.toISOString(),
+                    block.endTime.toISOString(),
+                    blockRecords[0].timestamp,
+                    blockRecords[blockRecords.length - 1].timestamp,
+                    usage.totalInputTokens,
+                    usage.totalOutputTokens,
+                    usage.totalCacheCreationTokens,
+                    usage.totalCacheReadTokens,
+                    usage.totalTokens,
+                    usage.requestCount,
+                    roundCost(calculateRecordsCost(blockRecords, pricingTable)),
+                    getMostUsedModel(blockRecords),
+                    block.isActive,
+                    calculateTokenUsage(blockRecords.filter(record => record.isSidechain), weights).totalTokens
+                ]];
+            })
+        };
+    }
+
+    const report = generateUsageReport(filterRecords(records, filter), dataset, weights, pricingTable);
+    return {
+        columns: REPORT_COLUMNS,
+        rows: report.buckets.map(bucket => [
+            bucket.key,
+            bucket.start.toISOString(),
+            bucket.end.toISOString(),
+            bucket.totalInputTokens,
+            bucket.totalOutputTokens,
+            bucket.totalCacheCreationTokens,
+            bucket.totalCacheReadTokens,
+            bucket.totalTokens,
+            bucket.requestCount,
+            roundCost(bucket.estimatedCost),
+            bucket.models.map(model => `${model.model}:${model.requestCount}`).join(' ')
+        ])
+    };
+};
+
+/**
+ * Serializes a table.
+ *
+ * - CSV: header row, RFC 4180 quoting, empty cells for null
+ * - JSON: array of objects keyed by column name
+ * - Markdown: pipe table
+ *
+ * @param table - Table to serialize
+ * @param format - Output format
+ * @returns File content
+ */
+export const serializeExportTable = (table: ExportTable, format: ExportFormat): string => {
+    if (format === 'json') {
+        const objects = table.rows.map(row =>
+            Object.fromEntries(table.columns.map((column, index) => [column, row[index]]))
+        );
+        return JSON.stringify(objects, null, 2) + '\n';
+    }
+
+    if (format === 'csv') {
+        const escapeCsv = (value: ExportValue): string => {
+            const text = value === null ? '' : String(value);
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+        return [table.columns, ...table.rows]
+            .map(row => row.map(escapeCsv).join(','))
+            .join('\r\n') + '\r\n';
+    }
+
+    const escapeMarkdown = (value: ExportValue): string =>
+        (value === null ? '' : String(value)).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    const lines = [
+        `| ${table.columns.join(' | ')} |`,
+        `| ${table.columns.map(() => '---').join(' | ')} |`,
+        ...table.rows.map(row => `| ${row.map(escapeMarkdown).join(' | ')} |`)
+    ];
+    return lines.join('\n') + '\n';
+};
@@ -0,0 +1,185 @@
+/**
+ * Usage Hierarchy - Core Module (Independent)
+ *
+ * Groups usage records into a tree: data roots, projects, 5-hour blocks,
+ * Claude Code sessions and models, with token and cost totals on every node.
+ *
+ * Blocks are computed from all records, so block boundaries match the status
+ * bar; a project's block only holds that project's records.
+ *
+ * @module UsageHierarchy
+ */
+
+import { ClaudeUsageRecord, SessionWindow } from '../types';
+import { calculateSessionBlocks } from './blockCalculator';
+import { WindowingOptions, DEFAULT_WINDOWING_OPTIONS } from './sessionWindowing';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, getWeightedTokens } from './tokenAccounting';
+import { PricingEntry, PRICING_HISTORY, calculateRecordCost } from './modelPricing';
+import { getSessionTranscriptPath } from './projectManager';
+
+/** Level of a node in the hierarchy. */
+export type UsageNodeKind = 'root' | 'project' | 'block' | 'session' | 'model';
+
+/** A node of the usage hierarchy. */
+export interface UsageNode {
+    kind: UsageNodeKind;
+    /** Unique across the hierarchy; built from data root, project key, block, session and model ids */
+    id: string;
+    /**
+     * Data root path, project path, block ID, session ID or model ID.
+     * Empty for records without a session (legacy `usage.jsonl`).
+     */
+    name: string;
+    /** Records of the node, oldest first */
+    records: ClaudeUsageRecord[];
+    totalTokens: number;
+    estimatedCost: number;
+    /** Block range for block nodes */
+    startTime?: Date;
+    endTime?: Date;
+    isActive?: boolean;
+    /** Session transcript for session and model nodes */
+    transcriptPath?: string;
+    /** Builds the child nodes on the first call and returns the same nodes afterwards */
+    getChildren(): UsageNode[];
+}
+
+/** Groups records by a key, keeping first-seen key order and record order. */
+const groupRecords = (
+    records: ClaudeUsageRecord[],
+    getKey: (record: ClaudeUsageRecord) => string
+): Map<string, ClaudeUsageRecord[]> => {
+    const groups = new Map<string, ClaudeUsageRecord[]>();
+    records.forEach(record => {
+        const key = getKey(record);
+        const group = groups.get(key);
+        if (group) {
+            group.push(record);
+        } else {
+            groups.set(key, [record]);
+        }
+    });
+    return groups;
+};
+
+/**
+ * Builds the usage hierarchy. Only the data root nodes are created up front;
+ * each node creates its children when they are first requested, so collapsed
+ * parts of the tree cost nothing beyond their totals.
+ *
+ * - Roots follow `dataRoots` order; roots without records are kept
+ * - Projects, sessions and models are ordered by tokens, largest first
+ * - Blocks are ordered newest first
+ *
+ * @param records - All usage records
+ * @param dataRoots - Scanned data root paths
+ * @param currentTime - Reference time for block activity
+ * @param windowing - Window length and gap rule
+ * @param weights - Token accounting weights
+ * @param pricingTable - Model prices for cost estimates
+ * @returns One node per data root
+ */
+export const buildUsageHierarchy = (
+    records: ClaudeUsageRecord[],
+    dataRoots: string[],
+    currentTime: Date = new Date(),
+    windowing: WindowingOptions = DEFAULT_WINDOWING_OPTIONS,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+    pricingTable: PricingEntry[] = PRICING_HISTORY
+): UsageNode[] => {
+    // Every record is weighted and priced once, however many levels it is summed at
+    const recordTotals = new Map<ClaudeUsageRecord, { tokens: number; cost: number }>();
+    const getRecordTotals = (record: ClaudeUsageRecord) => {
+        let totals = recordTotals.get(record);
+        if (!totals) {
+            totals = { tokens: getWeightedTokens(record, weights), cost: calculateRecordCost(record, pricingTable) };
+            recordTotals.set(record, totals);
+        }
+        return totals;
+    };
+
+    let blockIndex: { blocks: SessionWindow[]; indexOf: Map<ClaudeUsageRecord, number> } | undefined;
+    const getBlockIndex = () => {
+        if (!blockIndex) {
+            const blocks = calculateSessionBlocks(records, currentTime, windowing, weights);
+            const indexOf = new Map<ClaudeUsageRecord, number>();
+            blocks.forEach((block, index) => block.records.forEach(record => indexOf.set(record, index)));
+            blockIndex = { blocks, indexOf };
+        }
+        return blockIndex;
+    };
+
+    const createNode = (
+        kind: UsageNodeKind,
+        parentId: string,
+        key: string,
+        name: string,
+        nodeRecords: ClaudeUsageRecord[],
+        buildChildren: (node: UsageNode) => UsageNode[]
+    ): UsageNode => {
+        let children: UsageNode[] | undefined;
+        let totalTokens = 0;
+        let estimatedCost = 0;
+        nodeRecords.forEach(record => {
+            const totals = getRecordTotals(record);
+            totalTokens += totals.tokens;
+            estimatedCost += totals.cost;
+        });
+        const node: UsageNode = {
+            kind,
+            id: `${parentId}/${kind}:${key}`,
+            name,
+            records: nodeRecords,
+            totalTokens: Math.round(totalTokens),
+            estimatedCost,
+            getChildren: () => {
+                children = children ?? buildChildren(node);
+                return children;
+            }
+        };
+        return node;
+    };
+    const byTokens = (a: UsageNode, b: UsageNode) => b.totalTokens - a.totalTokens;
+
+    const buildModels = (session: UsageNode): UsageNode[] =>
+        Array.from(groupRecords(session.records, record => record.model).entries())
+            .map(([model, modelRecords]) => ({
+                ...createNode('model', session.id, model, model, modelRecords, () => []),
+                transcriptPath: session.transcriptPath
+            }))
+            .sort(byTokens);
+
+    const buildSessions = (block: UsageNode): UsageNode[] =>
+        Array.from(groupRecords(block.records, record => record.sessionId ?? '').entries())
+            .map(([sessionId, sessionRecords]) => {
+                const session = createNode('session', block.id, sessionId, sessionId, sessionRecords, buildModels);
+                session.transcriptPath = getSessionTranscriptPath(sessionRecords[0]);
+                return session;
+            })
+            .sort(byTokens);
+
+    const buildBlocks = (project: UsageNode): UsageNode[] => {
+        const { blocks, indexOf } = getBlockIndex();
+        return Array.from(groupRecords(project.records, record => String(indexOf.get(record) ?? -1)).entries())
+            .sort(([a], [b]) => Number(b) - Number(a))
+            .map(([index, blockRecords]) => {
+                const window = blocks[Number(index)];
+                const block = createNode('block', project.id, window?.sessionId ?? index, window?.sessionId ?? '', blockRecords, buildSessions);
+                block.startTime = window?.startTime;
+                block.endTime = window?.endTime;
+                block.isActive = window?.isActive;
+                return block;
+            });
+    };
+
+    const buildProjects = (root: UsageNode): UsageNode[] =>
+        Array.from(groupRecords(root.records, record => record.projectKey ?? '').entries())
+            .map(([projectKey, projectRecords]) =>
+                createNode('project', root.id, projectKey, projectRecords[0].project ?? projectKey, projectRecords, buildBlocks))
+            .sort(byTokens);
+
+    const recordsByRoot = groupRecords(records, record => record.dataRoot ?? '');
+    const rootNames = [...dataRoots, ...Array.from(recordsByRoot.keys()).filter(root => !dataRoots.includes(root))];
+
+    return rootNames.map(rootName => createNode('root', '', rootName, rootName, recordsByRoot.get(rootName) ?? [], buildProjects));
+};
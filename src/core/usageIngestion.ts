@@ -0,0 +1,160 @@
+/**
+ * Usage Ingestion - Core Module (Independent)
+ *
+ * Incrementally ingests Claude Code JSONL files. Each file's size, mtime and
+ * byte offset are remembered between refreshes so that only lines appended
+ * since the previous read are parsed. Usage records and limit-reached events
+ * are cached side by side.
+ *
+ * **File State Transitions:**
+ * - Unchanged (same size and mtime): cached records are returned as-is
+ * - Grown: bytes after the stored offset are parsed and appended
+ * - Truncated, replaced or rewritten in place: cached records are dropped and the file is re-read
+ *
+ * **Rewrite Detection:** besides a shrinking file, a changed inode or a change in
+ * the last bytes before the stored offset (compared by hash) means the content
+ * already parsed is gone, even when the file kept or grew its size.
+ * - Deleted: state is dropped by {@link UsageIngestionCache.prune}
+ *
+ * @module UsageIngestion
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { ClaudeUsageRecord, RateLimitEvent } from '../types';
+import {
+    DEFAULT_STREAM_OPTIONS,
+    LineParser,
+    LineParserState,
+    LinePrefilter,
+    StreamCursor,
+    streamTranscriptEntries
+} from './jsonlStreamReader';
+
+/** Bytes before the stored offset whose hash identifies the content already parsed. */
+const FINGERPRINT_BYTES = 4 * 1024;
+
+/** Everything parsed from one file so far. */
+export interface IngestedFile {
+    records: ClaudeUsageRecord[];
+    limitEvents: RateLimitEvent[];
+}
+
+/** Per-file ingestion bookkeeping. */
+interface FileIngestionState extends IngestedFile {
+    size: number;
+    mtimeMs: number;
+    ino: number;
+    /** Byte offset just past the last fully consumed line */
+    offset: number;
+    /** Hash of the bytes just before `offset` */
+    fingerprint: string;
+    /** State the line parser carries from one read to the next */
+    parserState: LineParserState;
+}
+
+/**
+ * Hashes the bytes just before an offset.
+ * @param filePath Absolute path to the file
+ * @param offset End of the hashed range
+ * @returns Hex digest, or an empty string at offset 0
+ */
+const readFingerprint = (filePath: string, offset: number): string => {
+    if (offset === 0) {
+        return '';
+    }
+    const start = Math.max(0, offset - FINGERPRINT_BYTES);
+    const buffer = Buffer.alloc(offset - start);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, start);
+        return crypto.createHash('sha1').update(buffer.subarray(0, bytesRead)).digest('hex');
+    } finally {
+        fs.closeSync(fd);
+    }
+};
+
+/** Remembers per-file read positions so repeated scans only parse appended lines. */
+export class UsageIngestionCache {
+    private readonly files = new Map<string, FileIngestionState>();
+
+    /**
+     * Returns all entries of a file, parsing only the bytes appended since the last call.
+     * @param filePath Absolute path to the JSONL file
+     * @param parseLine Parser applied to each complete line
+     * @param prefilter Optional byte-level check that skips lines before parsing
+     * @returns All records and limit events currently contained in the file
+     */
+    readFile(filePath: string, parseLine: LineParser, prefilter?: LinePrefilter): IngestedFile {
+        const stats = fs.statSync(filePath);
+        let state = this.files.get(filePath);
+
+        if (state && this.isRewritten(filePath, state, stats)) {
+            state = undefined;
+        }
+
+        if (!state) {
+            state = { size: 0, mtimeMs: 0, ino: stats.ino, offset: 0, fingerprint: '', records: [], limitEvents: [], parserState: new Map() };
+            this.files.set(filePath, state);
+        }
+
+        if (stats.size > state.offset) {
+            const cursor: StreamCursor = { offset: state.offset, oversizedLines: 0 };
+            for (const entry of streamTranscriptEntries(
+                filePath, cursor, stats.size, parseLine, prefilter, DEFAULT_STREAM_OPTIONS, state.parserState
+            )) {
+                if (entry.kind === 'usage') {
+                    state.records.push(entry.record);
+                } else {
+                    state.limitEvents.push(entry.event);
+                }
+            }
+            if (cursor.offset !== state.offset) {
+                state.offset = cursor.offset;
+                state.fingerprint = readFingerprint(filePath, state.offset);
+            }
+
+            if (cursor.oversizedLines > 0) {
+                console.warn(`Skipped ${cursor.oversizedLines} oversized line(s) in ${filePath}`);
+            }
+        }
+
+        state.size = stats.size;
+        state.mtimeMs = stats.mtimeMs;
+
+        return { records: state.records, limitEvents: state.limitEvents };
+    }
+
+    /**
+     * Drops state for files that no longer exist.
+     * @param livePaths Paths seen during the latest directory scan
+     */
+    prune(livePaths: Set<string>): void {
+        for (const filePath of this.files.keys()) {
+            if (!livePaths.has(filePath)) {
+                this.files.delete(filePath);
+            }
+        }
+    }
+
+    /** Clears all cached state, forcing a full re-read on the next scan. */
+    clear(): void {
+        this.files.clear();
+    }
+
+    /** Number of files currently tracked. */
+    get trackedFileCount(): number {
+        return this.files.size;
+    }
+
+    /** Detects truncation, replacement or in-place rewrites that invalidate the stored offset. */
+    private isRewritten(filePath: string, state: FileIngestionState, stats: fs.Stats): boolean {
+        if (stats.size < state.offset || stats.ino !== state.ino) {
+            return true;
+        }
+        if (stats.size === state.size) {
+            return stats.mtimeMs !== state.mtimeMs;
+        }
+        return readFingerprint(filePath, state.offset) !== state.fingerprint;
+    }
+}
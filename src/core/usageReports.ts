@@ -0,0 +1,195 @@
+/**
+ * Usage Reports - Core Module (Independent)
+ *
+ * Aggregates usage records into calendar periods in the local time zone:
+ * days, ISO weeks (Monday to Sunday) and months. Each period carries token
+ * totals by type, request counts, a per-model split and the estimated cost.
+ *
+ * @module UsageReports
+ */
+
+import { ClaudeUsageRecord } from '../types';
+import { calculateTokenUsage, TokenUsageStats } from './usageCalculator';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS } from './tokenAccounting';
+import { PricingEntry, PRICING_HISTORY, calculateRecordsCost } from './modelPricing';
+import { formatLocalDate } from '../utils/timeUtils';
+
+/** Calendar granularity of a report. */
+export type ReportPeriod = 'daily' | 'weekly' | 'monthly';
+
+/** Usage of one model within a report period. */
+export interface ReportModelUsage extends TokenUsageStats {
+    model: string;
+    /** Estimated cost in USD */
+    estimatedCost: number;
+}
+
+/** Usage of one calendar period. */
+export interface ReportBucket extends TokenUsageStats {
+    /** Stable key: `YYYY-MM-DD` (daily), `YYYY-Www` (weekly) or `YYYY-MM` (monthly) */
+    key: string;
+    /** Local start of the period (inclusive) */
+    start: Date;
+    /** Local start of the next period (exclusive) */
+    end: Date;
+    /** Estimated cost in USD */
+    estimatedCost: number;
+    /** Per-model usage, most expensive first */
+    models: ReportModelUsage[];
+}
+
+/** Report over all records for one granularity. */
+export interface UsageReport {
+    period: ReportPeriod;
+    /** Periods with usage, newest first */
+    buckets: ReportBucket[];
+    /** Totals across all periods */
+    totals: TokenUsageStats & { estimatedCost: number };
+}
+
+/**
+ * Local start of the period containing the date.
+ * @param date - Any instant
+ * @param period - Report granularity
+ * @returns Local midnight of the first day of the period
+ */
+export const getPeriodStart = (date: Date, period: ReportPeriod): Date => {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    if (period === 'weekly') {
+        // getDay(): Sunday = 0; ISO weeks start on Monday
+        start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    } else if (period === 'monthly') {
+        start.setDate(1);
+    }
+    return start;
+};
+
+/**
+ * Local start of the period following the one starting at `start`.
+ * @param start - Period start from {@link getPeriodStart}
+ * @param period - Report granularity
+ * @returns Exclusive end of the period
+ */
+export const getPeriodEnd = (start: Date, period: ReportPeriod): Date => {
+    const end = new Date(start);
+    if (period === 'daily') {
+        end.setDate(end.getDate() + 1);
+    } else if (period === 'weekly') {
+        end.setDate(end.getDate() + 7);
+    } else {
+        end.setMonth(end.getMonth() + 1);
+    }
+    return end;
+};
+
+/**
+ * Formats the key of the period starting at `start`.
+ * Weekly keys use ISO week numbering, so the first days of January may belong
+ * to the last week of the previous year.
+ *
+ * @param start - Period start from {@link getPeriodStart}
+ * @param period - Report granularity
+ * @returns Period key
+ */
+export const formatPeriodKey = (start: Date, period: ReportPeriod): string => {
+    if (period === 'daily') {
+        return formatLocalDate(start);
+    }
+    if (period === 'monthly') {
+        return formatLocalDate(start).slice(0, 7);
+    }
+
+    // The ISO week belongs to the year of its Thursday
+    const thursday = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 3);
+    const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+    const firstWeekStart = getPeriodStart(firstThursday, 'weekly');
+    const week = Math.round((start.getTime() - firstWeekStart.getTime()) / (7 * 24 * 60 * 60 * 1000)) + 1;
+    return `${thursday.getFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+/**
+ * Aggregates records into daily, weekly or monthly periods.
+ *
+ * @param records - Usage records
+ * @param period - Report granularity
+ * @param weights - Token accounting weights for `totalTokens`
+ * @param pricingTable - Model prices for the cost estimate
+ * @returns Report with one bucket per period that has usage
+ *
+ * @example
+ * ```typescript
+ * const report = generateUsageReport(parsedData.records, 'weekly');
+ * report.buckets.forEach(bucket => console.log(bucket.key, bucket.estimatedCost.toFixed(2)));
+ * ```
+ */
+export const generateUsageReport = (
+    records: ClaudeUsageRecord[],
+    period: ReportPeriod,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+    pricingTable: PricingEntry[] = PRICING_HISTORY
+): UsageReport => {
+    const byPeriod = new Map<number, ClaudeUsageRecord[]>();
+
+    for (const record of records) {
+        const time = new Date(record.timestamp);
+        if (isNaN(time.getTime())) {
+            continue;
+        }
+        const start = getPeriodStart(time, period).getTime();
+        const periodRecords = byPeriod.get(start);
+        if (periodRecords) {
+            periodRecords.push(record);
+        } else {
+            byPeriod.set(start, [record]);
+        }
+    }
+
+    const buckets = Array.from(byPeriod.entries())
+        .sort(([a], [b]) => b - a)
+        .map(([startTime, periodRecords]) => {
+            const start = new Date(startTime);
+            return {
+                ...calculateTokenUsage(periodRecords, weights),
+                key: formatPeriodKey(start, period),
+                start,
+                end: getPeriodEnd(start, period),
+                estimatedCost: calculateRecordsCost(periodRecords, pricingTable),
+                models: summarizeModels(periodRecords, weights, pricingTable)
+            };
+        });
+
+    return {
+        period,
+        buckets,
+        totals: {
+            ...calculateTokenUsage(records, weights),
+            estimatedCost: buckets.reduce((sum, bucket) => sum + bucket.estimatedCost, 0)
+        }
+    };
+};
+
+/** Per-model usage within a period, most expensive first. */
+const summarizeModels = (
+    records: ClaudeUsageRecord[],
+    weights: TokenWeights,
+    pricingTable: PricingEntry[]
+): ReportModelUsage[] => {
+    const byModel = new Map<string, ClaudeUsageRecord[]>();
+    for (const record of records) {
+        const model = record.model || 'unknown';
+        const modelRecords = byModel.get(model);
+        if (modelRecords) {
+            modelRecords.push(record);
+        } else {
+            byModel.set(model, [record]);
+        }
+    }
+
+    return Array.from(byModel.entries())
+        .map(([model, modelRecords]) => ({
+            ...calculateTokenUsage(modelRecords, weights),
+            model,
+            estimatedCost: calculateRecordsCost(modelRecords, pricingTable)
+        }))
+        .sort((a, b) => b.estimatedCost - a.estimatedCost || b.totalTokens - a.totalTokens);
+};
@@ -0,0 +1,194 @@
+/**
+ * Usage Timeline - Core Module (Independent)
+ *
+ * Turns usage records into time series for charting: cumulative tokens over a
+ * block, per-model usage per time bucket, burn rate per time bucket and a
+ * day-by-hour activity heatmap.
+ *
+ * All token figures use the active token accounting weights so the series
+ * line up with block totals and the rate limit estimate.
+ *
+ * @module UsageTimeline
+ */
+
+import { ClaudeUsageRecord } from '../types';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, getWeightedTokens } from './tokenAccounting';
+import { formatLocalDate } from '../utils/timeUtils';
+
+const MINUTE_MS = 60 * 1000;
+
+/** A value at a point in time (epoch milliseconds). */
+export interface TimelinePoint {
+    time: number;
+    value: number;
+}
+
+/** Tokens per model for consecutive, equally sized time buckets. */
+export interface ModelTimeline {
+    /** Start of each bucket (epoch milliseconds) */
+    bucketStarts: number[];
+    bucketMs: number;
+    /** Tokens per bucket for each model, largest consumer first */
+    models: Array<{ model: string; tokens: number[] }>;
+}
+
+/** Tokens per local calendar day and hour of day. */
+export interface UsageHeatmap {
+    /** Local dates (YYYY-MM-DD), oldest first */
+    days: string[];
+    /** `values[day][hour]` tokens, hours 0-23 in local time */
+    values: number[][];
+}
+
+/** Sorts records by timestamp without mutating the input. */
+const sortByTime = (records: ClaudeUsageRecord[]): ClaudeUsageRecord[] =>
+    [...records].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+/**
+ * Builds the running token total of a block, one point per record.
+ *
+ * @param records - Records of the block
+ * @param startTime - Block start; the series starts at zero there
+ * @param weights - Token accounting weights
+ * @returns Cumulative points, oldest first
+ */
+export const buildCumulativeSeries = (
+    records: ClaudeUsageRecord[],
+    startTime: Date,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): TimelinePoint[] => {
+    let total = 0;
+    const points: TimelinePoint[] = [{ time: startTime.getTime(), value: 0 }];
+
+    for (const record of sortByTime(records)) {
+        total += getWeightedTokens(record, weights);
+        points.push({ time: new Date(record.timestamp).getTime(), value: Math.round(total) });
+    }
+
+    return points;
+};
+
+/**
+ * Splits usage into equally sized buckets per model.
+ *
+ * @param records - Records to bucket
+ * @param startTime - Start of the first bucket
+ * @param endTime - End of the last bucket
+ * @param bucketMs - Bucket length
+ * @param weights - Token accounting weights
+ * @returns Per-model bucket totals
+ *
+ * @example
+ * ```typescript
+ * const timeline = buildModelTimeline(block.records, block.startTime, new Date(), 10 * 60 * 1000);
+ * ```
+ */
+export const buildModelTimeline = (
+    records: ClaudeUsageRecord[],
+    startTime: Date,
+    endTime: Date,
+    bucketMs: number,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): ModelTimeline => {
+    const start = startTime.getTime();
+    const bucketCount = Math.max(1, Math.ceil((endTime.getTime() - start) / bucketMs));
+    const bucketStarts = Array.from({ length: bucketCount }, (_, index) => start + index * bucketMs);
+    const byModel = new Map<string, number[]>();
+
+    for (const record of records) {
+        const index = Math.floor((new Date(record.timestamp).getTime() - start) / bucketMs);
+        if (index < 0 || index >= bucketCount) {
+            continue;
+        }
+        const model = record.model || 'unknown';
+        let tokens = byModel.get(model);
+        if (!tokens) {
+            tokens = new Array(bucketCount).fill(0);
+            byModel.set(model, tokens);
+        }
+        tokens[index] += getWeightedTokens(record, weights);
+    }
+
+    const models = Array.from(byModel.entries())
+        .map(([model, tokens]) => ({ model, tokens: tokens.map(Math.round) }))
+        .sort((a, b) => b.tokens.reduce((x, y) => x + y, 0) - a.tokens.reduce((x, y) => x + y, 0));
+
+    return { bucketStarts, bucketMs, models };
+};
+
+/**
+ * Calculates the burn rate (tokens per minute) of each bucket, averaged over
+ * a trailing window so single large requests do not dominate the curve.
+ *
+ * @param records - Records to analyze
+ * @param startTime - Start of the first bucket
+ * @param endTime - End of the last bucket
+ * @param bucketMs - Bucket length
+ * @param smoothingMs - Trailing window used for the average
+ * @param weights - Token accounting weights
+ * @returns One point per bucket end
+ */
+export const buildBurnRateSeries = (
+    records: ClaudeUsageRecord[],
+    startTime: Date,
+    endTime: Date,
+    bucketMs: number,
+    smoothingMs: number = 30 * MINUTE_MS,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): TimelinePoint[] => {
+    const start = startTime.getTime();
+    const end = endTime.getTime();
+    const timed = records.map(record => ({
+        time: new Date(record.timestamp).getTime(),
+        tokens: getWeightedTokens(record, weights)
+    }));
+    const bucketCount = Math.max(1, Math.ceil((end - start) / bucketMs));
+
+    return Array.from({ length: bucketCount }, (_, index) => {
+        const time = Math.min(start + (index + 1) * bucketMs, end);
+        const windowStart = Math.max(start, time - smoothingMs);
+        const minutes = (time - windowStart) / MINUTE_MS;
+        const tokens = timed
+            .filter(entry => entry.time > windowStart && entry.time <= time)
+            .reduce((sum, entry) => sum + entry.tokens, 0);
+        return { time, value: minutes > 0 ? Math.round(tokens / minutes) : 0 };
+    });
+};
+
+/**
+ * Builds a day-by-hour heatmap of the trailing days in local time.
+ *
+ * @param records - Usage records
+ * @param currentTime - Reference time; its local day is the last row
+ * @param days - Number of days to include
+ * @param weights - Token accounting weights
+ * @returns Heatmap rows, oldest day first
+ */
+export const buildHourlyHeatmap = (
+    records: ClaudeUsageRecord[],
+    currentTime: Date,
+    days: number = 30,
+    weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS
+): UsageHeatmap => {
+    const dayKeys: string[] = [];
+    const cursor = new Date(currentTime.getFullYear(), currentTime.getMonth(), currentTime.getDate());
+    cursor.setDate(cursor.getDate() - (days - 1));
+
+    for (let index = 0; index < days; index++) {
+        dayKeys.push(formatLocalDate(cursor));
+        cursor.setDate(cursor.getDate() + 1);
+    }
+
+    const rowIndex = new Map(dayKeys.map((key, index) => [key, index]));
+    const values = dayKeys.map(() => new Array(24).fill(0));
+
+    for (const record of records) {
+        const time = new Date(record.timestamp);
+        const row = rowIndex.get(formatLocalDate(time));
+        if (row !== undefined) {
+            values[row][time.getHours()] += getWeightedTokens(record, weights);
+        }
+    }
+
+    return { days: dayKeys, values: values.map(row => row.map(Math.round)) };
+};
@@ -3,21 +3,46 @@
  * @module Extension
  */
 
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { UsageStatus } from './types';
 import { SettingsManager } from './config/settingsManager';
 import { UsageMonitorFacade, UsageStatusResult } from './services/usageMonitorFacade';
 import {
-    getStatusBarText,
+    formatStatusBarText,
+    createStatusBarPlaceholders,
     getStatusBarColor,
     formatUsageDetails,
-    formatTimeDetails
+    formatTimeDetails,
+    formatQuotaWindows,
+    formatBudgets,
+    getDisplayedQuotaWindow
 } from './ui/statusBarFormatter';
-import { TemplateService, TemplateData } from './ui/templateService';
+import { StatusBarItems } from './ui/statusBarItems';
+import { DashboardPanel } from './ui/dashboardPanel';
+import { ReportPanel } from './ui/reportPanel';
+import { BranchUsagePanel } from './ui/branchUsagePanel';
+import { promptExportRequest, promptRecordExport } from './ui/exportDialog';
+import { UsageTreeProvider, USAGE_TREE_VIEW_ID } from './ui/usageTreeProvider';
+import { TranscriptPanel } from './ui/transcriptPanel';
+import { promptSessionTranscript } from './ui/sessionPicker';
+import { ToolUsagePanel, ToolUsageAnalysis } from './ui/toolUsagePanel';
+import { promptToolUsageScope, ToolUsageScopeRequest } from './ui/toolUsageScopePicker';
+import { readSessionTranscript, SessionTranscript } from './core/sessionTranscript';
+import { selectTurns, attributeToolUsage } from './core/toolAttribution';
+import { calculateSessionBlocks } from './core/blockCalculator';
+import { createExportTable, serializeExportTable, ExportTable, ExportFormat } from './core/usageExport';
+import { UsageNode, buildUsageHierarchy } from './core/usageHierarchy';
+import { calculateProjectUsage } from './core/projectUsageCalculator';
+import { UsageDataWatcher, DEFAULT_WATCHER_OPTIONS } from './services/usageDataWatcher';
+import { UsageNotifier } from './services/usageNotifier';
+import { resolveClaudeDataRoots, getSessionTranscriptPath } from './core/projectManager';
 
 let statusBarItem: vscode.StatusBarItem;
-let updateTimer: NodeJS.Timeout | undefined;
-let detailsPanel: vscode.WebviewPanel | undefined;
+const additionalStatusBarItems = new StatusBarItems();
+let dataWatcher: UsageDataWatcher | undefined;
+let isUpdating = false;
+let updatePending = false;
 const usageMonitorFacade = new UsageMonitorFacade();
 let extensionPath: string;
 
@@ -27,9 +52,10 @@ let extensionPath: string;
  */
 export function activate(context: vscode.ExtensionContext) {
     extensionPath = context.extensionPath;
-    statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
-    statusBarItem.command = 'claude-code-usage.showDetails';
-    context.subscriptions.push(statusBarItem);
+    createStatusBarItem();
+    additionalStatusBarItems.configure(SettingsManager.getStatusBarItems());
+    // The main item is re-created when its alignment or priority changes, so the context owns whichever is current
+    context.subscriptions.push(new vscode.Disposable(() => statusBarItem?.dispose()), additionalStatusBarItems);
 
     const showDetailsCommand = vscode.commands.registerCommand('claude-code-usage.showDetails', () => {
         showUsageDetails();
@@ -39,59 +65,187 @@ export function activate(context: vscode.ExtensionContext) {
         updateStatusBar();
     });
 
-    context.subscriptions.push(showDetailsCommand, refreshCommand);
+    const showReportCommand = vscode.commands.registerCommand('claude-code-usage.showReport', () => {
+        showUsageReport();
+    });
+
+    const exportCommand = vscode.commands.registerCommand('claude-code-usage.exportUsage', () => {
+        exportUsageData();
+    });
+
+    const showBranchUsageCommand = vscode.commands.registerCommand('claude-code-usage.showBranchUsage', () => {
+        showBranchUsage();
+    });
+
+    const treeProvider = new UsageTreeProvider(loadUsageHierarchy);
+    const treeView = vscode.window.createTreeView(USAGE_TREE_VIEW_ID, { treeDataProvider: treeProvider, showCollapseAll: true });
+    const treeRefreshListener = usageMonitorFacade.onDidUpdate(() => treeProvider.refresh());
+    treeProvider.setVisible(treeView.visible);
+    const treeVisibilityListener = treeView.onDidChangeVisibility(event => treeProvider.setVisible(event.visible));
+
+    const openTranscriptCommand = vscode.commands.registerCommand('claude-code-usage.openTranscript', (node: UsageNode) => {
+        openTranscript(node);
+    });
+
+    const exportTreeNodeCommand = vscode.commands.registerCommand('claude-code-usage.exportTreeNode', (node: UsageNode) => {
+        exportTreeNode(node);
+    });
+
+    const showTranscriptCommand = vscode.commands.registerCommand('claude-code-usage.showTranscript', (node?: UsageNode) => {
+        showTranscript(node);
+    });
+
+    const showToolUsageCommand = vscode.commands.registerCommand('claude-code-usage.showToolUsage', (node?: UsageNode) => {
+        showToolUsage(node);
+    });
 
-    startPeriodicUpdates();
+    const configChangeListener = SettingsManager.onConfigurationChanged()(e => {
+        if (SettingsManager.isRelevantConfigChange(e)) {
+            createStatusBarItem();
+            additionalStatusBarItems.configure(SettingsManager.getStatusBarItems());
+            startDataWatcher();
+            updateStatusBar();
+        }
+    });
+
+    const workspaceFoldersListener = vscode.workspace.onDidChangeWorkspaceFolders(() => updateStatusBar());
+
+    const notifier = new UsageNotifier(context.globalState, showUsageDetails);
+    const notificationListener = usageMonitorFacade.onDidUpdate(result => {
+        notifier.process(result, SettingsManager.getNotificationSettings()).catch(error =>
+            console.error('Error showing usage notification:', error)
+        );
+    });
+
+    context.subscriptions.push(showDetailsCommand, refreshCommand, showReportCommand, exportCommand, showBranchUsageCommand, configChangeListener, workspaceFoldersListener, notificationListener);
+    context.subscriptions.push(treeProvider, treeView, treeRefreshListener, treeVisibilityListener, openTranscriptCommand, exportTreeNodeCommand, showTranscriptCommand, showToolUsageCommand);
+
+    startDataWatcher();
     updateStatusBar();
 }
 
+/**
+ * Creates the status bar item, or re-creates it when its alignment or priority changed,
+ * since both are fixed at creation.
+ */
+function createStatusBarItem() {
+    const { alignment, priority } = SettingsManager.getStatusBarSettings();
+    const itemAlignment = alignment === 'left' ? vscode.StatusBarAlignment.Left : vscode.StatusBarAlignment.Right;
+    if (statusBarItem && statusBarItem.alignment === itemAlignment && statusBarItem.priority === priority) {
+        return;
+    }
+
+    const previous = statusBarItem;
+    statusBarItem = vscode.window.createStatusBarItem(itemAlignment, priority);
+    statusBarItem.command = 'claude-code-usage.showDetails';
+    if (previous) {
+        statusBarItem.text = previous.text;
+        statusBarItem.color = previous.color;
+        statusBarItem.tooltip = previous.tooltip;
+        statusBarItem.show();
+        previous.dispose();
+    }
+}
+
+/**
+ * Converts a configured colour into a status bar colour.
+ * @param color Theme colour id (e.g. `charts.red`) or CSS colour (e.g. `#ff4444`)
+ * @returns The CSS colour as is, otherwise a theme colour reference
+ */
+function toStatusBarColor(color: string): string | vscode.ThemeColor {
+    return /^(#|rgba?\(|hsla?\()/i.test(color) ? color : new vscode.ThemeColor(color);
+}
+
 /**
  * Gets current usage status.
  * @returns Usage status result or null if no data
  */
 async function getUsageStatus(): Promise<UsageStatusResult | null> {
-    const customLimit = SettingsManager.getCustomLimit();
-    return await usageMonitorFacade.getUsageStatus(customLimit);
+    return await usageMonitorFacade.getUsageStatus({
+        customLimit: SettingsManager.getCustomLimit(),
+        dataRoots: SettingsManager.getDataRoots(),
+        autoDetectDataRoots: SettingsManager.getAutoDetectDataRoots(),
+        workspaceFolders: vscode.workspace.workspaceFolders?.map(folder => folder.uri.fsPath) ?? [],
+        windowing: SettingsManager.getWindowingOptions(),
+        plan: SettingsManager.getPlanProfile(),
+        quotaWindows: SettingsManager.getQuotaWindows(),
+        budgets: SettingsManager.getBudgets(),
+        budgetWarningPercentage: SettingsManager.getBudgetWarningPercentage(),
+        tokenWeights: SettingsManager.getTokenWeights(),
+        pricingTable: SettingsManager.getPricingTable()
+    });
 }
 
 
 /**
  * Updates the status bar with current usage information.
+ * Calls arriving while an update is running are coalesced into one follow-up update.
  */
 async function updateStatusBar() {
+    if (isUpdating) {
+        updatePending = true;
+        return;
+    }
+
+    isUpdating = true;
+    try {
+        await refreshStatusBar();
+    } finally {
+        isUpdating = false;
+        if (updatePending) {
+            updatePending = false;
+            updateStatusBar();
+        }
+    }
+}
+
+/**
+ * Recomputes usage once and renders it into the main and the additional status bar items.
+ * Additional items are hidden while the main item reports a problem.
+ */
+async function refreshStatusBar() {
     try {
         const result = await getUsageStatus();
+        const { format, colors } = SettingsManager.getStatusBarSettings();
+        const currentWorkspaceOnly = SettingsManager.getCurrentWorkspaceOnly();
 
         if (result) {
-            const { status, parsedData, rateLimitEstimate } = result;
+            const { status, rateLimitEstimate } = result;
 
             if (status.error) {
                 statusBarItem.text = '$(warning) Data Issue';
-                statusBarItem.color = '#ffaa00';
+                statusBarItem.color = toStatusBarColor(colors.warning);
                 statusBarItem.tooltip = createTooltip(status);
                 statusBarItem.show();
+                additionalStatusBarItems.update(undefined);
                 return;
             }
 
-            const text = getStatusBarText(status, rateLimitEstimate);
-            const color = getStatusBarColor(status);
+            const text = formatStatusBarText(result, format, currentWorkspaceOnly);
+            const isIdle = !result.activeBlock.isActive;
+            const usageColor = getStatusBarColor(status, colors);
+            // While idle the usage colours only apply to a quota window in use or a budget running out
+            const color = isIdle && !getDisplayedQuotaWindow(status) && usageColor === colors.normal ? colors.inactive : usageColor;
+            additionalStatusBarItems.update(createStatusBarPlaceholders(result, currentWorkspaceOnly));
 
             statusBarItem.text = text;
-            statusBarItem.color = color;
-            statusBarItem.tooltip = createTooltip(status, rateLimitEstimate);
+            statusBarItem.color = toStatusBarColor(color);
+            statusBarItem.tooltip = isIdle ? createIdleTooltip(status) : createTooltip(status, rateLimitEstimate);
             statusBarItem.show();
         } else {
             statusBarItem.text = '$(terminal) No active block';
-            statusBarItem.color = '#888888';
+            statusBarItem.color = toStatusBarColor(colors.inactive);
             statusBarItem.tooltip = 'No Claude Code block detected. Start using Claude Code to begin monitoring.';
             statusBarItem.show();
+            additionalStatusBarItems.update(undefined);
         }
     } catch (error) {
         console.error('Error updating status bar:', error);
         statusBarItem.text = '$(error) Data Error';
-        statusBarItem.color = '#ff4444';
+        statusBarItem.color = toStatusBarColor(SettingsManager.getStatusBarSettings().colors.critical);
         statusBarItem.tooltip = 'Error reading Claude Code usage data. Click for details.';
         statusBarItem.show();
+        additionalStatusBarItems.update(undefined);
     }
 }
 
@@ -123,11 +277,36 @@ function createTooltip(status: UsageStatus, rateLimitEstimate?: number): string
         tooltip += `Rate Limit Estimate: ${rateLimitEstimate.toLocaleString()} tokens\n`;
     }
 
-    tooltip += `Baseline: ${status.usageBaseline.toLocaleString()} tokens (~${status.baselineDescription})\n\n`;
+    tooltip += `Baseline: ${status.usageBaseline.toLocaleString()} tokens (~${status.baselineDescription})\n`;
+
+    if (status.workspaceUsage) {
+        const workspace = status.workspaceUsage;
+        tooltip += `Workspace: ${workspace.totalTokens.toLocaleString()} tokens (${workspace.usagePercentage}% of limit, ${workspace.shareOfBlock}% of block)\n`;
+    }
+
+    if (status.quotaWindows && status.quotaWindows.length > 0) {
+        tooltip += '\nQuota Windows:\n';
+        formatQuotaWindows(status.quotaWindows).forEach(line => {
+            tooltip += `  ${line}\n`;
+        });
+    }
+
+    if (status.budgets && status.budgets.length > 0) {
+        tooltip += '\nBudgets:\n';
+        formatBudgets(status.budgets).forEach(line => {
+            tooltip += `  ${line}\n`;
+        });
+    }
+
+    tooltip += '\n';
     tooltip += `Reset Time: ${timeDetails['Reset Time']}\n`;
     tooltip += `Time Until Reset: ${timeDetails['Time Until Reset']}\n`;
     tooltip += `Consumption Rate: ${timeDetails['Tokens Per Minute']} tokens/min\n`;
 
+    if (timeDetails['Sub-agents']) {
+        tooltip += `Sub-agents: ${timeDetails['Sub-agents']}\n`;
+    }
+
     if (timeDetails['Estimated Depletion']) {
         tooltip += `Estimated Depletion: ${timeDetails['Estimated Depletion']}\n`;
     }
@@ -140,137 +319,355 @@ function createTooltip(status: UsageStatus, rateLimitEstimate?: number): string
 }
 
 /**
- * Shows detailed usage information in a dialog.
+ * Creates tooltip text while no block is active.
+ * @param status Usage status of the empty block, with history-wide figures
+ * @returns Formatted tooltip string
  */
-async function showUsageDetails() {
+function createIdleTooltip(status: UsageStatus): string {
+    let tooltip = `Claude Code Usage Monitor\n\nNo active block. A new 5-hour block starts with your next request.\n`;
+
+    if (status.quotaWindows && status.quotaWindows.length > 0) {
+        tooltip += '\nQuota Windows:\n';
+        formatQuotaWindows(status.quotaWindows).forEach(line => {
+            tooltip += `  ${line}\n`;
+        });
+    }
+
+    if (status.budgets && status.budgets.length > 0) {
+        tooltip += '\nBudgets:\n';
+        formatBudgets(status.budgets).forEach(line => {
+            tooltip += `  ${line}\n`;
+        });
+    }
+
+    return tooltip;
+}
+
+/**
+ * Opens the usage dashboard, which follows every subsequent refresh.
+ */
+function showUsageDetails() {
     try {
-        const result = await getUsageStatus();
+        DashboardPanel.show(extensionPath, usageMonitorFacade, updateStatusBar);
+    } catch (error) {
+        console.error('Error showing usage details:', error);
+        vscode.window.showErrorMessage('Failed to display usage details');
+    }
+}
 
-        if (!result) {
-            vscode.window.showInformationMessage(
-                'No active Claude Code usage detected. Start using Claude Code to see usage statistics.'
-            );
-            return;
-        }
+/**
+ * Opens the daily/weekly/monthly usage report.
+ */
+function showUsageReport() {
+    try {
+        ReportPanel.show(extensionPath, period => usageMonitorFacade.getUsageReport(period, {
+            dataRoots: SettingsManager.getDataRoots(),
+            autoDetectDataRoots: SettingsManager.getAutoDetectDataRoots(),
+            tokenWeights: SettingsManager.getTokenWeights(),
+            pricingTable: SettingsManager.getPricingTable()
+        }));
+    } catch (error) {
+        console.error('Error showing usage report:', error);
+        vscode.window.showErrorMessage('Failed to display usage report');
+    }
+}
 
-        const { status, parsedData, rateLimitEstimate } = result;
+/**
+ * Opens the usage by git branch, which re-reads the data whenever the webview asks.
+ */
+function showBranchUsage() {
+    try {
+        BranchUsagePanel.show(extensionPath, includeCommits => usageMonitorFacade.getBranchUsage(includeCommits, {
+            dataRoots: SettingsManager.getDataRoots(),
+            autoDetectDataRoots: SettingsManager.getAutoDetectDataRoots(),
+            tokenWeights: SettingsManager.getTokenWeights(),
+            pricingTable: SettingsManager.getPricingTable()
+        }));
+    } catch (error) {
+        console.error('Error showing branch usage:', error);
+        vscode.window.showErrorMessage('Failed to display usage by branch');
+    }
+}
+
+/**
+ * Builds the sidebar hierarchy from the full usage history.
+ * @returns One node per data root
+ */
+async function loadUsageHierarchy(): Promise<UsageNode[]> {
+    const parsedData = await usageMonitorFacade.loadUsageData({
+        dataRoots: SettingsManager.getDataRoots(),
+        autoDetectDataRoots: SettingsManager.getAutoDetectDataRoots()
+    });
+    return buildUsageHierarchy(
+        parsedData.records,
+        parsedData.dataRoots.filter(root => root.exists).map(root => root.path),
+        new Date(),
+        SettingsManager.getWindowingOptions(),
+        SettingsManager.getTokenWeights(),
+        SettingsManager.getPricingTable()
+    );
+}
 
-        if (status.error) {
-            const errorMessage = [
-                `⚠️ ${status.error.message}`,
-                '',
-                `Details: ${status.error.details}`,
-                status.error.suggestion ? `Suggestion: ${status.error.suggestion}` : ''
-            ].filter(line => line).join('\n');
+/**
+ * Opens the session transcript of a tree node.
+ * @param node Session or model node
+ */
+async function openTranscript(node: UsageNode) {
+    if (!node?.transcriptPath) {
+        return;
+    }
+    try {
+        await vscode.window.showTextDocument(vscode.Uri.file(node.transcriptPath), { preview: true });
+    } catch (error) {
+        console.error('Error opening transcript:', error);
+        vscode.window.showErrorMessage(`Failed to open transcript ${node.transcriptPath}`);
+    }
+}
 
-            vscode.window.showErrorMessage(errorMessage);
+/**
+ * Opens the transcript browser for a tree node's session, or for a session picked by the user.
+ * @param node Session or model node; asks for a session when omitted
+ */
+async function showTranscript(node?: UsageNode) {
+    try {
+        let transcriptPath = node?.transcriptPath;
+        if (!transcriptPath) {
+            const parsedData = await usageMonitorFacade.loadUsageData({
+                dataRoots: SettingsManager.getDataRoots(),
+                autoDetectDataRoots: SettingsManager.getAutoDetectDataRoots()
+            });
+            transcriptPath = await promptSessionTranscript(parsedData.records);
+        }
+        if (!transcriptPath) {
             return;
         }
 
-        const usageDetails = formatUsageDetails(status);
-        const timeDetails = formatTimeDetails(status);
-
-        // Create a formatted message array for better display
-        const messageLines = [
-            `Claude Code Usage Details`,
-            '',
-            `Current Usage: ${usageDetails}`,
-            `Usage Level: ${status.usageLevel}`,
-            `Baseline Confidence: ${status.baselineConfidence}`,
-            '',
-            `Reset Time: ${timeDetails['Reset Time']}`,
-            `Time Until Reset: ${timeDetails['Time Until Reset']}`,
-            `Consumption Rate: ${timeDetails['Tokens Per Minute']} tokens/min`
-        ];
-
-        if (timeDetails['Burn Rate']) {
-            messageLines.push(`Burn Rate: ${timeDetails['Burn Rate']}`);
-        }
+        TranscriptPanel.show(extensionPath, transcriptPath, loadTranscript);
+    } catch (error) {
+        console.error('Error showing transcript:', error);
+        vscode.window.showErrorMessage('Failed to display session transcript');
+    }
+}
 
-        if (timeDetails['Top Model']) {
-            messageLines.push(`Top Model: ${timeDetails['Top Model']}`);
-        }
+/**
+ * Reads a session transcript with the current settings, showing progress while large files are read.
+ * @param filePath Transcript file (`{sessionId}.jsonl`)
+ * @returns Parsed transcript
+ */
+async function loadTranscript(filePath: string): Promise<SessionTranscript> {
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Reading Claude Code session transcript'
+    }, progress => {
+        let reported = 0;
+        return readSessionTranscript(
+            filePath,
+            SettingsManager.getTokenWeights(),
+            SettingsManager.getPricingTable(),
+            (bytesRead, totalBytes) => {
+                const percentage = bytesRead / totalBytes * 100;
+                progress.report({ increment: percentage - reported });
+                reported = percentage;
+            }
+        );
+    });
+}
 
-        if (timeDetails['Estimated High Usage']) {
-            messageLines.push(`Estimated High Usage: ${timeDetails['Estimated High Usage']}`);
+/**
+ * Opens the tool usage analysis for a tree node, or for a scope picked by the user.
+ * @param node Root, project, block or session node; asks for a scope when omitted
+ */
+async function showToolUsage(node?: UsageNode) {
+    try {
+        let request: ToolUsageScopeRequest | undefined;
+        if (node) {
+            request = createNodeToolUsageScope(node);
+        } else {
+            const parsedData = await usageMonitorFacade.loadUsageData({
+                dataRoots: SettingsManager.getDataRoots(),
+                autoDetectDataRoots: SettingsManager.getAutoDetectDataRoots()
+            });
+            const blocks = calculateSessionBlocks(
+                parsedData.records,
+                new Date(),
+                SettingsManager.getWindowingOptions(),
+                SettingsManager.getTokenWeights()
+            );
+            request = await promptToolUsageScope(parsedData.records, blocks);
         }
+        if (!request) {
+            return;
+        }
+
+        const scope = request;
+        ToolUsagePanel.show(extensionPath, () => analyzeToolUsage(scope));
+    } catch (error) {
+        console.error('Error showing tool usage:', error);
+        vscode.window.showErrorMessage('Failed to display tool usage');
+    }
+}
+
+/**
+ * Creates the tool usage scope of a tree node.
+ * Turns are limited to the node's first and last request, so a session under
+ * a block only counts the turns of that block, and to the model of a model node.
+ * @param node Any node of the usage tree
+ * @returns Scope covering the node's records
+ */
+function createNodeToolUsageScope(node: UsageNode): ToolUsageScopeRequest {
+    const first = node.records[0];
+    const last = node.records[node.records.length - 1];
+    const titles: Record<UsageNode['kind'], string> = {
+        root: `Data root ${node.name}`,
+        project: `Project ${node.name}`,
+        block: `Block ${node.name}`,
+        session: `Session ${node.name}`,
+        model: `Session model ${node.name}`
+    };
+    return {
+        title: titles[node.kind],
+        records: node.records,
+        from: first ? new Date(first.timestamp) : undefined,
+        to: last ? new Date(new Date(last.timestamp).getTime() + 1) : undefined,
+        model: node.kind === 'model' ? node.name : undefined
+    };
+}
 
-        if (timeDetails['Estimated Depletion']) {
-            messageLines.push(`Estimated Depletion: ${timeDetails['Estimated Depletion']}`);
+/**
+ * Reads the session transcripts of a scope and attributes their usage to tools.
+ * @param request Scope of the analysis
+ * @returns Per-tool usage of the scope
+ */
+async function analyzeToolUsage(request: ToolUsageScopeRequest): Promise<ToolUsageAnalysis> {
+    const transcriptPaths = Array.from(new Set(request.records
+        .map(record => getSessionTranscriptPath(record))
+        .filter((transcriptPath): transcriptPath is string => Boolean(transcriptPath))));
+    const weights = SettingsManager.getTokenWeights();
+    const pricingTable = SettingsManager.getPricingTable();
+
+    const transcripts = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Analyzing Claude Code tool usage'
+    }, async progress => {
+        const results: SessionTranscript[] = [];
+        for (const transcriptPath of transcriptPaths) {
+            progress.report({ message: `${results.length + 1} of ${transcriptPaths.length} sessions`, increment: 100 / transcriptPaths.length });
+            try {
+                results.push(await readSessionTranscript(transcriptPath, weights, pricingTable));
+            } catch (error) {
+                // Transcripts may be deleted or rotated between scans
+                console.error(`Error reading transcript ${transcriptPath}:`, error);
+            }
+            // Yield between files so large scopes do not block the extension host
+            await new Promise(resolve => setImmediate(resolve));
         }
+        return results;
+    });
 
-        const statusEmoji = status.usagePercentage >= 100 ? '🔴' :
-            status.isCriticalUsage ? '🔴' :
-                status.isHighUsage ? '🟡' :
-                    '🟢';
+    return {
+        title: request.title,
+        sessionCount: transcripts.length,
+        report: attributeToolUsage(selectTurns(transcripts, { from: request.from, to: request.to, model: request.model }), weights, pricingTable)
+    };
+}
 
-        const statusText = status.usagePercentage >= 100 ? 'CRITICAL - Exceeded rate limit!' :
-            status.isCriticalUsage ? 'CRITICAL - Very high usage!' :
-                status.isHighUsage ? 'WARNING - High usage' :
-                    'NORMAL - Typical usage level';
+/**
+ * Exports the records of a tree node to a file chosen by the user.
+ * @param node Any node of the usage tree
+ */
+async function exportTreeNode(node: UsageNode) {
+    if (!node) {
+        return;
+    }
+    try {
+        const request = await promptRecordExport(`${node.kind}-${path.basename(node.name) || 'records'}`);
+        if (!request) {
+            return;
+        }
 
-        messageLines.push('', `Status: ${statusEmoji} ${statusText}`);
+        const table = createExportTable(node.records, 'records', {}, {
+            tokenWeights: SettingsManager.getTokenWeights(),
+            pricingTable: SettingsManager.getPricingTable()
+        });
+        await writeExport(table, request.format, request.target);
+    } catch (error) {
+        console.error('Error exporting tree node:', error);
+        vscode.window.showErrorMessage('Failed to export usage data');
+    }
+}
 
-        // Reuse existing panel or create new one
-        if (detailsPanel) {
-            detailsPanel.reveal(vscode.ViewColumn.One);
-        } else {
-            detailsPanel = vscode.window.createWebviewPanel(
-                'claudeUsageDetails',
-                'Claude Code Usage Details',
-                vscode.ViewColumn.One,
-                {
-                    enableScripts: false,
-                    retainContextWhenHidden: true
-                }
-            );
+/**
+ * Writes an exported table and offers to open the file.
+ * @param table Exported table
+ * @param format Output format
+ * @param target File chosen by the user
+ */
+async function writeExport(table: ExportTable, format: ExportFormat, target: vscode.Uri) {
+    const content = serializeExportTable(table, format);
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf-8'));
+
+    const choice = await vscode.window.showInformationMessage(
+        `Exported ${table.rows.length.toLocaleString()} rows to ${target.fsPath}`,
+        'Open'
+    );
+    if (choice === 'Open') {
+        await vscode.window.showTextDocument(target);
+    }
+}
 
-            // Clean up when the panel is closed
-            detailsPanel.onDidDispose(() => {
-                detailsPanel = undefined;
-            });
+/**
+ * Exports records, blocks or reports to a file chosen by the user.
+ */
+async function exportUsageData() {
+    try {
+        const parsedData = await usageMonitorFacade.loadUsageData({
+            dataRoots: SettingsManager.getDataRoots(),
+            autoDetectDataRoots: SettingsManager.getAutoDetectDataRoots()
+        });
+        const projects = calculateProjectUsage(parsedData.records).map(usage => ({
+            project: usage.project,
+            requestCount: usage.requestCount
+        }));
+
+        const request = await promptExportRequest(projects);
+        if (!request) {
+            return;
         }
 
-        // Prepare template data
-        const templateData: TemplateData = {
-            currentUsage: usageDetails,
-            usageLevel: status.usageLevel,
-            baselineConfidence: status.baselineConfidence,
-            resetTime: timeDetails['Reset Time'],
-            timeUntilReset: timeDetails['Time Until Reset'],
-            consumptionRate: timeDetails['Tokens Per Minute'],
-            burnRate: timeDetails['Burn Rate'],
-            topModel: timeDetails['Top Model'],
-            estimatedHighUsage: timeDetails['Estimated High Usage'],
-            estimatedDepletion: timeDetails['Estimated Depletion'],
-            statusClass: status.isCriticalUsage ? 'critical' : status.isHighUsage ? 'warning' : '',
-            statusEmoji,
-            statusText
-        };
-
-        const htmlContent = TemplateService.renderUsageDetails(templateData, extensionPath);
-
-        detailsPanel.webview.html = htmlContent;
+        const table = createExportTable(parsedData.records, request.dataset, request.filter, {
+            windowing: SettingsManager.getWindowingOptions(),
+            tokenWeights: SettingsManager.getTokenWeights(),
+            pricingTable: SettingsManager.getPricingTable()
+        });
+        await writeExport(table, request.format, request.target);
     } catch (error) {
-        console.error('Error showing usage details:', error);
-        vscode.window.showErrorMessage('Failed to display usage details');
+        console.error('Error exporting usage data:', error);
+        vscode.window.showErrorMessage('Failed to export usage data');
     }
 }
 
 /**
- * Starts periodic status bar updates every 60 seconds.
+ * Starts (or restarts) watching Claude Code data files for changes.
+ * Falls back to slow polling where file-system events are unavailable.
  */
-function startPeriodicUpdates() {
-    updateTimer = setInterval(updateStatusBar, 60000);
+function startDataWatcher() {
+    dataWatcher?.dispose();
+    const roots = resolveClaudeDataRoots(SettingsManager.getDataRoots(), SettingsManager.getAutoDetectDataRoots());
+    dataWatcher = new UsageDataWatcher(roots.map(root => root.path), updateStatusBar, {
+        ...DEFAULT_WATCHER_OPTIONS,
+        fallbackIntervalMs: SettingsManager.getFallbackPollingInterval() * 1000
+    });
+    dataWatcher.start();
 }
 
 /**
  * Deactivates the extension and cleans up resources.
  */
 export function deactivate() {
-    if (updateTimer) {
-        clearInterval(updateTimer);
-    }
-    statusBarItem?.dispose();
-    detailsPanel?.dispose();
+    dataWatcher?.dispose();
+    DashboardPanel.close();
+    ReportPanel.close();
+    BranchUsagePanel.close();
+    TranscriptPanel.close();
+    ToolUsagePanel.close();
 }
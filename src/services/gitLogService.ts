@@ -0,0 +1,61 @@
+/**
+ * Git Log Service - Service Layer
+ * @module GitLogService
+ */
+
+import { execFile } from 'child_process';
+import { GitCommit } from '../core/branchUsage';
+
+/** Longest a single `git log` call may take. */
+const GIT_TIMEOUT_MS = 10_000;
+
+/** Largest `git log` output accepted. */
+const GIT_MAX_BUFFER_BYTES = 4 * 1024 * 1024;
+
+/** Reads commits from local repositories with the `git` executable. */
+export class GitLogService {
+
+    /**
+     * Reads the commits of a branch since a point in time, following first parents
+     * so commits merged in from other branches are not counted.
+     * @param cwd Directory inside the repository
+     * @param branch Branch name
+     * @param since Earliest committer time to include
+     * @returns Commits, oldest first, or undefined when git, the repository or the branch is unavailable
+     */
+    static readBranchCommits(cwd: string, branch: string, since: Date): Promise<GitCommit[] | undefined> {
+        const args = [
+            '-C', cwd, 'log', '--first-parent', `--since=${since.toISOString()}`,
+            // Branch names come from transcripts; one starting with "-" must not be read as an option
+            '--format=%H%x09%ct%x09%s', '--end-of-options', branch, '--'
+        ];
+        return new Promise(resolve => {
+            execFile('git', args, { timeout: GIT_TIMEOUT_MS, maxBuffer: GIT_MAX_BUFFER_BYTES }, (error, stdout) => {
+                if (error) {
+                    console.warn(`git log failed for ${branch} in ${cwd}:`, error.message);
+                    resolve(undefined);
+                    return;
+                }
+                resolve(GitLogService.parseLog(stdout));
+            });
+        });
+    }
+
+    /**
+     * Parses `git log --format=%H%x09%ct%x09%s` output.
+     * @param output Log output, newest first
+     * @returns Commits, oldest first
+     */
+    static parseLog(output: string): GitCommit[] {
+        return output
+            .split('\n')
+            .map(line => line.split('\t'))
+            .filter(fields => fields.length >= 3 && /^[0-9a-f]+$/.test(fields[0]))
+            .map(([hash, time, ...subject]) => ({
+                hash,
+                time: new Date(Number(time) * 1000),
+                subject: subject.join('\t')
+            }))
+            .reverse();
+    }
+}
@@ -3,42 +3,140 @@
  * @module RateLimitEstimationService
  */
 
-import { ClaudeUsageRecord } from '../types';
+import { ClaudeUsageRecord, RateLimitEvent } from '../types';
 import { UsageBaseline } from '../core/usageBaselineCalculator';
-import { detectRateLimit } from '../core/rateLimitDetector';
+import { detectRateLimit, LIMIT_EVENT_DETECTION_METHOD, RateLimitDetection } from '../core/rateLimitDetector';
+import { WindowingOptions, DEFAULT_WINDOWING_OPTIONS } from '../core/sessionWindowing';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS, getWeightScale } from '../core/tokenAccounting';
+import { PlanProfile } from '../core/planProfiles';
+
+/** Lowest statistical estimate in raw input + output tokens. */
+const MINIMUM_STATISTICAL_LIMIT = 25_000;
+
+/** Largest relative deviation at which history is considered to confirm the plan profile. */
+const PLAN_AGREEMENT_TOLERANCE = 0.25;
+
+/** Where an estimate came from. */
+export type RateLimitSource = 'custom' | 'limit_events' | 'plan' | 'history' | 'statistical';
+
+/** Rate limit estimate together with the reasoning behind it. */
+export interface RateLimitEstimate {
+    /** Estimated limit in tokens */
+    limit: number;
+    /** Source that won */
+    source: RateLimitSource;
+    /** Human-readable explanation of why this source was chosen */
+    reason: string;
+    /** Plan limit rescaled to the token accounting model, if a plan with a limit is selected */
+    planLimit?: number;
+    /** History-based detection that was considered */
+    detection: RateLimitDetection;
+}
 
 /** Service for estimating rate limits using multiple detection methods. */
 export class RateLimitEstimationService {
-    
+
     /**
-     * Estimates Rate Limit using hybrid approach.
+     * Estimates the Rate Limit and explains which source won.
+     *
+     * **Priority:**
+     * 1. User-configured custom limit
+     * 2. Observed limit-reached events (exact)
+     * 3. Selected plan profile, unless confident history agrees closely enough to refine it
+     * 4. History-based detection with a safety margin
+     * 5. Statistical fallback
+     *
      * @param baseline Statistical baseline from user's history
      * @param records Historical usage records for limit detection
      * @param customLimit Optional user-configured limit from VSCode settings
-     * @returns Estimated Rate Limit in tokens
+     * @param windowing Window length and gap rule shared with the block calculator
+     * @param weights Token accounting weights
+     * @param limitEvents Explicit limit-reached events, used as ground truth
+     * @param plan Selected subscription plan profile
+     * @returns Estimate with source and reason
      */
-    static calculateRateLimitEstimate(
-        baseline: UsageBaseline, 
+    static estimateRateLimit(
+        baseline: UsageBaseline,
         records: ClaudeUsageRecord[],
-        customLimit?: number
-    ): number {
+        customLimit?: number,
+        windowing: WindowingOptions = DEFAULT_WINDOWING_OPTIONS,
+        weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+        limitEvents: RateLimitEvent[] = [],
+        plan?: PlanProfile
+    ): RateLimitEstimate {
+        const detection = detectRateLimit(records, windowing, weights, limitEvents);
+        const scale = getWeightScale(records, weights);
+        const planLimit = plan?.sessionLimit ? Math.round(plan.sessionLimit * scale) : undefined;
+
         if (customLimit && customLimit > 0) {
-            return customLimit;
+            return {
+                limit: customLimit,
+                source: 'custom',
+                reason: `User-configured limit of ${customLimit.toLocaleString()} tokens overrides plan and history`,
+                planLimit,
+                detection
+            };
         }
 
-        const detection = detectRateLimit(records);
-        if (detection.detectedLimit && detection.confidence !== 'low' && detection.sampleCount >= 3) {
-            let safetyMargin: number;
-            
-            if (detection.sampleCount >= 5) {
-                safetyMargin = detection.confidence === 'high' ? 0.95 : 0.92;
-            } else if (detection.sampleCount >= 3) {
-                safetyMargin = detection.confidence === 'high' ? 0.92 : 0.88;
-            } else {
-                safetyMargin = 0.85;
+        // Observed limit hits are exact; no safety margin needed
+        if (detection.detectionMethod === LIMIT_EVENT_DETECTION_METHOD && detection.detectedLimit) {
+            const events = `${detection.sampleCount} limit-reached event${detection.sampleCount === 1 ? '' : 's'}`;
+            const versusPlan = plan && planLimit
+                ? `; takes precedence over the ${plan.label} profile (${this.formatRateLimitEstimate(planLimit)})`
+                : '';
+            return {
+                limit: detection.detectedLimit,
+                source: 'limit_events',
+                reason: `Observed limit hits: median of ${events}${versusPlan}`,
+                planLimit,
+                detection
+            };
+        }
+
+        const historyLimit = this.getHistoryLimit(detection);
+
+        if (plan && planLimit) {
+            if (historyLimit !== undefined && detection.confidence === 'high') {
+                const deviation = Math.abs(historyLimit - planLimit) / planLimit;
+                if (deviation <= PLAN_AGREEMENT_TOLERANCE) {
+                    return {
+                        limit: historyLimit,
+                        source: 'history',
+                        reason: `History (${detection.sampleCount} likely limit hits) agrees with the ${plan.label} profile ` +
+                            `within ${Math.round(deviation * 100)}%; using the history value`,
+                        planLimit,
+                        detection
+                    };
+                }
+                return {
+                    limit: planLimit,
+                    source: 'plan',
+                    reason: `${plan.label} profile; history suggests ${this.formatRateLimitEstimate(historyLimit)} ` +
+                        `but deviates by ${Math.round(deviation * 100)}%, so the plan is trusted`,
+                    planLimit,
+                    detection
+                };
             }
-            
-            return Math.round(detection.detectedLimit * safetyMargin);
+            return {
+                limit: planLimit,
+                source: 'plan',
+                reason: `${plan.label} profile; history has no confident limit detection yet`,
+                planLimit,
+                detection
+            };
+        }
+
+        const planNote = plan ? ` (${plan.label} plan has no fixed session limit)` : '';
+
+        if (historyLimit !== undefined) {
+            const safetyMargin = this.getSafetyMargin(detection);
+            return {
+                limit: historyLimit,
+                source: 'history',
+                reason: `Historical detection: ${detection.confidence} confidence, ${detection.sampleCount} samples, ` +
+                    `${Math.round(safetyMargin * 100)}% margin${planNote}`,
+                detection
+            };
         }
 
         const statisticalOptions = [
@@ -46,13 +144,40 @@ export class RateLimitEstimationService {
             baseline.criticalUsageThreshold * 0.8,
             baseline.percentile75 * 1.2
         ];
-        
         const improvedStatistical = Math.max(
             Math.max(...statisticalOptions),
-            25_000
+            MINIMUM_STATISTICAL_LIMIT * scale
         );
-        
-        return Math.round(improvedStatistical);
+
+        return {
+            limit: Math.round(improvedStatistical),
+            source: 'statistical',
+            reason: `Statistical fallback: 90th percentile or adjusted critical threshold${planNote}`,
+            detection
+        };
+    }
+
+    /**
+     * Estimates Rate Limit using hybrid approach.
+     * @param baseline Statistical baseline from user's history
+     * @param records Historical usage records for limit detection
+     * @param customLimit Optional user-configured limit from VSCode settings
+     * @param windowing Window length and gap rule shared with the block calculator
+     * @param weights Token accounting weights
+     * @param limitEvents Explicit limit-reached events, used as ground truth
+     * @param plan Selected subscription plan profile
+     * @returns Estimated Rate Limit in tokens
+     */
+    static calculateRateLimitEstimate(
+        baseline: UsageBaseline,
+        records: ClaudeUsageRecord[],
+        customLimit?: number,
+        windowing: WindowingOptions = DEFAULT_WINDOWING_OPTIONS,
+        weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+        limitEvents: RateLimitEvent[] = [],
+        plan?: PlanProfile
+    ): number {
+        return this.estimateRateLimit(baseline, records, customLimit, windowing, weights, limitEvents, plan).limit;
     }
 
     /**
@@ -67,38 +192,47 @@ export class RateLimitEstimationService {
 
     /**
      * Gets detection method description for debugging/logging.
-     * 
+     *
      * @param baseline Statistical baseline
-     * @param records Historical records  
+     * @param records Historical records
      * @param customLimit User configured limit
+     * @param windowing Window length and gap rule shared with the block calculator
+     * @param weights Token accounting weights
+     * @param limitEvents Explicit limit-reached events, used as ground truth
+     * @param plan Selected subscription plan profile
      * @returns Human-readable description of detection method used
      */
     static getDetectionMethodDescription(
         baseline: UsageBaseline,
         records: ClaudeUsageRecord[],
-        customLimit?: number
+        customLimit?: number,
+        windowing: WindowingOptions = DEFAULT_WINDOWING_OPTIONS,
+        weights: TokenWeights = DEFAULT_TOKEN_WEIGHTS,
+        limitEvents: RateLimitEvent[] = [],
+        plan?: PlanProfile
     ): string {
-        if (customLimit && customLimit > 0) {
-            return `User-configured: ${customLimit.toLocaleString()} tokens`;
-        }
+        const estimate = this.estimateRateLimit(baseline, records, customLimit, windowing, weights, limitEvents, plan);
+        return `${this.formatRateLimitEstimate(estimate.limit)} tokens: ${estimate.reason}`;
+    }
 
-        const detection = detectRateLimit(records);
-        if (detection.detectedLimit && detection.confidence !== 'low' && detection.sampleCount >= 3) {
-            const safetyMargin = detection.sampleCount >= 5 
-                ? (detection.confidence === 'high' ? 0.95 : 0.92)
-                : (detection.confidence === 'high' ? 0.92 : 0.88);
-            const adjustedLimit = Math.round(detection.detectedLimit * safetyMargin);
-            const limitK = Math.round(adjustedLimit / 1000);
-            return `Historical detection: ~${limitK}K tokens (${detection.confidence} confidence, ${detection.sampleCount} samples, ${Math.round(safetyMargin * 100)}% margin)`;
+    /**
+     * Applies the safety margin to a usable history-based detection.
+     * @returns Adjusted limit, or undefined if the detection is not usable
+     */
+    private static getHistoryLimit(detection: RateLimitDetection): number | undefined {
+        if (!detection.detectedLimit || detection.confidence === 'low' || detection.sampleCount < 3) {
+            return undefined;
         }
+        return Math.round(detection.detectedLimit * this.getSafetyMargin(detection));
+    }
 
-        const statisticalOptions = [
-            baseline.percentile90,
-            baseline.criticalUsageThreshold * 0.8,
-            baseline.percentile75 * 1.2
-        ];
-        const improvedStatistical = Math.max(Math.max(...statisticalOptions), 25_000);
-        const fallbackK = Math.round(improvedStatistical / 1000);
-        return `Statistical fallback: ~${fallbackK}K tokens (90th percentile or adjusted critical threshold)`;
+    /** Safety margin for guessed limits, tighter with more samples and higher confidence. */
+    private static getSafetyMargin(detection: RateLimitDetection): number {
+        if (detection.sampleCount >= 5) {
+            return detection.confidence === 'high' ? 0.95 : 0.92;
+        } else if (detection.sampleCount >= 3) {
+            return detection.confidence === 'high' ? 0.92 : 0.88;
+        }
+        return 0.85;
     }
-}
\ No newline at end of file
+}
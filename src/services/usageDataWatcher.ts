@@ -0,0 +1,119 @@
+/**
+ * Usage Data Watcher - Service Layer
+ *
+ * Watches the Claude Code data roots for new or appended `.jsonl` files
+ * and triggers a debounced refresh. A slow polling timer runs alongside the
+ * watcher as a fallback for network or otherwise unsupported file systems.
+ *
+ * @module UsageDataWatcher
+ */
+
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+
+/** Timing options for change notifications. */
+export interface UsageDataWatcherOptions {
+    /** Quiet period after the last change before refreshing */
+    debounceMs: number;
+    /** Upper bound on how long a continuous burst can postpone a refresh */
+    maxWaitMs: number;
+    /** Interval of the polling fallback */
+    fallbackIntervalMs: number;
+}
+
+/** Default timings: refresh a few seconds after Claude Code writes a message. */
+export const DEFAULT_WATCHER_OPTIONS: UsageDataWatcherOptions = {
+    debounceMs: 2000,
+    maxWaitMs: 10000,
+    fallbackIntervalMs: 5 * 60 * 1000
+};
+
+/** Watches Claude Code data files and invokes a callback after changes settle. */
+export class UsageDataWatcher implements vscode.Disposable {
+    private readonly fileWatchers = new Map<string, vscode.FileSystemWatcher>();
+    private fallbackTimer: NodeJS.Timeout | undefined;
+    private debounceTimer: NodeJS.Timeout | undefined;
+    private burstStartedAt: number | undefined;
+
+    /**
+     * @param directories Claude Code data roots to watch
+     * @param onChange Callback invoked once changes have settled
+     * @param options Debounce and fallback timings
+     */
+    constructor(
+        private readonly directories: string[],
+        private readonly onChange: () => void,
+        private readonly options: UsageDataWatcherOptions = DEFAULT_WATCHER_OPTIONS
+    ) {}
+
+    /**
+     * Starts the file-system watchers and the polling fallback.
+     */
+    start(): void {
+        this.tryStartFileWatchers();
+        this.fallbackTimer = setInterval(() => {
+            // Directories may appear after activation when Claude Code is used for the first time
+            this.tryStartFileWatchers();
+            this.onChange();
+        }, this.options.fallbackIntervalMs);
+    }
+
+    /**
+     * Stops all watchers and pending timers.
+     */
+    dispose(): void {
+        this.fileWatchers.forEach(watcher => watcher.dispose());
+        this.fileWatchers.clear();
+
+        if (this.fallbackTimer) {
+            clearInterval(this.fallbackTimer);
+            this.fallbackTimer = undefined;
+        }
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = undefined;
+        }
+        this.burstStartedAt = undefined;
+    }
+
+    /** Creates a file-system watcher for each directory once it exists. */
+    private tryStartFileWatchers(): void {
+        for (const directory of this.directories) {
+            if (this.fileWatchers.has(directory) || !fs.existsSync(directory)) {
+                continue;
+            }
+
+            try {
+                const pattern = new vscode.RelativePattern(vscode.Uri.file(directory), '**/*.jsonl');
+                const watcher = vscode.workspace.createFileSystemWatcher(pattern, false, false, false);
+                watcher.onDidCreate(() => this.scheduleChange());
+                watcher.onDidChange(() => this.scheduleChange());
+                watcher.onDidDelete(() => this.scheduleChange());
+                this.fileWatchers.set(directory, watcher);
+            } catch (error) {
+                console.warn(`Failed to watch ${directory}, relying on polling:`, error);
+            }
+        }
+    }
+
+    /** Debounces bursts of change events, capped by the maximum wait. */
+    private scheduleChange(): void {
+        const now = Date.now();
+        if (this.burstStartedAt === undefined) {
+            this.burstStartedAt = now;
+        }
+
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+
+        const remainingWait = this.options.maxWaitMs - (now - this.burstStartedAt);
+        const delay = Math.max(0, Math.min(this.options.debounceMs, remainingWait));
+
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = undefined;
+            this.burstStartedAt = undefined;
+            this.onChange();
+        }, delay);
+    }
+}
@@ -3,58 +3,288 @@
  * @module UsageMonitorFacade
  */
 
-import { UsageStatus, MultiSessionBlock } from '../types';
-import { createMultiSessionBlock } from '../core/blockCalculator';
+import { UsageStatus, MultiSessionBlock, ParsedUsageData, BlockSummary, SessionGap, SessionWindow } from '../types';
+import { createMultiSessionBlock, summarizeSessionBlocks } from '../core/blockCalculator';
 import { parseAllUsageData } from '../core/claudeDataParser';
+import { UsageIngestionCache } from '../core/usageIngestion';
+import { resolveClaudeDataRoots } from '../core/projectManager';
 import {
     calculateUsageBaseline,
     formatBaselineDescription,
     getUsageLevel,
     calculateUsagePercentageWithLimit
 } from '../core/usageBaselineCalculator';
-import { RateLimitEstimationService } from './rateLimitEstimationService';
+import { RateLimitEstimationService, RateLimitEstimate } from './rateLimitEstimationService';
 import { calculateBurnRate } from '../core/burnRateCalculator';
 import { formatTimeUntilReset } from '../utils/timeUtils';
+import { calculateProjectUsage, calculateWorkspaceUsage } from '../core/projectUsageCalculator';
+import { WindowingOptions, DEFAULT_WINDOWING_OPTIONS } from '../core/sessionWindowing';
+import { TokenWeights, DEFAULT_TOKEN_WEIGHTS } from '../core/tokenAccounting';
+import { PricingEntry, PRICING_HISTORY } from '../core/modelPricing';
+import { PlanProfile } from '../core/planProfiles';
+import { QuotaWindowDefinition, DEFAULT_QUOTA_WINDOWS, evaluateQuotaWindows } from '../core/quotaWindows';
+import { BudgetDefinition, DEFAULT_BUDGET_WARNING_PERCENTAGE, evaluateBudgets } from '../core/usageBudgets';
+import { ReportPeriod, UsageReport, generateUsageReport } from '../core/usageReports';
+import { BranchUsageReport, calculateBranchUsage, attributeToCommits } from '../core/branchUsage';
+import { GitLogService } from './gitLogService';
+
+/** Branches whose git log is read, most expensive first. */
+const MAX_GIT_LOG_BRANCHES = 25;
+
+/** `git log` calls run at the same time. */
+const GIT_LOG_CONCURRENCY = 4;
 
 /** Result interface for usage status operations. */
 export interface UsageStatusResult {
     status: UsageStatus;
-    parsedData: any;
+    parsedData: ParsedUsageData;
     rateLimitEstimate: number;
+    /** Which source the rate limit came from and why */
+    rateLimitExplanation: RateLimitEstimate;
     baseline: any;
+    /** Every 5-hour block, newest first */
+    blockHistory: BlockSummary[];
+    /** Idle periods between blocks, oldest first */
+    blockGaps: SessionGap[];
+    /** Block the status describes (the most restrictive active block); empty and inactive while idle */
+    activeBlock: SessionWindow;
+    /** Token accounting weights the figures were computed with */
+    tokenWeights: TokenWeights;
+    /** Model prices the cost estimates were computed with */
+    pricingTable: PricingEntry[];
+    /** Window length and gap rule the blocks were computed with */
+    windowing: WindowingOptions;
+}
+
+/** Receives every recomputed usage status (null when no block was found). */
+export type UsageStatusListener = (result: UsageStatusResult | null) => void;
+
+/** Inputs taken from user settings for a usage computation. */
+export interface UsageMonitorOptions {
+    /** User-configured rate limit */
+    customLimit?: number | null;
+    /** Additional data roots from settings */
+    dataRoots?: string[];
+    /** Whether common data root locations are detected automatically */
+    autoDetectDataRoots?: boolean;
+    /** Open workspace folders, used to isolate the workspace's share of the block */
+    workspaceFolders?: string[];
+    /** Window length and gap rule applied to blocks, baseline and detection alike */
+    windowing?: WindowingOptions;
+    /** How token types are combined into the tracked token total */
+    tokenWeights?: TokenWeights;
+    /** Model prices for cost estimates, including user overrides */
+    pricingTable?: PricingEntry[];
+    /** Selected subscription plan, combined with history-based detection */
+    plan?: PlanProfile;
+    /** Quota windows evaluated alongside the 5-hour block */
+    quotaWindows?: QuotaWindowDefinition[];
+    /** Cost budgets evaluated against the full history */
+    budgets?: BudgetDefinition[];
+    /** Budget spend percentage from which a budget is nearly spent */
+    budgetWarningPercentage?: number;
 }
 
 /** Facade service that orchestrates usage monitoring operations. */
 export class UsageMonitorFacade {
+    /** Keeps per-file offsets so each refresh only parses newly appended lines. */
+    private readonly ingestionCache = new UsageIngestionCache();
+    private readonly listeners = new Set<UsageStatusListener>();
 
     /**
-     * Gets complete usage status with all analysis data.
-     * @param customLimit Optional user-configured rate limit
+     * Subscribes to recomputed usage status.
+     * @param listener Called after every {@link getUsageStatus} run
+     * @returns Handle that removes the listener again
+     */
+    onDidUpdate(listener: UsageStatusListener): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    /**
+     * Gets complete usage status and notifies listeners of the result.
+     * Without an active block the result describes an empty block, so quota
+     * windows stay available while idle.
+     * @param options Settings-derived inputs such as the custom limit and data roots
      * @returns Complete usage analysis result or null if no data
      */
-    async getUsageStatus(customLimit?: number | null): Promise<UsageStatusResult | null> {
-        const parsedData = await parseAllUsageData();
-        const multiSessionBlock = createMultiSessionBlock(parsedData.records, new Date(), parsedData.error);
+    async getUsageStatus(options: UsageMonitorOptions = {}): Promise<UsageStatusResult | null> {
+        const result = await this.computeUsageStatus(options);
+        this.listeners.forEach(listener => {
+            try {
+                listener(result);
+            } catch (error) {
+                console.error('Usage status listener failed:', error);
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Reads all usage data from the configured data roots.
+     * @param options Settings-derived inputs; only the data roots are used
+     * @returns De-duplicated records and limit events
+     */
+    async loadUsageData(options: UsageMonitorOptions = {}): Promise<ParsedUsageData> {
+        const roots = resolveClaudeDataRoots(options.dataRoots, options.autoDetectDataRoots ?? true);
+        return parseAllUsageData(this.ingestionCache, roots);
+    }
+
+    /**
+     * Aggregates the full usage history into calendar periods.
+     * Unlike {@link getUsageStatus} this works without an active block.
+     * @param period Report granularity
+     * @param options Settings-derived inputs; data roots, token weights and pricing are used
+     * @returns Usage report, newest period first
+     */
+    async getUsageReport(period: ReportPeriod, options: UsageMonitorOptions = {}): Promise<UsageReport> {
+        const parsedData = await this.loadUsageData(options);
+        return generateUsageReport(
+            parsedData.records,
+            period,
+            options.tokenWeights ?? DEFAULT_TOKEN_WEIGHTS,
+            options.pricingTable ?? PRICING_HISTORY
+        );
+    }
+
+    /**
+     * Aggregates the full usage history per working directory and git branch.
+     * @param includeCommits Whether to split the most expensive branches into commit ranges with `git log`
+     * @param options Settings-derived inputs; data roots, token weights and pricing are used
+     * @returns Per-branch usage, most expensive first
+     */
+    async getBranchUsage(includeCommits: boolean, options: UsageMonitorOptions = {}): Promise<BranchUsageReport> {
+        const parsedData = await this.loadUsageData(options);
+        const tokenWeights = options.tokenWeights ?? DEFAULT_TOKEN_WEIGHTS;
+        const pricingTable = options.pricingTable ?? PRICING_HISTORY;
+        const report = calculateBranchUsage(parsedData.records, tokenWeights, pricingTable);
+
+        if (includeCommits) {
+            const pending = report.branches.slice(0, MAX_GIT_LOG_BRANCHES);
+            const readNext = async (): Promise<void> => {
+                for (let branch = pending.shift(); branch; branch = pending.shift()) {
+                    const commits = await GitLogService.readBranchCommits(branch.repository, branch.branch, branch.firstActivity);
+                    if (commits) {
+                        branch.commitRanges = attributeToCommits(branch.records, commits, tokenWeights, pricingTable);
+                    }
+                }
+            };
+            await Promise.all(Array.from({ length: GIT_LOG_CONCURRENCY }, readNext));
+        }
+        return report;
+    }
+
+    /**
+     * Computes complete usage status with all analysis data.
+     * @param options Settings-derived inputs such as the custom limit and data roots
+     * @returns Complete usage analysis result or null if no data
+     */
+    private async computeUsageStatus(options: UsageMonitorOptions = {}): Promise<UsageStatusResult | null> {
+        const { customLimit } = options;
+        const windowing = options.windowing ?? DEFAULT_WINDOWING_OPTIONS;
+        const tokenWeights = options.tokenWeights ?? DEFAULT_TOKEN_WEIGHTS;
+        const pricingTable = options.pricingTable ?? PRICING_HISTORY;
+        const roots = resolveClaudeDataRoots(options.dataRoots, options.autoDetectDataRoots ?? true);
+        const parsedData = await parseAllUsageData(this.ingestionCache, roots);
+        const multiSessionBlock = createMultiSessionBlock(
+            parsedData.records,
+            new Date(),
+            parsedData.error,
+            windowing,
+            tokenWeights
+        );
 
         if (!multiSessionBlock) {
             return null;
         }
 
-        const baseline = calculateUsageBaseline(parsedData.records);
-        const rateLimitEstimate = RateLimitEstimationService.calculateRateLimitEstimate(baseline, parsedData.records, customLimit || undefined);
+        const baseline = calculateUsageBaseline(
+            parsedData.records,
+            multiSessionBlock.mostRestrictiveSession.sessionId,
+            windowing,
+            tokenWeights
+        );
+        const rateLimitExplanation = RateLimitEstimationService.estimateRateLimit(
+            baseline,
+            parsedData.records,
+            customLimit || undefined,
+            windowing,
+            tokenWeights,
+            parsedData.limitEvents,
+            options.plan
+        );
+        const rateLimitEstimate = rateLimitExplanation.limit;
+
+        const quotaWindows = evaluateQuotaWindows(
+            parsedData.records,
+            new Date(),
+            options.quotaWindows ?? DEFAULT_QUOTA_WINDOWS,
+            rateLimitEstimate,
+            parsedData.limitEvents,
+            windowing,
+            tokenWeights
+        );
+
+        const budgets = evaluateBudgets(
+            parsedData.records,
+            options.budgets ?? [],
+            new Date(),
+            options.budgetWarningPercentage ?? DEFAULT_BUDGET_WARNING_PERCENTAGE,
+            pricingTable
+        );
+
+        const status = {
+            ...await this.createUsageStatus(
+                multiSessionBlock,
+                parsedData,
+                rateLimitEstimate,
+                baseline,
+                options.workspaceFolders ?? [],
+                tokenWeights,
+                pricingTable
+            ),
+            quotaWindows,
+            budgets
+        };
 
-        const status = await this.createUsageStatus(multiSessionBlock, parsedData, rateLimitEstimate, baseline);
+        const blockHistory = summarizeSessionBlocks(
+            multiSessionBlock.allSessions,
+            rateLimitEstimate,
+            tokenWeights,
+            parsedData.limitEvents
+        );
+        const blockGaps = multiSessionBlock.gaps;
+        const activeBlock = multiSessionBlock.mostRestrictiveSession;
 
         if (multiSessionBlock.error) {
             return {
                 status: { ...status, error: multiSessionBlock.error },
                 parsedData,
                 rateLimitEstimate,
-                baseline
+                rateLimitExplanation,
+                baseline,
+                blockHistory,
+                blockGaps,
+                activeBlock,
+                tokenWeights,
+                pricingTable,
+                windowing
             };
         }
 
-        return { status, parsedData, rateLimitEstimate, baseline };
+        return {
+            status,
+            parsedData,
+            rateLimitEstimate,
+            rateLimitExplanation,
+            baseline,
+            blockHistory,
+            blockGaps,
+            activeBlock,
+            tokenWeights,
+            pricingTable,
+            windowing
+        };
     }
 
     /**
@@ -63,13 +293,19 @@ export class UsageMonitorFacade {
      * @param parsedData Raw parsed usage data
      * @param rateLimitEstimate Calculated rate limit
      * @param baseline Statistical baseline analysis
+     * @param workspaceFolders Open workspace folders for workspace attribution
+     * @param tokenWeights Token accounting weights
+     * @param pricingTable Model prices for cost estimates
      * @returns Complete usage status with predictions
      */
     private async createUsageStatus(
         multiSessionBlock: MultiSessionBlock,
         parsedData: any,
         rateLimitEstimate: number,
-        baseline: any
+        baseline: any,
+        workspaceFolders: string[],
+        tokenWeights: TokenWeights,
+        pricingTable: PricingEntry[]
     ): Promise<UsageStatus> {
         const session = multiSessionBlock.mostRestrictiveSession;
         const currentUsage = session.totalTokens;
@@ -89,7 +325,10 @@ export class UsageMonitorFacade {
             new Date(),
             currentUsage,
             baseline.highUsageThreshold,
-            baseline.averageUsage
+            baseline.averageUsage,
+            tokenWeights,
+            pricingTable,
+            rateLimitEstimate
         );
 
         const legacyConsumptionRate = this.calculateLegacyConsumptionRate(session, currentUsage, new Date());
@@ -102,6 +341,9 @@ export class UsageMonitorFacade {
             resetTime
         );
 
+        const projectUsage = calculateProjectUsage(session.records, tokenWeights);
+        const workspaceUsage = calculateWorkspaceUsage(projectUsage, workspaceFolders, rateLimitEstimate);
+
         return {
             currentUsage,
             usageBaseline: baseline.highUsageThreshold,
@@ -117,7 +359,9 @@ export class UsageMonitorFacade {
             usageLevel,
             baselineConfidence: baseline.confidence,
             burnRate,
-            currentModel: session.mostUsedModel
+            currentModel: session.mostUsedModel,
+            projectUsage,
+            workspaceUsage
         };
     }
 
@@ -0,0 +1,138 @@
+/**
+ * Usage Notifier - Service Layer
+ *
+ * Shows usage alerts as VS Code notifications. Each alert fires at most once
+ * per block, and each budget alert at most once per budget period; the fired
+ * sets and any snooze are kept in `globalState` so they survive window reloads
+ * and are shared between windows.
+ *
+ * @module UsageNotifier
+ */
+
+import * as vscode from 'vscode';
+import { UsageStatusResult } from './usageMonitorFacade';
+import { BudgetStatus } from '../types';
+import { NotificationSettings, UsageAlert, evaluateUsageAlerts, evaluateBudgetAlerts, isWithinQuietHours } from '../core/usageAlerts';
+
+/** Persisted de-duplication state. */
+interface NotificationState {
+    /** Block the fired alerts belong to */
+    blockId: string;
+    /** Ids of alerts already shown (or passed over) in this block */
+    fired: string[];
+    /** Ids of budget alerts already shown (or passed over); kept across blocks until their period ends */
+    firedBudgetAlerts?: string[];
+    /** Epoch milliseconds until which alerts are held back */
+    snoozedUntil?: number;
+}
+
+const STATE_KEY = 'claude-code-usage.notificationState';
+
+const SNOOZE_ACTION = 'Snooze';
+const DISMISS_ACTION = 'Dismiss';
+const OPEN_DETAILS_ACTION = 'Open Details';
+
+const SEVERITY_ORDER: UsageAlert['severity'][] = ['critical', 'warning', 'info'];
+
+/** Whether a fired budget alert belongs to the current period of a configured budget. */
+const isCurrentBudgetAlert = (id: string, budgets: BudgetStatus[]): boolean =>
+    budgets.some(budget => id.startsWith(`budget:${budget.id}:${budget.periodKey}:`));
+
+/** Turns recomputed usage into de-duplicated notifications. */
+export class UsageNotifier {
+    /**
+     * @param globalState Extension global state used to persist fired alerts and snoozes
+     * @param openDetails Opens the usage details view
+     */
+    constructor(
+        private readonly globalState: vscode.Memento,
+        private readonly openDetails: () => void
+    ) {}
+
+    /**
+     * Shows the most important alert that has not fired in the current block
+     * or budget period. Lower thresholds and lower levels of the same budget
+     * passed at the same time are marked as fired without a notification of
+     * their own. Nothing is shown during quiet hours or a snooze; pending alerts
+     * fire afterwards if they still apply. Block alerts need an active block;
+     * budget alerts also fire while idle.
+     *
+     * @param result Latest usage status
+     * @param settings Notification preferences
+     * @param currentTime Reference time
+     */
+    async process(result: UsageStatusResult | null, settings: NotificationSettings, currentTime: Date = new Date()): Promise<void> {
+        if (!settings.enabled || !result || result.status.error) {
+            return;
+        }
+
+        const isActive = result.activeBlock.isActive;
+        const budgets = result.status.budgets ?? [];
+        const stored = this.globalState.get<NotificationState>(STATE_KEY);
+        // While idle the last block's fired alerts and snooze stay in place
+        const blockId = isActive ? result.activeBlock.sessionId : stored?.blockId ?? result.activeBlock.sessionId;
+        const storedBudgetAlerts = stored?.firedBudgetAlerts ?? [];
+        const firedBudgetAlerts = storedBudgetAlerts.filter(id => isCurrentBudgetAlert(id, budgets));
+        const state: NotificationState = stored && stored.blockId === blockId
+            ? { ...stored, firedBudgetAlerts }
+            : { blockId, fired: [], firedBudgetAlerts };
+
+        const pending = [
+            ...(isActive ? evaluateUsageAlerts(result.status, settings, currentTime) : []).filter(alert => !state.fired.includes(alert.id)),
+            ...evaluateBudgetAlerts(budgets).filter(alert => !firedBudgetAlerts.includes(alert.id))
+        ].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+        if (pending.length === 0 ||
+            isWithinQuietHours(currentTime, settings.quietHours) ||
+            (state.snoozedUntil !== undefined && state.snoozedUntil > currentTime.getTime())) {
+            if (state.blockId !== stored?.blockId || firedBudgetAlerts.length !== storedBudgetAlerts.length) {
+                await this.globalState.update(STATE_KEY, state);
+            }
+            return;
+        }
+
+        const alert = pending[0];
+        const passedOver = pending
+            .filter(other => alert.kind === 'budget'
+                ? other.kind === 'budget' && other.budgetId === alert.budgetId && other !== alert
+                : other.kind === 'threshold' && alert.kind === 'threshold' && other.threshold! < alert.threshold!)
+            .map(other => other.id);
+        const newlyFired = [alert.id, ...passedOver];
+
+        const updated: NotificationState = {
+            blockId,
+            fired: [...state.fired, ...newlyFired.filter(id => !id.startsWith('budget:'))],
+            firedBudgetAlerts: [...firedBudgetAlerts, ...newlyFired.filter(id => id.startsWith('budget:'))]
+        };
+        await this.globalState.update(STATE_KEY, updated);
+
+        void this.show(alert, blockId, settings.snoozeMinutes);
+    }
+
+    /** Shows a notification and applies the chosen action. */
+    private async show(alert: UsageAlert, blockId: string, snoozeMinutes: number): Promise<void> {
+        const show = alert.severity === 'critical'
+            ? vscode.window.showErrorMessage
+            : alert.severity === 'warning'
+                ? vscode.window.showWarningMessage
+                : vscode.window.showInformationMessage;
+
+        const choice = await show(alert.message, SNOOZE_ACTION, DISMISS_ACTION, OPEN_DETAILS_ACTION);
+
+        if (choice === SNOOZE_ACTION) {
+            const state = this.globalState.get<NotificationState>(STATE_KEY);
+            if (state?.blockId === blockId) {
+                // Let the alert fire again once the snooze ends
+                const snoozed: NotificationState = {
+                    ...state,
+                    fired: state.fired.filter(id => id !== alert.id),
+                    firedBudgetAlerts: state.firedBudgetAlerts?.filter(id => id !== alert.id),
+                    snoozedUntil: Date.now() + snoozeMinutes * 60 * 1000
+                };
+                await this.globalState.update(STATE_KEY, snoozed);
+            }
+        } else if (choice === OPEN_DETAILS_ACTION) {
+            this.openDetails();
+        }
+    }
+}
@@ -0,0 +1,156 @@
+// Branch usage webview script. Message shapes mirror src/ui/branchUsageProtocol.ts.
+// Runs under a strict CSP: no inline handlers, no innerHTML.
+(function () {
+    'use strict';
+
+    const vscode = acquireVsCodeApi();
+
+    const COLUMNS = [
+        { key: 'branch', label: 'Branch', numeric: false },
+        { key: 'repository', label: 'Directory', numeric: false },
+        { key: 'requests', label: 'Requests', numeric: true },
+        { key: 'totalTokens', label: 'Tokens', numeric: true },
+        { key: 'cost', label: 'Cost', numeric: true },
+        { key: 'lastActivity', label: 'Last Activity', numeric: true, date: true }
+    ];
+
+    const state = Object.assign({ includeCommits: false, sortKey: 'cost', descending: true }, vscode.getState());
+    let data;
+
+    const byId = (id) => document.getElementById(id);
+
+    const htmlElement = (name, className, text) => {
+        const element = document.createElement(name);
+        if (className) {
+            element.className = className;
+        }
+        if (text !== undefined) {
+            element.textContent = text;
+        }
+        return element;
+    };
+
+    const formatCell = (column, value) => {
+        if (column.key === 'cost') {
+            return '$' + value.toFixed(2);
+        }
+        if (column.date) {
+            return value ? new Date(value).toLocaleString(undefined, { hour12: false }) : '';
+        }
+        return column.numeric ? value.toLocaleString() : value;
+    };
+
+    const compareRows = (a, b) => {
+        const left = a[state.sortKey];
+        const right = b[state.sortKey];
+        const order = typeof left === 'number' ? left - right : String(left).localeCompare(String(right));
+        return state.descending ? -order : order;
+    };
+
+    const saveState = () => vscode.setState({ includeCommits: state.includeCommits, sortKey: state.sortKey, descending: state.descending });
+
+    const load = () => vscode.postMessage({ type: 'load', includeCommits: state.includeCommits });
+
+    const renderRow = (row, className) => {
+        const tr = htmlElement('tr', className);
+        COLUMNS.forEach((column) => tr.appendChild(htmlElement('td', column.numeric ? 'number' : '', formatCell(column, row[column.key]))));
+        const actions = tr.appendChild(htmlElement('td'));
+        if (row.summary) {
+            const copy = actions.appendChild(htmlElement('button', '', 'Copy'));
+            copy.title = 'Copy a Markdown summary for a pull request';
+            copy.addEventListener('click', () => vscode.postMessage({ type: 'copy', text: row.summary }));
+        }
+        return tr;
+    };
+
+    const renderCommitRow = (range) => {
+        const tr = htmlElement('tr', 'commit-range');
+        const label = tr.appendChild(htmlElement('td'));
+        label.colSpan = 2;
+        label.appendChild(htmlElement('span', 'badge', range.commit));
+        label.appendChild(document.createTextNode(range.subject));
+        tr.appendChild(htmlElement('td', 'number', range.requests.toLocaleString()));
+        tr.appendChild(htmlElement('td', 'number', range.totalTokens.toLocaleString()));
+        tr.appendChild(htmlElement('td', 'number', '$' + range.cost.toFixed(2)));
+        tr.appendChild(htmlElement('td', 'number', range.time ? new Date(range.time).toLocaleString(undefined, { hour12: false }) : ''));
+        tr.appendChild(htmlElement('td'));
+        return tr;
+    };
+
+    const render = () => {
+        const container = byId('branches');
+        if (!data) {
+            container.replaceChildren();
+            return;
+        }
+
+        byId('updated').textContent = 'Updated ' + new Date(data.generatedAt).toLocaleTimeString();
+        byId('summary').textContent = data.rows.length.toLocaleString() + ' branches · ' +
+            data.untaggedRequests.toLocaleString() + ' requests ($' + data.untaggedCost.toFixed(2) + ') without a git branch';
+
+        const table = htmlElement('table');
+        const head = htmlElement('tr');
+        COLUMNS.forEach((column) => {
+            const th = htmlElement('th', column.numeric ? 'number sortable' : 'sortable', column.label);
+            if (column.key === state.sortKey) {
+                th.classList.add(state.descending ? 'sorted-desc' : 'sorted-asc');
+            }
+            th.addEventListener('click', () => {
+                state.descending = column.key === state.sortKey ? !state.descending : column.numeric;
+                state.sortKey = column.key;
+                saveState();
+                render();
+            });
+            head.appendChild(th);
+        });
+        head.appendChild(htmlElement('th'));
+        table.appendChild(htmlElement('thead')).appendChild(head);
+
+        const body = table.appendChild(htmlElement('tbody'));
+        data.rows.slice().sort(compareRows).forEach((row) => {
+            body.appendChild(renderRow(row));
+            (row.commitRanges || []).forEach((range) => body.appendChild(renderCommitRow(range)));
+            if (data.includeCommits && !row.commitRanges) {
+                const missing = body.appendChild(htmlElement('tr', 'commit-range'));
+                const cell = missing.appendChild(htmlElement('td', 'muted', 'No git log available for this branch.'));
+                cell.colSpan = COLUMNS.length + 1;
+            }
+        });
+        if (data.rows.length === 0) {
+            const empty = body.appendChild(htmlElement('tr'));
+            const cell = empty.appendChild(htmlElement('td', 'muted', 'No usage with a git branch recorded yet.'));
+            cell.colSpan = COLUMNS.length + 1;
+        }
+        table.appendChild(htmlElement('tfoot')).appendChild(renderRow(data.totals, 'totals'));
+
+        container.replaceChildren(table);
+    };
+
+    window.addEventListener('message', (event) => {
+        const message = event.data;
+        if (!message || typeof message !== 'object') {
+            return;
+        }
+        const error = byId('error');
+        if (message.type === 'branchUsage') {
+            error.classList.add('hidden');
+            data = message.data;
+            render();
+        } else if (message.type === 'error') {
+            error.textContent = message.message;
+            error.classList.remove('hidden');
+        }
+    });
+
+    const includeCommits = byId('include-commits');
+    includeCommits.checked = state.includeCommits;
+    includeCommits.addEventListener('change', () => {
+        state.includeCommits = includeCommits.checked;
+        saveState();
+        load();
+    });
+
+    byId('reload').addEventListener('click', load);
+
+    load();
+}());
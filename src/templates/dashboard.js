@@ -0,0 +1,278 @@
+// Dashboard webview script. Message shapes mirror src/ui/dashboardProtocol.ts.
+// Runs under a strict CSP: no inline handlers, no innerHTML, presentation attributes only.
+(function () {
+    'use strict';
+
+    const vscode = acquireVsCodeApi();
+    const SVG_NS = 'http://www.w3.org/2000/svg';
+    const WIDTH = 480;
+    const HEIGHT = 220;
+    const MARGIN = { top: 10, right: 10, bottom: 24, left: 52 };
+    const SERIES_COLORS = 6;
+
+    const byId = (id) => document.getElementById(id);
+
+    const svgElement = (name, attributes) => {
+        const element = document.createElementNS(SVG_NS, name);
+        Object.entries(attributes || {}).forEach(([key, value]) => element.setAttribute(key, String(value)));
+        return element;
+    };
+
+    const htmlElement = (name, className, text) => {
+        const element = document.createElement(name);
+        if (className) {
+            element.className = className;
+        }
+        if (text !== undefined) {
+            element.textContent = text;
+        }
+        return element;
+    };
+
+    const formatTokens = (tokens) => {
+        if (tokens >= 1000000) {
+            return (tokens / 1000000).toFixed(1) + 'M';
+        }
+        if (tokens >= 1000) {
+            return Math.round(tokens / 1000) + 'K';
+        }
+        return String(Math.round(tokens));
+    };
+
+    const formatClock = (time) => new Date(time).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', hour12: false });
+
+    /** Creates an empty chart with axes and returns the scales. */
+    const createChart = (container, xMin, xMax, yMax) => {
+        const svg = svgElement('svg', { viewBox: `0 0 ${WIDTH} ${HEIGHT}`, role: 'img' });
+        const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+        const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+        const safeYMax = yMax > 0 ? yMax : 1;
+        const x = (value) => MARGIN.left + ((value - xMin) / Math.max(1, xMax - xMin)) * plotWidth;
+        const y = (value) => MARGIN.top + plotHeight - (value / safeYMax) * plotHeight;
+
+        svg.appendChild(svgElement('line', { class: 'axis', x1: MARGIN.left, y1: MARGIN.top + plotHeight, x2: WIDTH - MARGIN.right, y2: MARGIN.top + plotHeight }));
+        svg.appendChild(svgElement('line', { class: 'axis', x1: MARGIN.left, y1: MARGIN.top, x2: MARGIN.left, y2: MARGIN.top + plotHeight }));
+
+        [0, 0.5, 1].forEach((fraction) => {
+            const label = svgElement('text', { class: 'axis-label', x: MARGIN.left - 6, y: y(safeYMax * fraction) + 3, 'text-anchor': 'end' });
+            label.textContent = formatTokens(safeYMax * fraction);
+            svg.appendChild(label);
+        });
+
+        [0, 0.25, 0.5, 0.75, 1].forEach((fraction) => {
+            const time = xMin + (xMax - xMin) * fraction;
+            const label = svgElement('text', { class: 'axis-label', x: x(time), y: HEIGHT - 6, 'text-anchor': 'middle' });
+            label.textContent = formatClock(time);
+            svg.appendChild(label);
+        });
+
+        container.replaceChildren(svg);
+        return { svg, x, y };
+    };
+
+    const toPath = (points, x, y) => points
+        .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.time).toFixed(1)},${y(point.value).toFixed(1)}`)
+        .join(' ');
+
+    const addNowLine = (chart, time, yMax) => {
+        chart.svg.appendChild(svgElement('line', { class: 'now-line', x1: chart.x(time), y1: chart.y(yMax), x2: chart.x(time), y2: chart.y(0) }));
+    };
+
+    const renderLegend = (container, entries) => {
+        container.replaceChildren(...entries.map((entry) => {
+            const item = htmlElement('span');
+            item.appendChild(htmlElement('span', 'swatch ' + entry.className));
+            item.appendChild(document.createTextNode(entry.label));
+            return item;
+        }));
+    };
+
+    /** Cumulative tokens of the current block against the limit line. */
+    const renderBlockChart = (data) => {
+        const { block } = data;
+        const now = Math.min(data.generatedAt, block.end);
+        const points = block.cumulative.concat([{ time: now, value: block.cumulative[block.cumulative.length - 1].value }]);
+        const yMax = Math.max(block.limit, points[points.length - 1].value) * 1.1;
+        const chart = createChart(byId('block-chart'), block.start, block.end, yMax);
+
+        chart.svg.appendChild(svgElement('line', { class: 'limit-line', x1: chart.x(block.start), y1: chart.y(block.limit), x2: chart.x(block.end), y2: chart.y(block.limit) }));
+        chart.svg.appendChild(svgElement('path', { class: 'usage-line', d: toPath(points, chart.x, chart.y) }));
+        addNowLine(chart, now, yMax);
+
+        renderLegend(byId('block-legend'), [
+            { className: 'series-0', label: `Used ${formatTokens(points[points.length - 1].value)}` },
+            { className: 'limit', label: `Limit ${formatTokens(block.limit)}` }
+        ]);
+    };
+
+    /** Stacked area of tokens per model and bucket. */
+    const renderModelChart = (data) => {
+        const { models, block } = data;
+        const bucketCount = models.bucketStarts.length;
+        const totals = models.bucketStarts.map((_, index) => models.models.reduce((sum, entry) => sum + entry.tokens[index], 0));
+        const yMax = Math.max(1, ...totals) * 1.1;
+        const chart = createChart(byId('model-chart'), block.start, block.end, yMax);
+        const baseline = new Array(bucketCount).fill(0);
+
+        models.models.forEach((entry, seriesIndex) => {
+            const lower = baseline.slice();
+            const upper = lower.map((value, index) => value + entry.tokens[index]);
+            const top = [];
+            const bottom = [];
+            models.bucketStarts.forEach((start, index) => {
+                const bucketEnd = start + models.bucketMs;
+                top.push({ time: start, value: upper[index] }, { time: bucketEnd, value: upper[index] });
+                bottom.push({ time: start, value: lower[index] }, { time: bucketEnd, value: lower[index] });
+            });
+            const d = toPath(top.concat(bottom.reverse()), chart.x, chart.y) + ' Z';
+            chart.svg.appendChild(svgElement('path', { class: `area series-${seriesIndex % SERIES_COLORS}`, d }));
+            upper.forEach((value, index) => { baseline[index] = value; });
+        });
+
+        renderLegend(byId('model-legend'), models.models.map((entry, index) => ({
+            className: `series-${index % SERIES_COLORS}`,
+            label: `${entry.model} ${formatTokens(entry.tokens.reduce((sum, value) => sum + value, 0))}`
+        })));
+    };
+
+    /** Burn rate in tokens per minute over the block. */
+    const renderBurnChart = (data) => {
+        const { burnRate, block } = data;
+        const yMax = Math.max(1, ...burnRate.map((point) => point.value)) * 1.1;
+        const chart = createChart(byId('burn-chart'), block.start, block.end, yMax);
+        if (burnRate.length > 0) {
+            const points = [{ time: block.start, value: burnRate[0].value }].concat(burnRate);
+            chart.svg.appendChild(svgElement('path', { class: 'burn-line', d: toPath(points, chart.x, chart.y) }));
+        }
+    };
+
+    /** Day-by-hour heatmap; cell opacity scales with tokens. */
+    const renderHeatmap = (data) => {
+        const { heatmap } = data;
+        const labelWidth = 44;
+        const headerHeight = 14;
+        const cellWidth = (WIDTH - labelWidth) / 24;
+        const cellHeight = 9;
+        const height = headerHeight + heatmap.days.length * cellHeight;
+        const max = Math.max(1, ...heatmap.values.map((row) => Math.max(...row)));
+        const svg = svgElement('svg', { viewBox: `0 0 ${WIDTH} ${height}`, role: 'img' });
+
+        [0, 6, 12, 18].forEach((hour) => {
+            const label = svgElement('text', { class: 'axis-label', x: labelWidth + hour * cellWidth, y: 10 });
+            label.textContent = String(hour).padStart(2, '0') + ':00';
+            svg.appendChild(label);
+        });
+
+        heatmap.days.forEach((day, row) => {
+            const y = headerHeight + row * cellHeight;
+            if (row % 5 === 0 || row === heatmap.days.length - 1) {
+                const label = svgElement('text', { class: 'axis-label', x: 0, y: y + cellHeight - 1 });
+                label.textContent = day.slice(5);
+                svg.appendChild(label);
+            }
+            heatmap.values[row].forEach((tokens, hour) => {
+                const cell = svgElement('rect', {
+                    class: tokens > 0 ? 'heat-cell' : 'heat-empty',
+                    x: labelWidth + hour * cellWidth + 0.5,
+                    y: y + 0.5,
+                    width: cellWidth - 1,
+                    height: cellHeight - 1,
+                    'fill-opacity': tokens > 0 ? (0.15 + 0.85 * tokens / max).toFixed(2) : 1
+                });
+                const title = svgElement('title');
+                title.textContent = `${day} ${String(hour).padStart(2, '0')}:00 - ${tokens.toLocaleString()} tokens`;
+                cell.appendChild(title);
+                svg.appendChild(cell);
+            });
+        });
+
+        byId('heatmap').replaceChildren(svg);
+    };
+
+    const renderFields = (container, fields) => {
+        container.replaceChildren(...fields.map((field) => {
+            const row = htmlElement('div');
+            row.appendChild(htmlElement('span', 'label', field.label + ':'));
+            row.appendChild(htmlElement('span', 'value', field.value));
+            return row;
+        }));
+    };
+
+    const renderList = (container, items) => {
+        container.replaceChildren(...items.map((item) => htmlElement('div', 'value', item)));
+    };
+
+    const renderTable = (container, headers, rows) => {
+        const table = htmlElement('table');
+        const head = htmlElement('tr');
+        headers.forEach((header) => head.appendChild(htmlElement('th', '', header)));
+        table.appendChild(htmlElement('thead')).appendChild(head);
+        const body = table.appendChild(htmlElement('tbody'));
+        rows.forEach((cells) => {
+            const row = body.appendChild(htmlElement('tr'));
+            cells.forEach((cell) => row.appendChild(htmlElement('td', '', cell)));
+        });
+        container.replaceChildren(table);
+    };
+
+    const renderError = (error) => {
+        const banner = byId('error');
+        banner.classList.toggle('hidden', !error);
+        if (error) {
+            const lines = ['⚠️ ' + error.message, error.details ? 'Details: ' + error.details : '', error.suggestion ? 'Suggestion: ' + error.suggestion : ''];
+            renderList(banner, lines.filter((line) => line));
+        }
+    };
+
+    const render = (data) => {
+        byId('empty').classList.add('hidden');
+        byId('content').classList.remove('hidden');
+        byId('updated').textContent = 'Updated ' + new Date(data.generatedAt).toLocaleTimeString();
+
+        const status = byId('status');
+        status.className = 'status' + (data.status.level === 'normal' ? '' : ' ' + data.status.level);
+        status.textContent = 'Status: ' + data.status.text;
+
+        renderError(data.error);
+        renderBlockChart(data);
+        renderModelChart(data);
+        renderBurnChart(data);
+        renderHeatmap(data);
+        renderFields(byId('summary'), data.summary);
+        renderList(byId('quota-windows'), data.quotaWindows);
+        renderList(byId('budgets'), data.budgets);
+        renderList(byId('projects'), data.projects);
+        renderTable(byId('block-history'), data.blockHistory.headers, data.blockHistory.rows);
+        renderFields(byId('diagnostics'), data.diagnostics);
+        renderList(byId('data-roots'), data.dataRoots);
+    };
+
+    const renderEmpty = (message) => {
+        byId('content').classList.add('hidden');
+        const empty = byId('empty');
+        empty.classList.remove('hidden');
+        empty.textContent = message;
+    };
+
+    window.addEventListener('message', (event) => {
+        const message = event.data;
+        if (!message || typeof message !== 'object') {
+            return;
+        }
+        if (message.type === 'update') {
+            vscode.setState({ data: message.data });
+            render(message.data);
+        } else if (message.type === 'empty') {
+            vscode.setState(undefined);
+            renderEmpty(message.message);
+        }
+    });
+
+    byId('refresh').addEventListener('click', () => vscode.postMessage({ type: 'refresh' }));
+
+    const previous = vscode.getState();
+    if (previous && previous.data) {
+        render(previous.data);
+    }
+    vscode.postMessage({ type: 'ready' });
+}());
@@ -0,0 +1,124 @@
+// Report webview script. Message shapes mirror src/ui/reportProtocol.ts.
+// Runs under a strict CSP: no inline handlers, no innerHTML.
+(function () {
+    'use strict';
+
+    const vscode = acquireVsCodeApi();
+
+    const COLUMNS = [
+        { key: 'period', label: 'Period', numeric: false },
+        { key: 'inputTokens', label: 'Input', numeric: true },
+        { key: 'outputTokens', label: 'Output', numeric: true },
+        { key: 'cacheCreationTokens', label: 'Cache Write', numeric: true },
+        { key: 'cacheReadTokens', label: 'Cache Read', numeric: true },
+        { key: 'totalTokens', label: 'Tokens', numeric: true },
+        { key: 'requests', label: 'Requests', numeric: true },
+        { key: 'cost', label: 'Cost', numeric: true },
+        { key: 'models', label: 'Models', numeric: false, sortable: false }
+    ];
+
+    const state = Object.assign({ period: 'daily', sortKey: 'period', descending: true }, vscode.getState());
+    let data;
+
+    const byId = (id) => document.getElementById(id);
+
+    const htmlElement = (name, className, text) => {
+        const element = document.createElement(name);
+        if (className) {
+            element.className = className;
+        }
+        if (text !== undefined) {
+            element.textContent = text;
+        }
+        return element;
+    };
+
+    const formatCell = (column, value) => {
+        if (column.key === 'cost') {
+            return '$' + value.toFixed(2);
+        }
+        return column.numeric ? value.toLocaleString() : value;
+    };
+
+    const compareRows = (a, b) => {
+        const left = a[state.sortKey];
+        const right = b[state.sortKey];
+        const order = typeof left === 'number' ? left - right : String(left).localeCompare(String(right));
+        return state.descending ? -order : order;
+    };
+
+    const saveState = () => vscode.setState({ period: state.period, sortKey: state.sortKey, descending: state.descending });
+
+    const renderRow = (row, className) => {
+        const tr = htmlElement('tr', className);
+        COLUMNS.forEach((column) => tr.appendChild(htmlElement('td', column.numeric ? 'number' : '', formatCell(column, row[column.key]))));
+        return tr;
+    };
+
+    const render = () => {
+        const container = byId('report');
+        if (!data) {
+            container.replaceChildren();
+            return;
+        }
+
+        byId('updated').textContent = 'Updated ' + new Date(data.generatedAt).toLocaleTimeString();
+
+        const table = htmlElement('table');
+        const head = htmlElement('tr');
+        COLUMNS.forEach((column) => {
+            const th = htmlElement('th', column.numeric ? 'number' : '', column.label);
+            if (column.sortable !== false) {
+                th.classList.add('sortable');
+                if (column.key === state.sortKey) {
+                    th.classList.add(state.descending ? 'sorted-desc' : 'sorted-asc');
+                }
+                th.addEventListener('click', () => {
+                    state.descending = column.key === state.sortKey ? !state.descending : column.numeric;
+                    state.sortKey = column.key;
+                    saveState();
+                    render();
+                });
+            }
+            head.appendChild(th);
+        });
+        table.appendChild(htmlElement('thead')).appendChild(head);
+
+        const body = table.appendChild(htmlElement('tbody'));
+        data.rows.slice().sort(compareRows).forEach((row) => body.appendChild(renderRow(row)));
+        if (data.rows.length === 0) {
+            const empty = body.appendChild(htmlElement('tr'));
+            const cell = empty.appendChild(htmlElement('td', 'muted', 'No usage recorded yet.'));
+            cell.colSpan = COLUMNS.length;
+        }
+        table.appendChild(htmlElement('tfoot')).appendChild(renderRow(data.totals, 'totals'));
+
+        container.replaceChildren(table);
+    };
+
+    window.addEventListener('message', (event) => {
+        const message = event.data;
+        if (!message || typeof message !== 'object') {
+            return;
+        }
+        const error = byId('error');
+        if (message.type === 'report') {
+            error.classList.add('hidden');
+            data = message.data;
+            render();
+        } else if (message.type === 'error') {
+            error.textContent = message.message;
+            error.classList.remove('hidden');
+        }
+    });
+
+    const periodSelect = byId('period');
+    periodSelect.value = state.period;
+    periodSelect.addEventListener('change', () => {
+        state.period = periodSelect.value;
+        saveState();
+        vscode.postMessage({ type: 'setPeriod', period: state.period });
+    });
+
+    vscode.postMessage({ type: 'setPeriod', period: state.period });
+}());
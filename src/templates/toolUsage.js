@@ -0,0 +1,123 @@
+// Tool usage webview script. Message shapes mirror src/ui/toolUsageProtocol.ts.
+// Runs under a strict CSP: no inline handlers, no innerHTML.
+(function () {
+    'use strict';
+
+    const vscode = acquireVsCodeApi();
+
+    const COLUMNS = [
+        { key: 'tool', label: 'Tool', numeric: false },
+        { key: 'calls', label: 'Calls', numeric: true },
+        { key: 'errors', label: 'Errors', numeric: true },
+        { key: 'resultChars', label: 'Result Chars', numeric: true },
+        { key: 'inputTokens', label: 'Input', numeric: true },
+        { key: 'cacheCreationTokens', label: 'Cache Write', numeric: true },
+        { key: 'cacheReadTokens', label: 'Cache Read', numeric: true },
+        { key: 'attributedTokens', label: 'Tokens', numeric: true },
+        { key: 'share', label: 'Share', numeric: true },
+        { key: 'cost', label: 'Cost', numeric: true }
+    ];
+
+    const state = Object.assign({ sortKey: 'attributedTokens', descending: true }, vscode.getState());
+    let data;
+
+    const byId = (id) => document.getElementById(id);
+
+    const htmlElement = (name, className, text) => {
+        const element = document.createElement(name);
+        if (className) {
+            element.className = className;
+        }
+        if (text !== undefined) {
+            element.textContent = text;
+        }
+        return element;
+    };
+
+    const formatCell = (column, value) => {
+        if (column.key === 'cost') {
+            return '$' + value.toFixed(2);
+        }
+        if (column.key === 'share') {
+            return value.toFixed(1) + '%';
+        }
+        return column.numeric ? value.toLocaleString() : value;
+    };
+
+    const compareRows = (a, b) => {
+        const left = a[state.sortKey];
+        const right = b[state.sortKey];
+        const order = typeof left === 'number' ? left - right : String(left).localeCompare(String(right));
+        return state.descending ? -order : order;
+    };
+
+    const saveState = () => vscode.setState({ sortKey: state.sortKey, descending: state.descending });
+
+    const renderRow = (row, className) => {
+        const tr = htmlElement('tr', className);
+        COLUMNS.forEach((column) => tr.appendChild(htmlElement('td', column.numeric ? 'number' : '', formatCell(column, row[column.key]))));
+        return tr;
+    };
+
+    const render = () => {
+        const container = byId('tools');
+        if (!data) {
+            container.replaceChildren();
+            return;
+        }
+
+        byId('title').textContent = 'Tool Usage: ' + data.title;
+        byId('updated').textContent = 'Updated ' + new Date(data.generatedAt).toLocaleTimeString();
+        byId('summary').textContent = data.sessionCount.toLocaleString() + ' sessions · ' +
+            data.turnCount.toLocaleString() + ' requests, ' + data.turnsWithTools.toLocaleString() + ' with tool results · ' +
+            data.unattributedTokens.toLocaleString() + ' tokens ($' + data.unattributedCost.toFixed(2) + ') in requests without tool results';
+
+        const table = htmlElement('table');
+        const head = htmlElement('tr');
+        COLUMNS.forEach((column) => {
+            const th = htmlElement('th', column.numeric ? 'number sortable' : 'sortable', column.label);
+            if (column.key === state.sortKey) {
+                th.classList.add(state.descending ? 'sorted-desc' : 'sorted-asc');
+            }
+            th.addEventListener('click', () => {
+                state.descending = column.key === state.sortKey ? !state.descending : column.numeric;
+                state.sortKey = column.key;
+                saveState();
+                render();
+            });
+            head.appendChild(th);
+        });
+        table.appendChild(htmlElement('thead')).appendChild(head);
+
+        const body = table.appendChild(htmlElement('tbody'));
+        data.rows.slice().sort(compareRows).forEach((row) => body.appendChild(renderRow(row)));
+        if (data.rows.length === 0) {
+            const empty = body.appendChild(htmlElement('tr'));
+            const cell = empty.appendChild(htmlElement('td', 'muted', 'No tool results in this scope.'));
+            cell.colSpan = COLUMNS.length;
+        }
+        table.appendChild(htmlElement('tfoot')).appendChild(renderRow(data.totals, 'totals'));
+
+        container.replaceChildren(table);
+    };
+
+    window.addEventListener('message', (event) => {
+        const message = event.data;
+        if (!message || typeof message !== 'object') {
+            return;
+        }
+        const error = byId('error');
+        if (message.type === 'toolUsage') {
+            error.classList.add('hidden');
+            data = message.data;
+            render();
+        } else if (message.type === 'error') {
+            error.textContent = message.message;
+            error.classList.remove('hidden');
+        }
+    });
+
+    byId('reload').addEventListener('click', () => vscode.postMessage({ type: 'reload' }));
+
+    vscode.postMessage({ type: 'ready' });
+}());
@@ -0,0 +1,156 @@
+// Transcript webview script. Message shapes mirror src/ui/transcriptProtocol.ts.
+// Runs under a strict CSP: no inline handlers, no innerHTML.
+(function () {
+    'use strict';
+
+    const vscode = acquireVsCodeApi();
+
+    const COLUMNS = [
+        { key: 'index', label: '#', numeric: true },
+        { key: 'time', label: 'Time', numeric: true },
+        { key: 'model', label: 'Model', numeric: false },
+        { key: 'inputTokens', label: 'Input', numeric: true },
+        { key: 'outputTokens', label: 'Output', numeric: true },
+        { key: 'cacheCreationTokens', label: 'Cache Write', numeric: true },
+        { key: 'cacheReadTokens', label: 'Cache Read', numeric: true },
+        { key: 'totalTokens', label: 'Tokens', numeric: true },
+        { key: 'cost', label: 'Cost', numeric: true },
+        { key: 'context', label: 'Context', numeric: false, sortable: false }
+    ];
+
+    const state = Object.assign({ sortKey: 'index', descending: false }, vscode.getState());
+    let data;
+
+    const byId = (id) => document.getElementById(id);
+
+    const htmlElement = (name, className, text) => {
+        const element = document.createElement(name);
+        if (className) {
+            element.className = className;
+        }
+        if (text !== undefined) {
+            element.textContent = text;
+        }
+        return element;
+    };
+
+    const formatCost = (cost) => '$' + cost.toFixed(cost < 0.1 ? 4 : 2);
+
+    const formatToolCall = (call) => {
+        let text = call.name + (call.inputPreview ? ' ' + call.inputPreview : '');
+        if (call.resultChars !== undefined) {
+            text += ' → ' + call.resultChars.toLocaleString() + ' chars' + (call.isError ? ' (error)' : '');
+        }
+        return text;
+    };
+
+    const renderContext = (turn) => {
+        const cell = htmlElement('td', 'context');
+        if (turn.isSidechain) {
+            cell.appendChild(htmlElement('span', 'badge', 'sub-agent'));
+        }
+        cell.appendChild(htmlElement('div', 'prompt', turn.prompt ? '› ' + turn.prompt : '› (prompt not found)'));
+        if (turn.precedingToolCalls.length > 0) {
+            const list = cell.appendChild(htmlElement('ul', 'tool-calls'));
+            turn.precedingToolCalls.forEach((call) => list.appendChild(htmlElement('li', call.isError ? 'error' : '', formatToolCall(call))));
+        }
+        const response = [turn.response, ...turn.requestedTools.map((tool) => '⚙ ' + formatToolCall(tool))]
+            .filter(Boolean)
+            .join('  ');
+        if (response) {
+            cell.appendChild(htmlElement('div', 'muted', response));
+        }
+        return cell;
+    };
+
+    const formatCell = (column, turn) => {
+        const value = turn[column.key];
+        if (column.key === 'time') {
+            return new Date(value).toLocaleString(undefined, { hour12: false });
+        }
+        if (column.key === 'cost') {
+            return formatCost(value);
+        }
+        return column.numeric ? value.toLocaleString() : value;
+    };
+
+    const compareTurns = (a, b) => {
+        const left = a[state.sortKey];
+        const right = b[state.sortKey];
+        const order = typeof left === 'number' ? left - right : String(left).localeCompare(String(right));
+        return state.descending ? -order : order;
+    };
+
+    const saveState = () => vscode.setState({ sortKey: state.sortKey, descending: state.descending });
+
+    const render = () => {
+        const container = byId('turns');
+        if (!data) {
+            container.replaceChildren();
+            return;
+        }
+
+        byId('title').textContent = 'Session ' + data.sessionId;
+        byId('updated').textContent = 'Read ' + new Date(data.generatedAt).toLocaleTimeString();
+        byId('summary').textContent = data.filePath + ' · ' + data.totals.turns.toLocaleString() + ' turns · ' +
+            data.totals.totalTokens.toLocaleString() + ' tokens · ' + formatCost(data.totals.cost) +
+            (data.oversizedLines > 0 ? ' · ' + data.oversizedLines + ' oversized lines skipped' : '');
+
+        const table = htmlElement('table', 'transcript');
+        const head = htmlElement('tr');
+        COLUMNS.forEach((column) => {
+            const th = htmlElement('th', column.numeric ? 'number' : '', column.label);
+            if (column.sortable !== false) {
+                th.classList.add('sortable');
+                if (column.key === state.sortKey) {
+                    th.classList.add(state.descending ? 'sorted-desc' : 'sorted-asc');
+                }
+                th.addEventListener('click', () => {
+                    state.descending = column.key === state.sortKey ? !state.descending : column.numeric && column.key !== 'index' && column.key !== 'time';
+                    state.sortKey = column.key;
+                    saveState();
+                    render();
+                });
+            }
+            head.appendChild(th);
+        });
+        table.appendChild(htmlElement('thead')).appendChild(head);
+
+        const body = table.appendChild(htmlElement('tbody'));
+        data.turns.slice().sort(compareTurns).forEach((turn) => {
+            const tr = body.appendChild(htmlElement('tr'));
+            COLUMNS.forEach((column) => {
+                tr.appendChild(column.key === 'context'
+                    ? renderContext(turn)
+                    : htmlElement('td', column.numeric ? 'number' : '', formatCell(column, turn)));
+            });
+        });
+        if (data.turns.length === 0) {
+            const empty = body.appendChild(htmlElement('tr'));
+            const cell = empty.appendChild(htmlElement('td', 'muted', 'No assistant turns with usage in this session.'));
+            cell.colSpan = COLUMNS.length;
+        }
+
+        container.replaceChildren(table);
+    };
+
+    window.addEventListener('message', (event) => {
+        const message = event.data;
+        if (!message || typeof message !== 'object') {
+            return;
+        }
+        const error = byId('error');
+        if (message.type === 'transcript') {
+            error.classList.add('hidden');
+            data = message.data;
+            render();
+        } else if (message.type === 'error') {
+            error.textContent = message.message;
+            error.classList.remove('hidden');
+        }
+    });
+
+    byId('reload').addEventListener('click', () => vscode.postMessage({ type: 'reload' }));
+
+    vscode.postMessage({ type: 'ready' });
+}());
@@ -7,6 +7,51 @@ export interface ClaudeUsageRecord {
     model: string;
     sessionId?: string;
     requestId?: string;
+    messageId?: string;
+    /** Encoded project directory name under the projects root */
+    projectKey?: string;
+    /** Decoded project path */
+    project?: string;
+    /** Data root the project directory was read from */
+    dataRoot?: string;
+    /** Whether a sub-agent (Task tool) made the request rather than the main conversation */
+    isSidechain?: boolean;
+    /** Id of the Task tool call that started the sub-agent, when it could be linked */
+    parentToolUseId?: string;
+    /** Working directory Claude Code ran in */
+    cwd?: string;
+    /** Git branch checked out in the working directory */
+    gitBranch?: string;
+}
+
+/** A "usage limit reached" message written by Claude Code into a session transcript. */
+export interface RateLimitEvent {
+    /** When Claude Code reported the limit */
+    timestamp: string;
+    sessionId?: string;
+    /** When the limit resets, if the message states it (ISO string) */
+    resetTime?: string;
+    /** Which limit was reached */
+    limitType: 'session' | 'weekly' | 'opus_weekly' | 'unknown';
+    /** Original message text */
+    message: string;
+    /** Encoded project directory name under the projects root */
+    projectKey?: string;
+    /** Decoded project path */
+    project?: string;
+    /** Data root the project directory was read from */
+    dataRoot?: string;
+}
+
+export interface DataRoot {
+    path: string;
+    source: 'setting' | 'CLAUDE_CONFIG_DIR' | 'default';
+    exists: boolean;
+}
+
+export interface DataRootSummary extends DataRoot {
+    /** Records parsed from this root before de-duplication */
+    recordCount: number;
 }
 
 export interface ParsedUsageData {
@@ -17,6 +62,12 @@ export interface ParsedUsageData {
         latest: Date;
     };
     sessionIds: string[];
+    /** Number of copied assistant messages dropped by de-duplication */
+    duplicateRecords: number;
+    /** Data roots that were scanned and their contributions */
+    dataRoots: DataRootSummary[];
+    /** Explicit limit-reached messages, oldest first */
+    limitEvents: RateLimitEvent[];
 }
 
 export interface ParseError {
@@ -43,14 +94,57 @@ export interface SessionWindow {
     mostUsedModel?: string;
 }
 
+export interface SessionGap {
+    startTime: Date;
+    endTime: Date;
+    duration: number;
+}
+
+export interface BlockSummary {
+    sessionId: string;
+    startTime: Date;
+    endTime: Date;
+    lastActivityTime: Date;
+    totalTokens: number;
+    requestCount: number;
+    topModels: Array<{ model: string; requests: number; tokens: number }>;
+    /** Tokens of sub-agent (sidechain) requests */
+    subAgentTokens: number;
+    isActive: boolean;
+    /** Whether a limit-reached event fell into the block or its usage reached the rate limit estimate */
+    likelyHitLimit: boolean;
+}
+
 export interface MultiSessionBlock {
+    /** Every block from oldest to newest */
     allSessions: SessionWindow[];
     activeSessions: SessionWindow[];
     mostRestrictiveSession: SessionWindow;
+    /** Idle periods between consecutive blocks */
+    gaps: SessionGap[];
     currentTime: Date;
     error?: ParseError;
 }
 
+export interface ProjectUsage {
+    projectKey: string;
+    project: string;
+    totalTokens: number;
+    requestCount: number;
+    /** Share of the block's tokens used by this project (0-100) */
+    shareOfBlock: number;
+}
+
+export interface WorkspaceUsage {
+    /** Decoded paths of the projects matched to the open workspace folders */
+    projects: string[];
+    totalTokens: number;
+    /** Workspace tokens relative to the rate limit (0-100+) */
+    usagePercentage: number;
+    /** Share of the block's tokens used by the workspace (0-100) */
+    shareOfBlock: number;
+}
+
 export interface UsageStatus {
     currentUsage: number;
     usageBaseline: number;
@@ -67,9 +161,61 @@ export interface UsageStatus {
     baselineConfidence: 'high' | 'medium' | 'low';
     burnRate?: BurnRateAnalysis;
     currentModel?: string;
+    projectUsage?: ProjectUsage[];
+    workspaceUsage?: WorkspaceUsage;
+    /** Every tracked quota window (5-hour block, weekly, per-model weekly) */
+    quotaWindows?: QuotaWindowStatus[];
+    /** Every configured cost budget for the current calendar periods */
+    budgets?: BudgetStatus[];
     error?: ParseError;
 }
 
+export interface QuotaWindowStatus {
+    id: string;
+    label: string;
+    usedTokens: number;
+    /** Limit in tokens, or null when neither configured nor observed */
+    limit: number | null;
+    /** Where the limit came from */
+    limitSource: 'configured' | 'limit_events' | 'estimate' | 'none';
+    /** Percentage of the limit used, or null without a limit */
+    usagePercentage: number | null;
+    windowStart: Date;
+    resetTime: Date;
+    timeUntilReset: number;
+    timeUntilResetFormatted: string;
+    isHighUsage: boolean;
+    isCriticalUsage: boolean;
+}
+
+export interface BudgetStatus {
+    /** `period` or `period:project`, stable across periods */
+    id: string;
+    label: string;
+    period: 'daily' | 'weekly' | 'monthly';
+    /** Project path or encoded directory name; undefined for all projects */
+    project?: string;
+    /** Budget in USD */
+    amount: number;
+    /** Key of the current period, e.g. `2025-01-15`, `2025-W03` or `2025-01` */
+    periodKey: string;
+    periodStart: Date;
+    periodEnd: Date;
+    /** Estimated spend since the period started, in USD */
+    spent: number;
+    /** Percentage of the budget spent */
+    percentage: number;
+    /** Estimated cost per hour over the run-rate window, in USD */
+    runRatePerHour: number;
+    /** Spend expected by the end of the period at the run rate, in USD */
+    forecast: number;
+    forecastPercentage: number;
+    timeUntilReset: number;
+    timeUntilResetFormatted: string;
+    /** `exceeded` at 100%, `warning` from the warning percentage, `forecast` when the forecast exceeds the budget */
+    state: 'ok' | 'forecast' | 'warning' | 'exceeded';
+}
+
 export interface BurnRateAnalysis {
     tokensPerMinute: number;
     tokensPerHour: number;
@@ -87,6 +233,8 @@ export interface BurnRateAnalysis {
     };
     trend: 'increasing' | 'decreasing' | 'stable';
     modelBreakdown?: ModelUsageBreakdown[];
+    /** Main conversation versus sub-agents, main first */
+    agentBreakdown?: AgentUsageBreakdown[];
 }
 
 export interface ModelUsageBreakdown {
@@ -96,4 +244,17 @@ export interface ModelUsageBreakdown {
     avgTokensPerRequest: number;
     percentage: number;
     estimatedCost?: number;
+    /** Tokens of the model's sub-agent (sidechain) requests */
+    subAgentTokens?: number;
+}
+
+export interface AgentUsageBreakdown {
+    /** `main` for the conversation itself, `subagent` for Task tool sidechains */
+    agent: 'main' | 'subagent';
+    tokens: number;
+    requests: number;
+    /** Share of all tokens in the analyzed period */
+    percentage: number;
+    tokensPerMinute: number;
+    estimatedCost: number;
 }
\ No newline at end of file
@@ -0,0 +1,90 @@
+/**
+ * Branch Usage Formatter - UI Display Layer
+ *
+ * Converts per-branch usage into the rows rendered by the branch usage
+ * webview, including a Markdown summary per branch for pull requests.
+ *
+ * @module BranchUsageFormatter
+ */
+
+import { BranchUsage, BranchUsageReport, CommitRangeUsage } from '../core/branchUsage';
+import { formatLocalDate } from '../utils/timeUtils';
+import { BranchUsageData, BranchUsageRow, CommitRangeRow } from './branchUsageProtocol';
+
+/** Characters of a commit hash shown. */
+const SHORT_HASH_LENGTH = 7;
+
+const toCommitRangeRow = (range: CommitRangeUsage): CommitRangeRow => ({
+    commit: range.commit ? range.commit.hash.slice(0, SHORT_HASH_LENGTH) : 'Uncommitted',
+    subject: range.commit?.subject ?? '',
+    time: range.commit?.time.getTime(),
+    requests: range.requestCount,
+    totalTokens: range.totalTokens,
+    cost: range.estimatedCost
+});
+
+/**
+ * Creates the Markdown summary of a branch, e.g. for a pull request description.
+ * @param branch Branch usage
+ * @returns Headline with totals, followed by a commit table when commit ranges are known
+ */
+export const formatBranchSummary = (branch: BranchUsage): string => {
+    const lines = [
+        `**Claude Code usage on \`${branch.branch}\`**: ~$${branch.estimatedCost.toFixed(2)} estimated · ` +
+        `${branch.totalTokens.toLocaleString()} tokens · ${branch.requestCount.toLocaleString()} requests · ` +
+        `${formatLocalDate(branch.firstActivity)} – ${formatLocalDate(branch.lastActivity)}`
+    ];
+
+    if (branch.commitRanges && branch.commitRanges.length > 0) {
+        lines.push('', '| Commit | Subject | Requests | Tokens | Cost |', '| --- | --- | ---: | ---: | ---: |');
+        branch.commitRanges.map(toCommitRangeRow).forEach(range => {
+            const commit = range.time !== undefined ? `\`${range.commit}\`` : range.commit;
+            const subject = range.subject.replace(/\|/g, '\\|');
+            lines.push(`| ${commit} | ${subject} | ${range.requests.toLocaleString()} | ${range.totalTokens.toLocaleString()} | $${range.cost.toFixed(2)} |`);
+        });
+    }
+    return lines.join('\n');
+};
+
+/**
+ * Creates the branch usage webview data.
+ * @param report Per-branch usage
+ * @param includeCommits Whether commit ranges were requested
+ * @param currentTime Time the data was computed
+ * @returns Rows and totals for display
+ */
+export const createBranchUsageData = (
+    report: BranchUsageReport,
+    includeCommits: boolean,
+    currentTime: Date = new Date()
+): BranchUsageData => {
+    const rows: BranchUsageRow[] = report.branches.map(branch => ({
+        branch: branch.branch,
+        repository: branch.repository,
+        requests: branch.requestCount,
+        totalTokens: branch.totalTokens,
+        cost: branch.estimatedCost,
+        firstActivity: branch.firstActivity.getTime(),
+        lastActivity: branch.lastActivity.getTime(),
+        commitRanges: branch.commitRanges?.map(toCommitRangeRow),
+        summary: formatBranchSummary(branch)
+    }));
+
+    return {
+        generatedAt: currentTime.getTime(),
+        includeCommits,
+        rows,
+        totals: {
+            branch: 'Total',
+            repository: '',
+            requests: rows.reduce((sum, row) => sum + row.requests, 0),
+            totalTokens: rows.reduce((sum, row) => sum + row.totalTokens, 0),
+            cost: rows.reduce((sum, row) => sum + row.cost, 0),
+            firstActivity: rows.length > 0 ? Math.min(...rows.map(row => row.firstActivity)) : 0,
+            lastActivity: rows.length > 0 ? Math.max(...rows.map(row => row.lastActivity)) : 0,
+            summary: ''
+        },
+        untaggedRequests: report.untaggedRequests,
+        untaggedCost: report.untaggedCost
+    };
+};
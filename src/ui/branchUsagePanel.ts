@@ -0,0 +1,81 @@
+/**
+ * Branch Usage Panel - UI Layer
+ *
+ * Webview panel showing tokens and cost per git branch, optionally split into
+ * commit ranges, with a copyable Markdown summary per branch. Data arrives
+ * through the typed messages of {@link BranchUsageProtocol}.
+ *
+ * @module BranchUsagePanel
+ */
+
+import * as vscode from 'vscode';
+import { BranchUsageReport } from '../core/branchUsage';
+import { SingletonWebviewPanel } from './singletonWebviewPanel';
+import { createBranchUsageData } from './branchUsageFormatter';
+import { ExtensionToBranchUsageMessage, isBranchUsageToExtensionMessage } from './branchUsageProtocol';
+
+/** Computes per-branch usage, optionally with commit ranges. */
+export type BranchUsageLoader = (includeCommits: boolean) => Promise<BranchUsageReport>;
+
+const VIEW_TYPE = 'claudeUsageBranches';
+
+/** Singleton branch usage webview. */
+export class BranchUsagePanel extends SingletonWebviewPanel {
+    private includeCommits = false;
+
+    /**
+     * Shows the branch usage, creating the panel on first use.
+     * @param extensionPath Path to the extension root
+     * @param loadBranchUsage Computes per-branch usage from the current data and settings
+     */
+    static show(extensionPath: string, loadBranchUsage: BranchUsageLoader): void {
+        const current = BranchUsagePanel.getOpenPanel<BranchUsagePanel>(VIEW_TYPE);
+        if (current) {
+            current.reveal();
+            void current.postBranchUsage();
+            return;
+        }
+        new BranchUsagePanel(extensionPath, loadBranchUsage);
+    }
+
+    /**
+     * Closes the panel if it is open.
+     */
+    static close(): void {
+        BranchUsagePanel.closePanel(VIEW_TYPE);
+    }
+
+    private constructor(extensionPath: string, private readonly loadBranchUsage: BranchUsageLoader) {
+        super({ viewType: VIEW_TYPE, title: 'Claude Code Usage by Branch', template: 'branchUsage' }, extensionPath);
+    }
+
+    /** Handles a message from the webview script. */
+    protected handleMessage(message: unknown): void {
+        if (!isBranchUsageToExtensionMessage(message)) {
+            return;
+        }
+
+        if (message.type === 'copy') {
+            void vscode.env.clipboard.writeText(message.text).then(() =>
+                vscode.window.showInformationMessage('Copied branch usage summary to the clipboard.')
+            );
+            return;
+        }
+
+        this.includeCommits = message.includeCommits;
+        void this.postBranchUsage();
+    }
+
+    /** Computes the branch usage and sends it to the webview. */
+    private async postBranchUsage(): Promise<void> {
+        let message: ExtensionToBranchUsageMessage;
+        try {
+            const report = await this.loadBranchUsage(this.includeCommits);
+            message = { type: 'branchUsage', data: createBranchUsageData(report, this.includeCommits) };
+        } catch (error) {
+            console.error('Error computing branch usage:', error);
+            message = { type: 'error', message: 'Failed to read Claude Code usage data for the branch view.' };
+        }
+        void this.panel.webview.postMessage(message);
+    }
+}
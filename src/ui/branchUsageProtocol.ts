@@ -0,0 +1,79 @@
+/**
+ * Branch Usage Protocol - UI Layer
+ *
+ * Messages exchanged between the extension and the branch usage webview. The
+ * webview script (`templates/branchUsage.js`) mirrors these shapes; keep both
+ * in sync when changing a message.
+ *
+ * @module BranchUsageProtocol
+ */
+
+/** Usage that went into one commit; numbers stay raw so the webview can format them. */
+export interface CommitRangeRow {
+    /** Short commit hash, or "Uncommitted" */
+    commit: string;
+    subject: string;
+    /** Committer time (epoch milliseconds), absent for uncommitted work */
+    time?: number;
+    requests: number;
+    totalTokens: number;
+    /** Estimated cost in USD */
+    cost: number;
+}
+
+/** One branch row; numbers stay raw so the webview can sort them. */
+export interface BranchUsageRow {
+    /** Branch name, or "Total" for the totals row */
+    branch: string;
+    /** Working directory Claude Code ran in */
+    repository: string;
+    requests: number;
+    /** Tokens per the token accounting model */
+    totalTokens: number;
+    /** Estimated cost in USD */
+    cost: number;
+    /** Epoch milliseconds */
+    firstActivity: number;
+    lastActivity: number;
+    /** Usage per commit, newest first, when the git log was read */
+    commitRanges?: CommitRangeRow[];
+    /** Markdown summary for a pull request description */
+    summary: string;
+}
+
+/** Branch usage ready for display. */
+export interface BranchUsageData {
+    /** When the data was computed (epoch milliseconds) */
+    generatedAt: number;
+    /** Whether commit ranges were requested */
+    includeCommits: boolean;
+    rows: BranchUsageRow[];
+    totals: BranchUsageRow;
+    /** Requests without a git branch */
+    untaggedRequests: number;
+    untaggedCost: number;
+}
+
+/** Messages sent from the extension to the webview. */
+export type ExtensionToBranchUsageMessage =
+    | { type: 'branchUsage'; data: BranchUsageData }
+    | { type: 'error'; message: string };
+
+/** Messages sent from the webview to the extension; the script sends `load` on load. */
+export type BranchUsageToExtensionMessage =
+    | { type: 'load'; includeCommits: boolean }
+    | { type: 'copy'; text: string };
+
+/**
+ * Validates a message received from the webview.
+ * @param value Raw message payload
+ * @returns Whether the payload is a known branch usage message
+ */
+export const isBranchUsageToExtensionMessage = (value: unknown): value is BranchUsageToExtensionMessage => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const message = value as { type?: unknown; includeCommits?: unknown; text?: unknown };
+    return (message.type === 'load' && typeof message.includeCommits === 'boolean') ||
+        (message.type === 'copy' && typeof message.text === 'string');
+};
@@ -0,0 +1,144 @@
+/**
+ * Dashboard Formatter - UI Display Layer
+ *
+ * Converts a usage status result into the data rendered by the dashboard webview.
+ *
+ * @module DashboardFormatter
+ */
+
+import { UsageStatusResult } from '../services/usageMonitorFacade';
+import { RateLimitEstimationService } from '../services/rateLimitEstimationService';
+import { DashboardData } from './dashboardProtocol';
+import {
+    formatUsageDetails,
+    formatTimeDetails,
+    formatProjectUsage,
+    formatBlockHistoryRows,
+    formatQuotaWindows,
+    formatBudgets
+} from './statusBarFormatter';
+import {
+    buildCumulativeSeries,
+    buildModelTimeline,
+    buildBurnRateSeries,
+    buildHourlyHeatmap,
+    ModelTimeline
+} from '../core/usageTimeline';
+import { getModelDisplayName } from '../core/modelUtils';
+
+/** Number of buckets the block is split into for the model and burn rate charts. */
+const BLOCK_BUCKET_COUNT = 30;
+
+/** Days covered by the activity heatmap. */
+const HEATMAP_DAYS = 30;
+
+/**
+ * Creates the dashboard data for a usage status result.
+ * @param result Usage status result of the latest refresh
+ * @param currentTime Reference time for the charts
+ * @returns Data for the dashboard webview
+ */
+export const createDashboardData = (result: UsageStatusResult, currentTime: Date = new Date()): DashboardData => {
+    const { status, parsedData, blockHistory, rateLimitExplanation, activeBlock, tokenWeights } = result;
+    const timeDetails = formatTimeDetails(status);
+
+    const start = activeBlock.startTime;
+    const end = activeBlock.endTime;
+    const chartEnd = new Date(Math.min(Math.max(currentTime.getTime(), start.getTime() + 1), end.getTime()));
+    const bucketMs = Math.ceil((end.getTime() - start.getTime()) / BLOCK_BUCKET_COUNT);
+
+    const modelTimeline = buildModelTimeline(activeBlock.records, start, chartEnd, bucketMs, tokenWeights);
+
+    const summary = [
+        { label: 'Current Usage', value: formatUsageDetails(status) },
+        { label: 'Usage Level', value: status.usageLevel },
+        { label: 'Baseline Confidence', value: status.baselineConfidence },
+        {
+            label: 'Rate Limit',
+            value: `${RateLimitEstimationService.formatRateLimitEstimate(rateLimitExplanation.limit)} (${rateLimitExplanation.source})`
+        },
+        { label: 'Limit Source', value: rateLimitExplanation.reason },
+        { label: 'Reset Time', value: timeDetails['Reset Time'] },
+        { label: 'Time Until Reset', value: timeDetails['Time Until Reset'] },
+        { label: 'Consumption Rate', value: `${timeDetails['Tokens Per Minute']}/min` }
+    ];
+
+    ['Burn Rate', 'Sub-agents', 'Top Model', 'Estimated High Usage', 'Estimated Depletion'].forEach(label => {
+        if (timeDetails[label]) {
+            summary.push({ label, value: timeDetails[label] });
+        }
+    });
+
+    return {
+        generatedAt: currentTime.getTime(),
+        status: getDashboardStatus(result),
+        error: status.error
+            ? { message: status.error.message, details: status.error.details, suggestion: status.error.suggestion }
+            : undefined,
+        summary,
+        block: {
+            start: start.getTime(),
+            end: end.getTime(),
+            limit: result.rateLimitEstimate,
+            cumulative: buildCumulativeSeries(activeBlock.records, start, tokenWeights)
+        },
+        models: { ...modelTimeline, models: mergeByDisplayName(modelTimeline.models) },
+        burnRate: buildBurnRateSeries(activeBlock.records, start, chartEnd, bucketMs, undefined, tokenWeights),
+        heatmap: buildHourlyHeatmap(parsedData.records, currentTime, HEATMAP_DAYS, tokenWeights),
+        quotaWindows: formatQuotaWindows(status.quotaWindows ?? []),
+        budgets: status.budgets && status.budgets.length > 0
+            ? formatBudgets(status.budgets)
+            : ['No budgets configured (claude-code-usage.budgets)'],
+        projects: formatProjectUsage(status, 20),
+        blockHistory: {
+            headers: ['Start', 'End', 'Tokens', 'Requests', 'Top Models', 'Sub-agents', 'Hit Limit'],
+            rows: formatBlockHistoryRows(blockHistory)
+        },
+        diagnostics: [
+            { label: 'Records Parsed', value: parsedData.totalRecords.toLocaleString() },
+            { label: 'Duplicates Removed', value: parsedData.duplicateRecords.toLocaleString() },
+            { label: 'Limit Events', value: parsedData.limitEvents.length.toLocaleString() }
+        ],
+        dataRoots: parsedData.dataRoots.map(root =>
+            root.exists
+                ? `${root.path} (${root.source}): ${root.recordCount.toLocaleString()} records`
+                : `${root.path} (${root.source}): not found`
+        )
+    };
+};
+
+/**
+ * Merges model series that share a display name (e.g. two Opus versions).
+ * @param models Per-model series, largest first
+ * @returns Series keyed by display name, largest first
+ */
+const mergeByDisplayName = (models: ModelTimeline['models']): ModelTimeline['models'] => {
+    const merged = new Map<string, number[]>();
+    for (const { model, tokens } of models) {
+        const name = getModelDisplayName(model);
+        const existing = merged.get(name);
+        merged.set(name, existing ? existing.map((value, index) => value + tokens[index]) : [...tokens]);
+    }
+    const total = (tokens: number[]) => tokens.reduce((sum, value) => sum + value, 0);
+    return Array.from(merged.entries())
+        .map(([model, tokens]) => ({ model, tokens }))
+        .sort((a, b) => total(b.tokens) - total(a.tokens));
+};
+
+/**
+ * Derives the status banner from the usage status.
+ * @param result Usage status result
+ * @returns Banner level and text
+ */
+const getDashboardStatus = ({ status }: UsageStatusResult): DashboardData['status'] => {
+    if (status.usagePercentage >= 100) {
+        return { level: 'critical', text: '🔴 CRITICAL - Exceeded rate limit!' };
+    }
+    if (status.isCriticalUsage) {
+        return { level: 'critical', text: '🔴 CRITICAL - Very high usage!' };
+    }
+    if (status.isHighUsage) {
+        return { level: 'warning', text: '🟡 WARNING - High usage' };
+    }
+    return { level: 'normal', text: '🟢 NORMAL - Typical usage level' };
+};
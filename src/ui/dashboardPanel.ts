@@ -0,0 +1,94 @@
+/**
+ * Dashboard Panel - UI Layer
+ *
+ * Webview panel showing live usage charts. The page is a static shell under a
+ * strict Content-Security-Policy; all data arrives through the typed messages
+ * of {@link DashboardProtocol} and is re-sent whenever the facade recomputes.
+ *
+ * @module DashboardPanel
+ */
+
+import * as vscode from 'vscode';
+import { UsageMonitorFacade, UsageStatusResult } from '../services/usageMonitorFacade';
+import { SingletonWebviewPanel } from './singletonWebviewPanel';
+import { createDashboardData } from './dashboardFormatter';
+import { ExtensionToDashboardMessage, isDashboardToExtensionMessage } from './dashboardProtocol';
+
+/** Shown when no Claude Code block has been detected. */
+const NO_BLOCK_MESSAGE = 'No active Claude Code usage detected. Start using Claude Code to see usage statistics.';
+
+const VIEW_TYPE = 'claudeUsageDashboard';
+
+/** Singleton dashboard webview that follows every usage recomputation. */
+export class DashboardPanel extends SingletonWebviewPanel {
+    private latestResult: UsageStatusResult | null | undefined;
+
+    /**
+     * Shows the dashboard, creating it on first use.
+     * @param extensionPath Path to the extension root
+     * @param facade Facade whose recomputations drive the dashboard
+     * @param requestRefresh Triggers a recomputation (e.g. a status bar update)
+     */
+    static show(extensionPath: string, facade: UsageMonitorFacade, requestRefresh: () => void): void {
+        const current = DashboardPanel.getOpenPanel<DashboardPanel>(VIEW_TYPE);
+        if (current) {
+            current.reveal();
+            requestRefresh();
+            return;
+        }
+        new DashboardPanel(extensionPath, facade, requestRefresh);
+    }
+
+    /**
+     * Closes the dashboard if it is open.
+     */
+    static close(): void {
+        DashboardPanel.closePanel(VIEW_TYPE);
+    }
+
+    private constructor(
+        extensionPath: string,
+        facade: UsageMonitorFacade,
+        private readonly requestRefresh: () => void
+    ) {
+        super({ viewType: VIEW_TYPE, title: 'Claude Code Usage', template: 'dashboard' }, extensionPath);
+
+        const subscription = facade.onDidUpdate(result => {
+            this.latestResult = result;
+            this.postResult(result);
+        });
+        this.disposables.push(new vscode.Disposable(() => subscription.dispose()));
+    }
+
+    /** Handles a message from the webview script. */
+    protected handleMessage(message: unknown): void {
+        if (!isDashboardToExtensionMessage(message)) {
+            return;
+        }
+
+        switch (message.type) {
+            case 'ready':
+                // The script loads after the first result may already have been sent
+                if (this.latestResult !== undefined) {
+                    this.postResult(this.latestResult);
+                }
+                this.requestRefresh();
+                break;
+            case 'refresh':
+                this.requestRefresh();
+                break;
+        }
+    }
+
+    /** Converts a facade result into a message and sends it to the webview. */
+    private postResult(result: UsageStatusResult | null): void {
+        try {
+            const message: ExtensionToDashboardMessage = result && result.activeBlock.isActive
+                ? { type: 'update', data: createDashboardData(result) }
+                : { type: 'empty', message: NO_BLOCK_MESSAGE };
+            void this.panel.webview.postMessage(message);
+        } catch (error) {
+            console.error('Error updating usage dashboard:', error);
+        }
+    }
+}
@@ -0,0 +1,81 @@
+/**
+ * Dashboard Protocol - UI Layer
+ *
+ * Messages exchanged between the extension and the dashboard webview. The
+ * webview script (`templates/dashboard.js`) mirrors these shapes; keep both in
+ * sync when changing a message.
+ *
+ * @module DashboardProtocol
+ */
+
+import { TimelinePoint, ModelTimeline, UsageHeatmap } from '../core/usageTimeline';
+
+/** A labelled display value. */
+export interface DashboardField {
+    label: string;
+    value: string;
+}
+
+/** Everything the dashboard renders, pre-formatted where text is shown. */
+export interface DashboardData {
+    /** When the data was computed (epoch milliseconds) */
+    generatedAt: number;
+    status: {
+        level: 'normal' | 'warning' | 'critical';
+        text: string;
+    };
+    /** Data problem reported by the parser, shown as a banner */
+    error?: {
+        message: string;
+        details?: string;
+        suggestion?: string;
+    };
+    /** Headline figures of the current block */
+    summary: DashboardField[];
+    /** Current block with its running token total and limit line */
+    block: {
+        start: number;
+        end: number;
+        limit: number;
+        cumulative: TimelinePoint[];
+    };
+    /** Per-model usage of the current block; model names are display names */
+    models: ModelTimeline;
+    /** Burn rate (tokens/min) over the current block */
+    burnRate: TimelinePoint[];
+    /** Tokens per local day and hour over the last 30 days */
+    heatmap: UsageHeatmap;
+    quotaWindows: string[];
+    /** Spend and forecast of every configured budget */
+    budgets: string[];
+    projects: string[];
+    blockHistory: {
+        headers: string[];
+        rows: string[][];
+    };
+    diagnostics: DashboardField[];
+    dataRoots: string[];
+}
+
+/** Messages sent from the extension to the webview. */
+export type ExtensionToDashboardMessage =
+    | { type: 'update'; data: DashboardData }
+    | { type: 'empty'; message: string };
+
+/** Messages sent from the webview to the extension. */
+export type DashboardToExtensionMessage =
+    | { type: 'ready' }
+    | { type: 'refresh' };
+
+/**
+ * Validates a message received from the webview.
+ * @param value Raw message payload
+ * @returns Whether the payload is a known dashboard message
+ */
+export const isDashboardToExtensionMessage = (value: unknown): value is DashboardToExtensionMessage => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const type = (value as { type?: unknown }).type;
+    return type === 'ready' || type === 'refresh';
+};
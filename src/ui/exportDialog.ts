@@ -0,0 +1,159 @@
+/**
+ * Export Dialog - UI Layer
+ *
+ * Walks the user through an export: dataset, format, date range and project,
+ * followed by a save dialog. Exports of preselected records only ask for the
+ * format and the file.
+ *
+ * @module ExportDialog
+ */
+
+import * as vscode from 'vscode';
+import { ExportDataset, ExportFormat, ExportFilter, EXPORT_FILE_EXTENSIONS } from '../core/usageExport';
+import { formatLocalDate } from '../utils/timeUtils';
+
+/** Choices collected from the user. */
+export interface ExportRequest {
+    dataset: ExportDataset;
+    format: ExportFormat;
+    filter: ExportFilter;
+    /** Target file chosen in the save dialog */
+    target: vscode.Uri;
+}
+
+/** A project that can be selected as filter. */
+export interface ExportProjectOption {
+    /** Value matched against records (project path or encoded directory name) */
+    project: string;
+    requestCount: number;
+}
+
+const DATASET_ITEMS: Array<vscode.QuickPickItem & { dataset: ExportDataset }> = [
+    { label: 'Records', description: 'One row per Claude Code request', dataset: 'records' },
+    { label: 'Blocks', description: 'One row per 5-hour block', dataset: 'blocks' },
+    { label: 'Daily report', description: 'One row per local day', dataset: 'daily' },
+    { label: 'Weekly report', description: 'One row per ISO week', dataset: 'weekly' },
+    { label: 'Monthly report', description: 'One row per month', dataset: 'monthly' }
+];
+
+const FORMAT_ITEMS: Array<vscode.QuickPickItem & { format: ExportFormat }> = [
+    { label: 'CSV', description: 'Spreadsheets', format: 'csv' },
+    { label: 'JSON', description: 'Scripts', format: 'json' },
+    { label: 'Markdown', description: 'Documents and retros', format: 'markdown' }
+];
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parses a local date (YYYY-MM-DD).
+ * @param text User input
+ * @returns Local midnight, or undefined for invalid input
+ */
+export const parseLocalDate = (text: string): Date | undefined => {
+    const match = text.trim().match(DATE_PATTERN);
+    if (!match) {
+        return undefined;
+    }
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return formatLocalDate(date) === text.trim() ? date : undefined;
+};
+
+/** Asks for an optional local date; resolves to null when left empty and undefined when cancelled. */
+const promptDate = async (prompt: string): Promise<Date | null | undefined> => {
+    const text = await vscode.window.showInputBox({
+        prompt,
+        placeHolder: 'YYYY-MM-DD (leave empty for no limit)',
+        validateInput: value => !value.trim() || parseLocalDate(value) ? undefined : 'Enter a date as YYYY-MM-DD'
+    });
+    if (text === undefined) {
+        return undefined;
+    }
+    return text.trim() ? parseLocalDate(text)! : null;
+};
+
+/**
+ * Asks where to save an export, defaulting to the first workspace folder.
+ * @param formatItem Chosen format
+ * @param name Part of the default file name describing the content
+ * @returns Target file, or undefined when cancelled
+ */
+const promptTarget = async (
+    formatItem: vscode.QuickPickItem & { format: ExportFormat },
+    name: string
+): Promise<vscode.Uri | undefined> => {
+    const extension = EXPORT_FILE_EXTENSIONS[formatItem.format];
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `claude-usage-${name}-${formatLocalDate(new Date())}.${extension}`;
+    return vscode.window.showSaveDialog({
+        defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, fileName) : undefined,
+        filters: { [formatItem.label]: [extension] },
+        saveLabel: 'Export'
+    });
+};
+
+/**
+ * Asks for the format and target of a record export whose records are already chosen.
+ * @param name Describes the records in the default file name, e.g. "session-1a2b3c4d"
+ * @returns Format and target, or undefined if the user cancelled any step
+ */
+export const promptRecordExport = async (name: string): Promise<{ format: ExportFormat; target: vscode.Uri } | undefined> => {
+    const formatItem = await vscode.window.showQuickPick(FORMAT_ITEMS, { placeHolder: 'Export format' });
+    if (!formatItem) {
+        return undefined;
+    }
+
+    const target = await promptTarget(formatItem, name.replace(/[^A-Za-z0-9.-]+/g, '-').slice(0, 60));
+    return target ? { format: formatItem.format, target } : undefined;
+};
+
+/**
+ * Collects an export request from the user.
+ * @param projects Projects found in the usage data, largest first
+ * @returns The request, or undefined if the user cancelled any step
+ */
+export const promptExportRequest = async (projects: ExportProjectOption[]): Promise<ExportRequest | undefined> => {
+    const datasetItem = await vscode.window.showQuickPick(DATASET_ITEMS, { placeHolder: 'What do you want to export?' });
+    if (!datasetItem) {
+        return undefined;
+    }
+
+    const formatItem = await vscode.window.showQuickPick(FORMAT_ITEMS, { placeHolder: 'Export format' });
+    if (!formatItem) {
+        return undefined;
+    }
+
+    const from = await promptDate('Start date (inclusive, local time)');
+    if (from === undefined) {
+        return undefined;
+    }
+    const to = await promptDate('End date (inclusive, local time)');
+    if (to === undefined) {
+        return undefined;
+    }
+
+    const allProjects: vscode.QuickPickItem = { label: 'All projects' };
+    const projectItem = await vscode.window.showQuickPick(
+        [allProjects, ...projects.map(option => ({
+            label: option.project,
+            description: `${option.requestCount.toLocaleString()} requests`
+        }))],
+        { placeHolder: 'Project filter' }
+    );
+    if (!projectItem) {
+        return undefined;
+    }
+
+    const filter: ExportFilter = {
+        from: from ?? undefined,
+        // The end date is inclusive: stop at the following local midnight
+        to: to ? new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1) : undefined,
+        project: projectItem === allProjects ? undefined : projectItem.label
+    };
+
+    const target = await promptTarget(formatItem, datasetItem.dataset);
+    if (!target) {
+        return undefined;
+    }
+
+    return { dataset: datasetItem.dataset, format: formatItem.format, filter, target };
+};
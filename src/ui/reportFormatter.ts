@@ -0,0 +1,47 @@
+/**
+ * Report Formatter - UI Display Layer
+ *
+ * Converts a usage report into the rows rendered by the report webview.
+ *
+ * @module ReportFormatter
+ */
+
+import { UsageReport, ReportModelUsage } from '../core/usageReports';
+import { TokenUsageStats } from '../core/usageCalculator';
+import { ReportData, ReportRow } from './reportProtocol';
+
+/**
+ * Creates the report webview data.
+ * @param report Usage report
+ * @param currentTime Time the report was computed
+ * @returns Rows and totals for display
+ */
+export const createReportData = (report: UsageReport, currentTime: Date = new Date()): ReportData => ({
+    period: report.period,
+    generatedAt: currentTime.getTime(),
+    rows: report.buckets.map(bucket => toRow(bucket.key, bucket, bucket.estimatedCost, formatModelSplit(bucket.models))),
+    totals: toRow('Total', report.totals, report.totals.estimatedCost, '')
+});
+
+/**
+ * Formats per-model usage as "model $cost (N req)" entries.
+ * @param models Per-model usage, most expensive first
+ * @returns Joined split
+ */
+export const formatModelSplit = (models: ReportModelUsage[]): string =>
+    models
+        .map(model => `${model.model} $${model.estimatedCost.toFixed(2)} (${model.requestCount.toLocaleString()} req)`)
+        .join(' · ');
+
+/** Maps token statistics to a table row. */
+const toRow = (period: string, stats: TokenUsageStats, cost: number, models: string): ReportRow => ({
+    period,
+    inputTokens: stats.totalInputTokens,
+    outputTokens: stats.totalOutputTokens,
+    cacheCreationTokens: stats.totalCacheCreationTokens,
+    cacheReadTokens: stats.totalCacheReadTokens,
+    totalTokens: stats.totalTokens,
+    requests: stats.requestCount,
+    cost,
+    models
+});
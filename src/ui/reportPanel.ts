@@ -0,0 +1,72 @@
+/**
+ * Report Panel - UI Layer
+ *
+ * Webview panel showing daily, weekly or monthly usage as a sortable table.
+ * The page is a static shell under a strict Content-Security-Policy; reports
+ * arrive through the typed messages of {@link ReportProtocol}.
+ *
+ * @module ReportPanel
+ */
+
+import { ReportPeriod, UsageReport } from '../core/usageReports';
+import { SingletonWebviewPanel } from './singletonWebviewPanel';
+import { createReportData } from './reportFormatter';
+import { ExtensionToReportMessage, isReportToExtensionMessage } from './reportProtocol';
+
+/** Loads the report for a granularity. */
+export type ReportLoader = (period: ReportPeriod) => Promise<UsageReport>;
+
+const VIEW_TYPE = 'claudeUsageReport';
+
+/** Singleton report webview. */
+export class ReportPanel extends SingletonWebviewPanel {
+    private period: ReportPeriod = 'daily';
+
+    /**
+     * Shows the report, creating the panel on first use.
+     * @param extensionPath Path to the extension root
+     * @param loadReport Computes a report from the current data and settings
+     */
+    static show(extensionPath: string, loadReport: ReportLoader): void {
+        const current = ReportPanel.getOpenPanel<ReportPanel>(VIEW_TYPE);
+        if (current) {
+            current.reveal();
+            void current.postReport();
+            return;
+        }
+        new ReportPanel(extensionPath, loadReport);
+    }
+
+    /**
+     * Closes the report if it is open.
+     */
+    static close(): void {
+        ReportPanel.closePanel(VIEW_TYPE);
+    }
+
+    private constructor(extensionPath: string, private readonly loadReport: ReportLoader) {
+        super({ viewType: VIEW_TYPE, title: 'Claude Code Usage Report', template: 'report' }, extensionPath);
+    }
+
+    /** Handles a message from the webview script. */
+    protected handleMessage(message: unknown): void {
+        if (!isReportToExtensionMessage(message)) {
+            return;
+        }
+
+        this.period = message.period;
+        void this.postReport();
+    }
+
+    /** Computes the report for the selected period and sends it to the webview. */
+    private async postReport(): Promise<void> {
+        let message: ExtensionToReportMessage;
+        try {
+            message = { type: 'report', data: createReportData(await this.loadReport(this.period)) };
+        } catch (error) {
+            console.error('Error creating usage report:', error);
+            message = { type: 'error', message: 'Failed to read Claude Code usage data for the report.' };
+        }
+        void this.panel.webview.postMessage(message);
+    }
+}
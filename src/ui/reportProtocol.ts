@@ -0,0 +1,60 @@
+/**
+ * Report Protocol - UI Layer
+ *
+ * Messages exchanged between the extension and the report webview. The
+ * webview script (`templates/report.js`) mirrors these shapes; keep both in
+ * sync when changing a message.
+ *
+ * @module ReportProtocol
+ */
+
+import { ReportPeriod } from '../core/usageReports';
+
+/** One table row; numbers stay raw so the webview can sort them. */
+export interface ReportRow {
+    /** Period key, or "Total" for the totals row */
+    period: string;
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    /** Tokens per the token accounting model */
+    totalTokens: number;
+    requests: number;
+    /** Estimated cost in USD */
+    cost: number;
+    /** Per-model split, e.g. "claude-opus-4-1 $3.20 (1,234 req) · claude-sonnet-4 $0.80 (56 req)" */
+    models: string;
+}
+
+/** A report ready for display. */
+export interface ReportData {
+    period: ReportPeriod;
+    /** When the report was computed (epoch milliseconds) */
+    generatedAt: number;
+    rows: ReportRow[];
+    totals: ReportRow;
+}
+
+/** Messages sent from the extension to the webview. */
+export type ExtensionToReportMessage =
+    | { type: 'report'; data: ReportData }
+    | { type: 'error'; message: string };
+
+/** Messages sent from the webview to the extension; the script sends its initial period on load. */
+export type ReportToExtensionMessage = { type: 'setPeriod'; period: ReportPeriod };
+
+const REPORT_PERIODS: readonly string[] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * Validates a message received from the webview.
+ * @param value Raw message payload
+ * @returns Whether the payload is a known report message
+ */
+export const isReportToExtensionMessage = (value: unknown): value is ReportToExtensionMessage => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const message = value as { type?: unknown; period?: unknown };
+    return message.type === 'setPeriod' && typeof message.period === 'string' && REPORT_PERIODS.includes(message.period);
+};
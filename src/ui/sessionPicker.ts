@@ -0,0 +1,74 @@
+/**
+ * Session Picker - UI Layer
+ *
+ * Lets the user choose a Claude Code session transcript, most recent first.
+ *
+ * @module SessionPicker
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ClaudeUsageRecord } from '../types';
+import { getSessionTranscriptPath } from '../core/projectManager';
+
+/** Sessions offered in the picker. */
+const MAX_SESSIONS = 100;
+
+/** A session that can be picked. */
+interface SessionOption {
+    transcriptPath: string;
+    sessionId: string;
+    project: string;
+    lastActivity: string;
+    requestCount: number;
+}
+
+/**
+ * Asks for a session transcript.
+ * @param records Usage records in chronological order
+ * @returns The transcript path, or undefined when cancelled or no session has a transcript
+ */
+export const promptSessionTranscript = async (records: ClaudeUsageRecord[]): Promise<string | undefined> => {
+    const sessions = new Map<string, SessionOption>();
+    records.forEach(record => {
+        const transcriptPath = getSessionTranscriptPath(record);
+        if (!transcriptPath) {
+            return;
+        }
+        const session = sessions.get(transcriptPath);
+        if (session) {
+            session.lastActivity = record.timestamp;
+            session.requestCount++;
+        } else {
+            sessions.set(transcriptPath, {
+                transcriptPath,
+                sessionId: record.sessionId!,
+                project: record.project ?? record.projectKey ?? '',
+                lastActivity: record.timestamp,
+                requestCount: 1
+            });
+        }
+    });
+
+    if (sessions.size === 0) {
+        vscode.window.showInformationMessage('No Claude Code session transcripts found.');
+        return undefined;
+    }
+
+    const items = Array.from(sessions.values())
+        .sort((a, b) => new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime())
+        .slice(0, MAX_SESSIONS)
+        .map(session => ({
+            label: `${path.basename(session.project)} · ${session.sessionId.slice(0, 8)}`,
+            description: `${new Date(session.lastActivity).toLocaleString(undefined, { hour12: false })} · ${session.requestCount.toLocaleString()} requests`,
+            detail: session.project,
+            transcriptPath: session.transcriptPath
+        }));
+
+    const item = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Session transcript to browse',
+        matchOnDescription: true,
+        matchOnDetail: true
+    });
+    return item?.transcriptPath;
+};
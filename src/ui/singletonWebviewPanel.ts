@@ -0,0 +1,110 @@
+/**
+ * Singleton Webview Panel - UI Layer
+ *
+ * Base class of the extension's webview panels. Each panel is a static page
+ * shell rendered from `{template}.html` with its `{template}.js` script under a
+ * strict Content-Security-Policy; data only moves through typed messages.
+ * At most one panel of each view type is open at a time.
+ *
+ * Subclasses provide the message handling and a static `show` that reveals
+ * the open panel or constructs a new one.
+ *
+ * @module SingletonWebviewPanel
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TemplateService } from './templateService';
+
+/** Identity and page of a webview panel. */
+export interface WebviewPanelOptions {
+    /** Webview view type, e.g. `claudeUsageReport` */
+    viewType: string;
+    /** Initial panel title */
+    title: string;
+    /** Base name of the page template and script, e.g. `report` */
+    template: string;
+}
+
+/** Webview panel of which at most one per view type is open. */
+export abstract class SingletonWebviewPanel implements vscode.Disposable {
+    private static readonly openPanels = new Map<string, SingletonWebviewPanel>();
+
+    protected readonly panel: vscode.WebviewPanel;
+    protected readonly disposables: vscode.Disposable[] = [];
+
+    /**
+     * Gets the open panel of a view type.
+     * @param viewType Webview view type
+     * @returns The open panel, or undefined when none is open
+     */
+    protected static getOpenPanel<T extends SingletonWebviewPanel>(viewType: string): T | undefined {
+        return SingletonWebviewPanel.openPanels.get(viewType) as T | undefined;
+    }
+
+    /**
+     * Closes the panel of a view type if it is open.
+     * @param viewType Webview view type
+     */
+    protected static closePanel(viewType: string): void {
+        SingletonWebviewPanel.openPanels.get(viewType)?.dispose();
+    }
+
+    /**
+     * Creates the webview panel, renders its page and registers it as the open panel of its view type.
+     * @param options Identity and page of the panel
+     * @param extensionPath Path to the extension root
+     */
+    protected constructor(private readonly options: WebviewPanelOptions, extensionPath: string) {
+        const templateDirectory = path.dirname(TemplateService.resolveTemplatePath(`${options.template}.html`, extensionPath));
+        this.panel = vscode.window.createWebviewPanel(
+            options.viewType,
+            options.title,
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [vscode.Uri.file(templateDirectory)]
+            }
+        );
+
+        const webview = this.panel.webview;
+        const asset = (fileName: string) =>
+            webview.asWebviewUri(vscode.Uri.file(path.join(templateDirectory, fileName))).toString();
+
+        webview.html = TemplateService.renderWebview(options.template, {
+            cspSource: webview.cspSource,
+            nonce: crypto.randomBytes(16).toString('base64'),
+            scriptUri: asset(`${options.template}.js`),
+            styleUri: asset('webview.css')
+        }, extensionPath);
+
+        this.disposables.push(
+            webview.onDidReceiveMessage(message => this.handleMessage(message)),
+            this.panel.onDidDispose(() => this.dispose())
+        );
+        SingletonWebviewPanel.openPanels.set(options.viewType, this);
+    }
+
+    /**
+     * Brings the panel to the front.
+     */
+    reveal(): void {
+        this.panel.reveal(vscode.ViewColumn.One);
+    }
+
+    /**
+     * Disposes the panel and everything registered in {@link disposables}.
+     */
+    dispose(): void {
+        if (SingletonWebviewPanel.openPanels.get(this.options.viewType) === this) {
+            SingletonWebviewPanel.openPanels.delete(this.options.viewType);
+        }
+        this.disposables.splice(0).forEach(disposable => disposable.dispose());
+        this.panel.dispose();
+    }
+
+    /** Handles a message from the webview script. */
+    protected abstract handleMessage(message: unknown): void;
+}
@@ -3,18 +3,132 @@
  * @module StatusBarFormatter
  */
 
-import { UsageStatus } from '../types';
+import { UsageStatus, BlockSummary, QuotaWindowStatus, BudgetStatus } from '../types';
 import { formatBurnRate, formatPredictionTime } from '../core/burnRateCalculator';
 import { RateLimitEstimationService } from '../services/rateLimitEstimationService';
+import { UsageStatusResult } from '../services/usageMonitorFacade';
 import { getModelDisplayName } from '../core/modelUtils';
+import { selectMostConstrainedWindow } from '../core/quotaWindows';
+import { selectMostConstrainedBudget } from '../core/usageBudgets';
+import { calculateRecordsCost } from '../core/modelPricing';
+import { getWeightedTokens } from '../core/tokenAccounting';
+import { PlaceholderValues, renderStatusBarFormat } from '../core/statusBarTemplate';
+import { StatusBarColors, DEFAULT_STATUS_BAR_COLORS } from '../core/statusBarConfig';
+
+/** Id of the quota window that mirrors the 5-hour block shown by default. */
+const SESSION_WINDOW_ID = 'session';
+
+/** Built-in status bar text while no block is active. */
+export const NO_ACTIVE_BLOCK_TEXT = '$(terminal) No active block';
+
+/** Placeholders available in the status bar format. */
+export const STATUS_BAR_PLACEHOLDERS = [
+    'percent', 'tokens', 'limit', 'reset', 'countdown', 'burnRate', 'model', 'cost', 'trend', 'models', 'subagents',
+    'window', 'windowPercent', 'windowReset',
+    'budget', 'budgetForecast'
+] as const;
+
+/** Models listed by the `{models}` placeholder. */
+const MAX_SPLIT_MODELS = 3;
+
+const TREND_ICONS: Record<'increasing' | 'decreasing' | 'stable', string> = {
+    increasing: '$(arrow-up)',
+    decreasing: '$(arrow-down)',
+    stable: '$(arrow-right)'
+};
+
+/**
+ * Finds a quota window that is closer to exhaustion than the 5-hour block.
+ * @param status Usage status with evaluated quota windows
+ * @returns The tighter window, or undefined when the block itself is the most constrained
+ */
+export const getDisplayedQuotaWindow = (status: UsageStatus): QuotaWindowStatus | undefined => {
+    const tightest = selectMostConstrainedWindow(status.quotaWindows ?? []);
+    if (!tightest || tightest.id === SESSION_WINDOW_ID || tightest.usagePercentage === null) {
+        return undefined;
+    }
+    return tightest.usagePercentage > status.usagePercentage ? tightest : undefined;
+};
+
+/** Quota window shown by the `{window…}` placeholders. */
+interface DisplayedWindow {
+    label: string;
+    percentage: number;
+    resetTime: Date;
+    timeUntilReset: number;
+}
+
+/**
+ * Finds the quota window the status bar describes: a tighter window from
+ * {@link getDisplayedQuotaWindow}, otherwise the active 5-hour block.
+ * @param result Usage status result of the latest refresh
+ * @returns The window, or undefined while idle with no window in use
+ */
+const getDisplayedWindow = (result: UsageStatusResult): DisplayedWindow | undefined => {
+    const { status, activeBlock } = result;
+    const quotaWindow = getDisplayedQuotaWindow(status);
+    if (quotaWindow) {
+        return {
+            label: quotaWindow.label,
+            percentage: quotaWindow.usagePercentage ?? 0,
+            resetTime: quotaWindow.resetTime,
+            timeUntilReset: quotaWindow.timeUntilReset
+        };
+    }
+    if (!activeBlock.isActive) {
+        return undefined;
+    }
+    return {
+        label: status.quotaWindows?.find(window => window.id === SESSION_WINDOW_ID)?.label ?? '5-hour',
+        percentage: status.usagePercentage,
+        resetTime: status.resetTime,
+        timeUntilReset: status.timeUntilReset
+    };
+};
+
+/**
+ * Formats a reset time as "HH:MM", with the weekday when it is a day or more away.
+ * @param resetTime Reset time
+ * @param timeUntilReset Milliseconds until the reset
+ * @returns Formatted reset time
+ */
+const formatResetTime = (resetTime: Date, timeUntilReset: number): string =>
+    resetTime.toLocaleString(undefined, {
+        hour12: false,
+        weekday: timeUntilReset >= 24 * 60 * 60 * 1000 ? 'short' : undefined,
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+
+/**
+ * Formats a token count with K/M suffix.
+ * @param tokens Token count
+ * @returns Compact string (e.g., "950", "88K", "1.2M")
+ */
+const formatCompactTokens = (tokens: number): string => {
+    if (tokens >= 1_000_000) {
+        return `${(tokens / 1_000_000).toFixed(1)}M`;
+    }
+    if (tokens >= 1000) {
+        return `${Math.round(tokens / 1000)}K`;
+    }
+    return tokens.toString();
+};
 
 /**
  * Creates status bar text with usage percentage, rate limit, and reset time.
+ * In workspace mode the percentage is the open workspace's usage, followed by its share of the block.
+ * When another quota window (e.g. weekly) is closer to exhaustion than the block, that window is shown instead.
  * @param status Usage status information
  * @param rateLimitEstimate Estimated Rate Limit in tokens
+ * @param currentWorkspaceOnly Whether to show the open workspace's usage
  * @returns Formatted status bar text
  */
-export const getStatusBarText = (status: UsageStatus, rateLimitEstimate: number): string => {
+export const getStatusBarText = (
+    status: UsageStatus,
+    rateLimitEstimate: number,
+    currentWorkspaceOnly: boolean = false
+): string => {
     const percentage = status.usagePercentage;
     const rateLimitFormatted = RateLimitEstimationService.formatRateLimitEstimate(rateLimitEstimate);
 
@@ -25,6 +139,19 @@ export const getStatusBarText = (status: UsageStatus, rateLimitEstimate: number)
     });
 
     const modelDisplay = status.currentModel ? getModelDisplayName(status.currentModel) : '';
+
+    const quotaWindow = getDisplayedQuotaWindow(status);
+    if (quotaWindow) {
+        return getQuotaWindowText(quotaWindow);
+    }
+
+    if (currentWorkspaceOnly && status.workspaceUsage) {
+        const workspace = status.workspaceUsage;
+        const usage = `${workspace.usagePercentage}% (${workspace.shareOfBlock}% of block)`;
+        return modelDisplay
+            ? `$(root-folder) ${modelDisplay} | ${usage} | ${rateLimitFormatted} | ${resetTime}`
+            : `$(root-folder) ${usage} | ${rateLimitFormatted} | ${resetTime}`;
+    }
     
     if (modelDisplay) {
         return `$(terminal) ${modelDisplay} | ${percentage}% | ${rateLimitFormatted} | ${resetTime}`;
@@ -33,18 +160,208 @@ export const getStatusBarText = (status: UsageStatus, rateLimitEstimate: number)
     }
 };
 
+/**
+ * Formats each model's share of the block's tokens, e.g. "Opus 62% · Sonnet 38%".
+ * @param result Usage status result of the latest refresh
+ * @returns Split of the largest models, or undefined for an empty block
+ */
+const formatModelSplit = (result: UsageStatusResult): string | undefined => {
+    const tokensByModel = new Map<string, number>();
+    result.activeBlock.records.forEach(record => {
+        const name = getModelDisplayName(record.model);
+        tokensByModel.set(name, (tokensByModel.get(name) ?? 0) + getWeightedTokens(record, result.tokenWeights));
+    });
+
+    const total = Array.from(tokensByModel.values()).reduce((sum, tokens) => sum + tokens, 0);
+    if (total <= 0) {
+        return undefined;
+    }
+    return Array.from(tokensByModel.entries())
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, MAX_SPLIT_MODELS)
+        .map(([name, tokens]) => `${name} ${Math.round(tokens / total * 100)}%`)
+        .join(' · ');
+};
+
+/**
+ * Formats a dollar amount with cents, dropping them for whole amounts (e.g. "$20", "$12.40").
+ * @param amount Amount in USD
+ * @returns Formatted amount
+ */
+const formatDollars = (amount: number): string =>
+    Number.isInteger(amount) ? `$${amount}` : `$${amount.toFixed(2)}`;
+
+/**
+ * Calculates the share of the block's tokens spent by sub-agents (Task tool sidechains).
+ * @param result Usage status result of the latest refresh
+ * @returns Percentage of the block's tokens, or undefined when no sub-agent ran in the block
+ */
+const calculateSubAgentShare = (result: UsageStatusResult): number | undefined => {
+    let total = 0;
+    let subAgents = 0;
+    result.activeBlock.records.forEach(record => {
+        const tokens = getWeightedTokens(record, result.tokenWeights);
+        total += tokens;
+        subAgents += record.isSidechain ? tokens : 0;
+    });
+    return total > 0 && subAgents > 0 ? Math.round(subAgents / total * 100) : undefined;
+};
+
+/**
+ * Creates the placeholder values of the status bar format.
+ * In workspace mode `{percent}` and `{tokens}` describe the open workspace; all other
+ * placeholders describe the whole block. The `{window…}` placeholders follow the quota
+ * window the built-in layout shows, so custom formats switch to e.g. the weekly window
+ * too. Without an active block only `{limit}`, the budget and the window placeholders have values.
+ * @param result Usage status result of the latest refresh
+ * @param currentWorkspaceOnly Whether to show the open workspace's usage
+ * @returns Values for every placeholder in {@link STATUS_BAR_PLACEHOLDERS}
+ */
+export const createStatusBarPlaceholders = (
+    result: UsageStatusResult,
+    currentWorkspaceOnly: boolean = false
+): PlaceholderValues => {
+    const { status, rateLimitEstimate, activeBlock, pricingTable } = result;
+    const displayedWindow = getDisplayedWindow(result);
+    const windowValues: PlaceholderValues = {
+        window: displayedWindow ? { text: displayedWindow.label } : undefined,
+        windowPercent: displayedWindow ? { text: `${displayedWindow.percentage}`, value: displayedWindow.percentage } : undefined,
+        windowReset: displayedWindow ? { text: formatResetTime(displayedWindow.resetTime, displayedWindow.timeUntilReset) } : undefined
+    };
+    const budget = selectMostConstrainedBudget(status.budgets ?? []);
+    const budgetValues: PlaceholderValues = {
+        budget: budget
+            ? { text: `${formatDollars(budget.spent)}/${formatDollars(budget.amount)}`, value: budget.percentage }
+            : undefined,
+        budgetForecast: budget ? { text: formatDollars(budget.forecast), value: budget.forecastPercentage } : undefined
+    };
+    const limit = rateLimitEstimate > 0
+        ? { text: RateLimitEstimationService.formatRateLimitEstimate(rateLimitEstimate), value: rateLimitEstimate }
+        : undefined;
+
+    if (!activeBlock.isActive) {
+        return {
+            ...Object.fromEntries(STATUS_BAR_PLACEHOLDERS.map(name => [name, undefined])),
+            limit,
+            ...budgetValues,
+            ...windowValues
+        };
+    }
+
+    const workspace = currentWorkspaceOnly ? status.workspaceUsage : undefined;
+    const percentage = workspace ? workspace.usagePercentage : status.usagePercentage;
+    const tokens = workspace ? workspace.totalTokens : status.currentUsage;
+    const cost = calculateRecordsCost(activeBlock.records, pricingTable);
+    const burnRate = status.burnRate && status.burnRate.tokensPerMinute > 0 ? status.burnRate : undefined;
+    const modelSplit = formatModelSplit(result);
+    const subAgentShare = calculateSubAgentShare(result);
+
+    return {
+        percent: { text: `${percentage}`, value: percentage },
+        tokens: { text: formatCompactTokens(tokens), value: tokens },
+        limit,
+        reset: {
+            text: status.resetTime.toLocaleTimeString(undefined, { hour12: false, hour: '2-digit', minute: '2-digit' })
+        },
+        countdown: {
+            text: status.timeUntilResetFormatted,
+            value: Math.floor(status.timeUntilReset / (60 * 1000))
+        },
+        burnRate: burnRate ? { text: formatBurnRate(burnRate), value: burnRate.tokensPerMinute } : undefined,
+        model: status.currentModel ? { text: getModelDisplayName(status.currentModel) } : undefined,
+        cost: { text: `$${cost.toFixed(2)}`, value: cost },
+        trend: burnRate ? { text: TREND_ICONS[burnRate.trend] } : undefined,
+        models: modelSplit ? { text: modelSplit } : undefined,
+        subagents: subAgentShare !== undefined ? { text: `${subAgentShare}%`, value: subAgentShare } : undefined,
+        ...budgetValues,
+        ...windowValues
+    };
+};
+
+/**
+ * Creates status bar text from a user-defined format, or the built-in layout when the format is empty.
+ * While no block is active the built-in layout shows a quota window still in use, or "No active block".
+ * @param result Usage status result of the latest refresh
+ * @param format Format with placeholders (see {@link StatusBarTemplate})
+ * @param currentWorkspaceOnly Whether to show the open workspace's usage
+ * @returns Formatted status bar text
+ */
+export const formatStatusBarText = (
+    result: UsageStatusResult,
+    format: string,
+    currentWorkspaceOnly: boolean = false
+): string => {
+    if (!format.trim()) {
+        if (!result.activeBlock.isActive) {
+            const quotaWindow = getDisplayedQuotaWindow(result.status);
+            return quotaWindow ? getQuotaWindowText(quotaWindow) : NO_ACTIVE_BLOCK_TEXT;
+        }
+        return getStatusBarText(result.status, result.rateLimitEstimate, currentWorkspaceOnly);
+    }
+    return renderStatusBarFormat(format, createStatusBarPlaceholders(result, currentWorkspaceOnly));
+};
+
+/**
+ * Creates status bar text for a quota window other than the 5-hour block.
+ * @param window Quota window closest to exhaustion
+ * @returns Formatted status bar text, e.g. "$(calendar) Weekly 82% | ~5.0M | Mon 09:00"
+ */
+export const getQuotaWindowText = (window: QuotaWindowStatus): string => {
+    const limit = window.limit ? ` | ~${formatCompactTokens(window.limit)}` : '';
+    const reset = formatResetTime(window.resetTime, window.timeUntilReset);
+    return `$(calendar) ${window.label} ${window.usagePercentage ?? 0}%${limit} | ${reset}`;
+};
+
+/**
+ * Formats every quota window as "label: used / limit tokens (XX%), resets in ..." lines.
+ * @param windows Evaluated quota windows
+ * @returns Formatted lines in window order
+ */
+export const formatQuotaWindows = (windows: QuotaWindowStatus[]): string[] => {
+    return windows.map(window => {
+        const used = window.usedTokens.toLocaleString();
+        const usage = window.limit
+            ? `${used} / ${window.limit.toLocaleString()} tokens (${window.usagePercentage}%, ${window.limitSource})`
+            : `${used} tokens (no known limit)`;
+        return `${window.label}: ${usage}, resets in ${window.timeUntilResetFormatted}`;
+    });
+};
+
+/**
+ * Formats every budget as "label: $spent / $budget (XX%), forecast $... (XX%) at $.../h, resets in ..." lines.
+ * @param budgets Evaluated budgets
+ * @returns Formatted lines in budget order
+ */
+export const formatBudgets = (budgets: BudgetStatus[]): string[] => {
+    const states: Record<BudgetStatus['state'], string> = {
+        ok: '',
+        forecast: ' – forecast over budget',
+        warning: ' – nearly spent',
+        exceeded: ' – exceeded'
+    };
+    return budgets.map(budget =>
+        `${budget.label}: $${budget.spent.toFixed(2)} / $${budget.amount.toFixed(2)} (${budget.percentage}%), ` +
+        `forecast $${budget.forecast.toFixed(2)} (${budget.forecastPercentage}%) at $${budget.runRatePerHour.toFixed(2)}/h, ` +
+        `resets in ${budget.timeUntilResetFormatted}${states[budget.state]}`);
+};
+
 /**
  * Returns color based on usage percentage.
+ * Uses the quota window closest to exhaustion when it is tighter than the 5-hour block,
+ * and at least the warning or critical colour while a budget is nearly spent or exceeded.
  * @param status Usage status with percentage information
- * @returns Hex color code for status bar styling
+ * @param colors Configured colours
+ * @returns Theme colour id or CSS colour for status bar styling
  */
-export const getStatusBarColor = (status: UsageStatus): string => {
-    if (status.usagePercentage >= 100) {
-        return '#ff4444';
-    } else if (status.usagePercentage >= 70) {
-        return '#ffaa00';
+export const getStatusBarColor = (status: UsageStatus, colors: StatusBarColors = DEFAULT_STATUS_BAR_COLORS): string => {
+    const percentage = getDisplayedQuotaWindow(status)?.usagePercentage ?? status.usagePercentage;
+    const budgets = status.budgets ?? [];
+    if (percentage >= 100 || budgets.some(budget => budget.state === 'exceeded')) {
+        return colors.critical;
+    } else if (percentage >= 70 || budgets.some(budget => budget.state === 'warning')) {
+        return colors.warning;
     } else {
-        return '#00aa00';
+        return colors.normal;
     }
 };
 
@@ -58,6 +375,44 @@ export const formatUsageDetails = (status: UsageStatus): string => {
     return `${formattedUsage} tokens (${status.usagePercentage}% of block)`;
 };
 
+/**
+ * Formats per-project usage as "project: X,XXX tokens (XX% of block)" lines.
+ * @param status Usage status with project attribution
+ * @param maxProjects Maximum number of projects to list
+ * @returns Formatted lines, largest consumers first
+ */
+export const formatProjectUsage = (status: UsageStatus, maxProjects: number = 5): string[] => {
+    return (status.projectUsage ?? [])
+        .slice(0, maxProjects)
+        .map(usage => `${usage.project}: ${usage.totalTokens.toLocaleString()} tokens (${usage.shareOfBlock}% of block)`);
+};
+
+/**
+ * Formats block summaries as table rows: start, end, tokens, requests, top models, sub-agent share, limit hit.
+ * @param blocks Block summaries, newest first
+ * @param maxBlocks Maximum number of blocks to include
+ * @returns Table rows of display strings
+ */
+export const formatBlockHistoryRows = (blocks: BlockSummary[], maxBlocks: number = 30): string[][] => {
+    const formatDateTime = (date: Date) => date.toLocaleString(undefined, {
+        hour12: false,
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+
+    return blocks.slice(0, maxBlocks).map(block => [
+        formatDateTime(block.startTime),
+        formatDateTime(block.endTime) + (block.isActive ? ' (active)' : ''),
+        block.totalTokens.toLocaleString(),
+        block.requestCount.toLocaleString(),
+        block.topModels.map(top => `${getModelDisplayName(top.model)} (${top.requests})`).join(', '),
+        block.totalTokens > 0 && block.subAgentTokens > 0 ? `${Math.round(block.subAgentTokens / block.totalTokens * 100)}%` : '–',
+        block.likelyHitLimit ? 'Yes' : 'No'
+    ]);
+};
+
 /**
  * Creates structured time and burn rate details for tooltip display.
  * @param status Complete usage status with timing data
@@ -108,9 +463,18 @@ export const formatTimeDetails = (status: UsageStatus): { [key: string]: string
             }
         }
         
+        const subAgents = burnRate.agentBreakdown?.find(agent => agent.agent === 'subagent');
+        if (subAgents && subAgents.tokens > 0) {
+            const rate = subAgents.tokensPerMinute > 0 ? `, ${formatCompactTokens(subAgents.tokensPerMinute)}/min` : '';
+            details['Sub-agents'] = `${subAgents.percentage}% of recent tokens (${subAgents.requests.toLocaleString()} req${rate})`;
+        }
+
         if (burnRate.modelBreakdown?.[0]) {
             const topModel = burnRate.modelBreakdown[0];
-            details['Top Model'] = `${topModel.model} (${topModel.percentage}%)`;
+            const subAgentShare = topModel.subAgentTokens && topModel.tokens > 0
+                ? `, ${Math.round(topModel.subAgentTokens / topModel.tokens * 100)}% sub-agents`
+                : '';
+            details['Top Model'] = `${topModel.model} (${topModel.percentage}%${subAgentShare})`;
             if (topModel.estimatedCost && topModel.estimatedCost > 0) {
                 details['Estimated Cost'] = `$${topModel.estimatedCost.toFixed(3)}`;
             }
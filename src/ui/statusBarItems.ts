@@ -0,0 +1,79 @@
+/**
+ * Status Bar Items - UI Layer
+ *
+ * Additional status bar entries next to the main usage item, each showing one
+ * metric with its own click command, visibility rule and position. All entries
+ * render from the same placeholder values, so one usage computation per refresh
+ * drives every entry.
+ *
+ * @module StatusBarItems
+ */
+
+import * as vscode from 'vscode';
+import { PlaceholderValues, renderStatusBarFormat, matchesPlaceholderCondition } from '../core/statusBarTemplate';
+import { StatusBarItemDefinition } from '../core/statusBarConfig';
+
+/** Keeps the additional status bar entries in sync with their definitions. */
+export class StatusBarItems implements vscode.Disposable {
+    private readonly items = new Map<string, { definition: StatusBarItemDefinition; item: vscode.StatusBarItem }>();
+
+    /**
+     * Applies new definitions. Entries are re-created only when their position
+     * changed, since alignment and priority are fixed at creation.
+     * @param definitions Entries to show, in settings order
+     */
+    configure(definitions: StatusBarItemDefinition[]): void {
+        const ids = new Set(definitions.map(definition => definition.id));
+        this.items.forEach((entry, id) => {
+            if (!ids.has(id)) {
+                entry.item.dispose();
+                this.items.delete(id);
+            }
+        });
+
+        definitions.forEach(definition => {
+            const existing = this.items.get(definition.id);
+            let item = existing?.item;
+            if (!item || existing!.definition.alignment !== definition.alignment || existing!.definition.priority !== definition.priority) {
+                item?.dispose();
+                item = vscode.window.createStatusBarItem(
+                    `claude-code-usage.${definition.id}`,
+                    definition.alignment === 'left' ? vscode.StatusBarAlignment.Left : vscode.StatusBarAlignment.Right,
+                    definition.priority
+                );
+                item.name = `Claude Code Usage: ${definition.id}`;
+            }
+            item.command = definition.command;
+            item.tooltip = definition.tooltip;
+            this.items.set(definition.id, { definition, item });
+        });
+    }
+
+    /**
+     * Renders every entry.
+     * Entries are hidden without usage data, when their text is empty or when
+     * their visibility condition does not hold.
+     * @param values Placeholder values of the latest refresh, undefined when there is nothing to show
+     */
+    update(values: PlaceholderValues | undefined): void {
+        this.items.forEach(({ definition, item }) => {
+            const text = values ? renderStatusBarFormat(definition.format, values) : '';
+            const visible = values !== undefined && text !== '' &&
+                (!definition.showWhen || matchesPlaceholderCondition(definition.showWhen, values));
+            if (visible) {
+                item.text = text;
+                item.show();
+            } else {
+                item.hide();
+            }
+        });
+    }
+
+    /**
+     * Disposes every entry.
+     */
+    dispose(): void {
+        this.items.forEach(({ item }) => item.dispose());
+        this.items.clear();
+    }
+}
@@ -10,30 +10,49 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 /**
- * Template data interface for rendering.
+ * Template data for a scripted webview page shell.
  */
-export interface TemplateData {
-    currentUsage: string;
-    usageLevel: string;
-    baselineConfidence: string;
-    resetTime: string;
-    timeUntilReset: string;
-    consumptionRate: string;
-    burnRate?: string;
-    topModel?: string;
-    estimatedHighUsage?: string;
-    estimatedDepletion?: string;
-    statusClass: string;
-    statusEmoji: string;
-    statusText: string;
+export interface WebviewTemplateData {
+    /** Content-Security-Policy source of the webview */
+    cspSource: string;
+    /** Per-load nonce allowing the page script */
+    nonce: string;
+    /** Webview URI of the page script */
+    scriptUri: string;
+    /** Webview URI of `webview.css` */
+    styleUri: string;
 }
 
+/** Values substituted into a template. */
+type TemplateValues = Record<string, string | undefined>;
+
 /**
  * Loads and processes HTML templates.
  */
 export class TemplateService {
     private static templateCache = new Map<string, string>();
 
+    /**
+     * Locates a template asset (HTML, script or stylesheet) on disk.
+     * @param fileName File name including extension
+     * @param extensionPath Path to the extension root
+     * @returns Absolute path of the first existing candidate
+     */
+    static resolveTemplatePath(fileName: string, extensionPath: string): string {
+        // Try multiple possible locations
+        const possiblePaths = [
+            path.join(extensionPath, 'src', 'templates', fileName),
+            path.join(extensionPath, 'out', 'templates', fileName),
+            path.join(extensionPath, 'templates', fileName)
+        ];
+
+        const templatePath = possiblePaths.find(candidate => fs.existsSync(candidate));
+        if (!templatePath) {
+            throw new Error(`Template ${fileName} not found in any location`);
+        }
+        return templatePath;
+    }
+
     /**
      * Loads a template file from disk.
      * @param templateName Name of the template file (without extension)
@@ -47,22 +66,9 @@ export class TemplateService {
         }
 
         try {
-            // Try multiple possible locations
-            const possiblePaths = [
-                path.join(extensionPath, 'src', 'templates', `${templateName}.html`),
-                path.join(extensionPath, 'out', 'templates', `${templateName}.html`),
-                path.join(extensionPath, 'templates', `${templateName}.html`)
-            ];
-
-            for (const templatePath of possiblePaths) {
-                if (fs.existsSync(templatePath)) {
-                    const content = fs.readFileSync(templatePath, 'utf-8');
-                    this.templateCache.set(templateName, content);
-                    return content;
-                }
-            }
-            
-            throw new Error(`Template not found in any location`);
+            const content = fs.readFileSync(this.resolveTemplatePath(`${templateName}.html`, extensionPath), 'utf-8');
+            this.templateCache.set(templateName, content);
+            return content;
         } catch (error) {
             console.error(`Failed to load template ${templateName}:`, error);
             throw error;
@@ -76,19 +82,19 @@ export class TemplateService {
      * @param data Data to render
      * @returns Rendered HTML
      */
-    private static render(template: string, data: TemplateData): string {
+    private static render(template: string, data: TemplateValues): string {
         // Replace variables
         let rendered = template;
         Object.entries(data).forEach(([key, value]) => {
             if (value !== undefined) {
                 const regex = new RegExp(`{{${key}}}`, 'g');
-                rendered = rendered.replace(regex, value);
+                rendered = rendered.replace(regex, () => value);
             }
         });
 
         // Handle conditional blocks
         rendered = rendered.replace(/{{#if\s+(\w+)}}([\s\S]*?){{\/if}}/g, (match, key, content) => {
-            const value = data[key as keyof TemplateData];
+            const value = data[key];
             return value ? content : '';
         });
 
@@ -99,13 +105,28 @@ export class TemplateService {
     }
 
     /**
-     * Renders the usage details template with the provided data.
+     * Escapes text for safe inclusion in HTML.
+     * @param text Raw text
+     * @returns HTML-escaped text
+     */
+    static escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+
+    /**
+     * Renders a webview page shell. Content is filled in by the page script.
+     * @param templateName Name of the template file (without extension)
      * @param data Template data
      * @param extensionPath Path to the extension root
      * @returns Rendered HTML string
      */
-    static renderUsageDetails(data: TemplateData, extensionPath: string): string {
-        const template = this.loadTemplate('usageDetails', extensionPath);
-        return this.render(template, data);
+    static renderWebview(templateName: string, data: WebviewTemplateData, extensionPath: string): string {
+        const template = this.loadTemplate(templateName, extensionPath);
+        return this.render(template, { ...data });
     }
-}
\ No newline at end of file
+}
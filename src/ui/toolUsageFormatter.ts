@@ -0,0 +1,65 @@
+/**
+ * Tool Usage Formatter - UI Display Layer
+ *
+ * Converts a tool attribution report into the rows rendered by the tool
+ * usage webview.
+ *
+ * @module ToolUsageFormatter
+ */
+
+import { ToolAttributionReport, ToolUsageStats } from '../core/toolAttribution';
+import { ToolUsageData, ToolUsageRow } from './toolUsageProtocol';
+
+/**
+ * Creates the tool usage webview data.
+ * @param report Tool attribution report
+ * @param title What was analyzed
+ * @param sessionCount Number of session transcripts read
+ * @param currentTime Time the analysis was computed
+ * @returns Rows and totals for display
+ */
+export const createToolUsageData = (
+    report: ToolAttributionReport,
+    title: string,
+    sessionCount: number,
+    currentTime: Date = new Date()
+): ToolUsageData => {
+    const totalAttributed = report.tools.reduce((sum, tool) => sum + tool.attributedTokens, 0);
+    const toRow = (stats: ToolUsageStats): ToolUsageRow => ({
+        tool: stats.tool,
+        calls: stats.calls,
+        errors: stats.errors,
+        resultChars: stats.resultChars,
+        inputTokens: stats.attributedInputTokens,
+        cacheCreationTokens: stats.attributedCacheCreationTokens,
+        cacheReadTokens: stats.attributedCacheReadTokens,
+        attributedTokens: stats.attributedTokens,
+        share: totalAttributed > 0 ? Math.round(stats.attributedTokens / totalAttributed * 1000) / 10 : 0,
+        cost: stats.attributedCost
+    });
+
+    const sum = (key: keyof ToolUsageStats) =>
+        report.tools.reduce((total, tool) => total + (tool[key] as number), 0);
+
+    return {
+        title,
+        generatedAt: currentTime.getTime(),
+        sessionCount,
+        turnCount: report.turnCount,
+        turnsWithTools: report.turnsWithTools,
+        rows: report.tools.map(toRow),
+        totals: toRow({
+            tool: 'Total',
+            calls: sum('calls'),
+            errors: sum('errors'),
+            resultChars: sum('resultChars'),
+            attributedInputTokens: sum('attributedInputTokens'),
+            attributedCacheCreationTokens: sum('attributedCacheCreationTokens'),
+            attributedCacheReadTokens: sum('attributedCacheReadTokens'),
+            attributedTokens: totalAttributed,
+            attributedCost: sum('attributedCost')
+        }),
+        unattributedTokens: report.unattributedTokens,
+        unattributedCost: report.unattributedCost
+    };
+};
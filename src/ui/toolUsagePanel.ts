@@ -0,0 +1,77 @@
+/**
+ * Tool Usage Panel - UI Layer
+ *
+ * Webview panel showing per-tool call counts, result sizes and the tokens
+ * attributed to each tool for a block, a day or a project. Results arrive
+ * through the typed messages of {@link ToolUsageProtocol}.
+ *
+ * @module ToolUsagePanel
+ */
+
+import { ToolAttributionReport } from '../core/toolAttribution';
+import { SingletonWebviewPanel } from './singletonWebviewPanel';
+import { createToolUsageData } from './toolUsageFormatter';
+import { ExtensionToToolUsageMessage, isToolUsageToExtensionMessage } from './toolUsageProtocol';
+
+/** A tool attribution report with what it covers. */
+export interface ToolUsageAnalysis {
+    /** What was analyzed, e.g. "Project /home/me/app" */
+    title: string;
+    sessionCount: number;
+    report: ToolAttributionReport;
+}
+
+/** Reads the transcripts in scope and attributes their usage. */
+export type ToolUsageLoader = () => Promise<ToolUsageAnalysis>;
+
+const VIEW_TYPE = 'claudeUsageTools';
+
+/** Singleton tool usage webview; showing another scope replaces the current one. */
+export class ToolUsagePanel extends SingletonWebviewPanel {
+    /**
+     * Shows a tool usage analysis, creating the panel on first use.
+     * @param extensionPath Path to the extension root
+     * @param loadAnalysis Computes the analysis; called again on reload
+     */
+    static show(extensionPath: string, loadAnalysis: ToolUsageLoader): void {
+        const current = ToolUsagePanel.getOpenPanel<ToolUsagePanel>(VIEW_TYPE);
+        if (current) {
+            current.loadAnalysis = loadAnalysis;
+            current.reveal();
+            void current.postAnalysis();
+            return;
+        }
+        new ToolUsagePanel(extensionPath, loadAnalysis);
+    }
+
+    /**
+     * Closes the panel if it is open.
+     */
+    static close(): void {
+        ToolUsagePanel.closePanel(VIEW_TYPE);
+    }
+
+    private constructor(extensionPath: string, private loadAnalysis: ToolUsageLoader) {
+        super({ viewType: VIEW_TYPE, title: 'Claude Code Tool Usage', template: 'toolUsage' }, extensionPath);
+    }
+
+    /** Handles a message from the webview script. */
+    protected handleMessage(message: unknown): void {
+        if (isToolUsageToExtensionMessage(message)) {
+            void this.postAnalysis();
+        }
+    }
+
+    /** Computes the analysis and sends it to the webview. */
+    private async postAnalysis(): Promise<void> {
+        let message: ExtensionToToolUsageMessage;
+        try {
+            const analysis = await this.loadAnalysis();
+            message = { type: 'toolUsage', data: createToolUsageData(analysis.report, analysis.title, analysis.sessionCount) };
+        } catch (error) {
+            console.error('Error analyzing tool usage:', error);
+            message = { type: 'error', message: 'Failed to read Claude Code transcripts for the tool analysis.' };
+        }
+        void this.panel.webview.postMessage(message);
+    }
+}
@@ -0,0 +1,66 @@
+/**
+ * Tool Usage Protocol - UI Layer
+ *
+ * Messages exchanged between the extension and the tool usage webview. The
+ * webview script (`templates/toolUsage.js`) mirrors these shapes; keep both in
+ * sync when changing a message.
+ *
+ * @module ToolUsageProtocol
+ */
+
+/** One table row; numbers stay raw so the webview can sort them. */
+export interface ToolUsageRow {
+    /** Tool name, or "Total" for the totals row */
+    tool: string;
+    calls: number;
+    errors: number;
+    resultChars: number;
+    inputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    /** Attributed tokens per the token accounting model */
+    attributedTokens: number;
+    /** Share of all attributed tokens in percent */
+    share: number;
+    /** Estimated cost of the attributed tokens in USD */
+    cost: number;
+}
+
+/** A tool usage analysis ready for display. */
+export interface ToolUsageData {
+    /** What was analyzed, e.g. "Block 10/19 14:00–19:00" */
+    title: string;
+    /** When the analysis was computed (epoch milliseconds) */
+    generatedAt: number;
+    sessionCount: number;
+    turnCount: number;
+    turnsWithTools: number;
+    rows: ToolUsageRow[];
+    totals: ToolUsageRow;
+    /** Input and cache tokens of turns without tool results */
+    unattributedTokens: number;
+    unattributedCost: number;
+}
+
+/** Messages sent from the extension to the webview. */
+export type ExtensionToToolUsageMessage =
+    | { type: 'toolUsage'; data: ToolUsageData }
+    | { type: 'error'; message: string };
+
+/** Messages sent from the webview to the extension; the script sends `ready` on load. */
+export type ToolUsageToExtensionMessage =
+    | { type: 'ready' }
+    | { type: 'reload' };
+
+/**
+ * Validates a message received from the webview.
+ * @param value Raw message payload
+ * @returns Whether the payload is a known tool usage message
+ */
+export const isToolUsageToExtensionMessage = (value: unknown): value is ToolUsageToExtensionMessage => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const type = (value as { type?: unknown }).type;
+    return type === 'ready' || type === 'reload';
+};
@@ -0,0 +1,128 @@
+/**
+ * Tool Usage Scope Picker - UI Layer
+ *
+ * Lets the user choose what the tool usage analysis covers: the current
+ * 5-hour block, today, another day or a project.
+ *
+ * @module ToolUsageScopePicker
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ClaudeUsageRecord, SessionWindow } from '../types';
+import { parseLocalDate } from './exportDialog';
+import { formatLocalDate } from '../utils/timeUtils';
+
+/** What a tool usage analysis covers. */
+export interface ToolUsageScopeRequest {
+    /** Shown as the panel title, e.g. "Today (2026-10-19)" */
+    title: string;
+    /** Records in scope; their sessions are the transcripts to read */
+    records: ClaudeUsageRecord[];
+    /** Earliest included turn time (inclusive) */
+    from?: Date;
+    /** Latest included turn time (exclusive) */
+    to?: Date;
+    /** Only turns of this model */
+    model?: string;
+}
+
+type ScopeKind = 'block' | 'today' | 'day' | 'project';
+
+const SCOPE_ITEMS: Array<vscode.QuickPickItem & { scope: ScopeKind }> = [
+    { label: 'Current block', description: 'The latest 5-hour block', scope: 'block' },
+    { label: 'Today', description: 'Since local midnight', scope: 'today' },
+    { label: 'A day…', description: 'One local day', scope: 'day' },
+    { label: 'A project…', description: 'All sessions of one project', scope: 'project' }
+];
+
+/** Creates the scope of one local day. */
+const createDayScope = (records: ClaudeUsageRecord[], day: Date, title: string): ToolUsageScopeRequest => {
+    const from = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+    const to = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    return {
+        title,
+        records: records.filter(record => {
+            const time = new Date(record.timestamp).getTime();
+            return time >= from.getTime() && time < to.getTime();
+        }),
+        from,
+        to
+    };
+};
+
+/**
+ * Asks for the scope of a tool usage analysis.
+ * @param records Usage records in chronological order
+ * @param blocks 5-hour blocks of the records, oldest first
+ * @param currentTime Reference time for "today"
+ * @returns The scope, or undefined if the user cancelled any step
+ */
+export const promptToolUsageScope = async (
+    records: ClaudeUsageRecord[],
+    blocks: SessionWindow[],
+    currentTime: Date = new Date()
+): Promise<ToolUsageScopeRequest | undefined> => {
+    const scopeItem = await vscode.window.showQuickPick(SCOPE_ITEMS, { placeHolder: 'What should the tool usage analysis cover?' });
+    if (!scopeItem) {
+        return undefined;
+    }
+
+    switch (scopeItem.scope) {
+        case 'block': {
+            const block = blocks[blocks.length - 1];
+            if (!block) {
+                vscode.window.showInformationMessage('No Claude Code usage blocks found.');
+                return undefined;
+            }
+            const time = (date: Date) => date.toLocaleTimeString(undefined, { hour12: false, hour: '2-digit', minute: '2-digit' });
+            return {
+                title: `Block ${formatLocalDate(block.startTime)} ${time(block.startTime)}–${time(block.endTime)}`,
+                records: block.records,
+                from: block.startTime,
+                to: block.endTime
+            };
+        }
+        case 'today':
+            return createDayScope(records, currentTime, `Today (${formatLocalDate(currentTime)})`);
+        case 'day': {
+            const text = await vscode.window.showInputBox({
+                prompt: 'Day to analyze (local time)',
+                placeHolder: 'YYYY-MM-DD',
+                value: formatLocalDate(currentTime),
+                validateInput: value => parseLocalDate(value) ? undefined : 'Enter a date as YYYY-MM-DD'
+            });
+            if (text === undefined) {
+                return undefined;
+            }
+            const day = parseLocalDate(text)!;
+            return createDayScope(records, day, formatLocalDate(day));
+        }
+        case 'project': {
+            const projects = new Map<string, ClaudeUsageRecord[]>();
+            records.forEach(record => {
+                const project = record.project ?? record.projectKey ?? '';
+                const projectRecords = projects.get(project);
+                if (projectRecords) {
+                    projectRecords.push(record);
+                } else {
+                    projects.set(project, [record]);
+                }
+            });
+            const projectItem = await vscode.window.showQuickPick(
+                Array.from(projects.entries())
+                    .sort(([, a], [, b]) => b.length - a.length)
+                    .map(([project, projectRecords]) => ({
+                        label: path.basename(project) || project || 'Unknown project',
+                        description: `${projectRecords.length.toLocaleString()} requests`,
+                        detail: project,
+                        project
+                    })),
+                { placeHolder: 'Project to analyze', matchOnDetail: true }
+            );
+            return projectItem
+                ? { title: `Project ${projectItem.project}`, records: projects.get(projectItem.project)! }
+                : undefined;
+        }
+    }
+};
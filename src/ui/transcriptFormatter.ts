@@ -0,0 +1,50 @@
+/**
+ * Transcript Formatter - UI Display Layer
+ *
+ * Converts a parsed session transcript into the rows rendered by the
+ * transcript webview.
+ *
+ * @module TranscriptFormatter
+ */
+
+import { SessionTranscript } from '../core/sessionTranscript';
+import { TranscriptData } from './transcriptProtocol';
+
+/**
+ * Creates the transcript webview data.
+ * @param transcript Parsed session transcript
+ * @param currentTime Time the transcript was read
+ * @returns Turns and totals for display
+ */
+export const createTranscriptData = (transcript: SessionTranscript, currentTime: Date = new Date()): TranscriptData => ({
+    sessionId: transcript.sessionId,
+    filePath: transcript.filePath,
+    generatedAt: currentTime.getTime(),
+    turns: transcript.turns.map(turn => ({
+        index: turn.index,
+        time: new Date(turn.timestamp).getTime(),
+        model: turn.model,
+        isSidechain: turn.isSidechain,
+        inputTokens: turn.inputTokens,
+        outputTokens: turn.outputTokens,
+        cacheCreationTokens: turn.cacheCreationTokens,
+        cacheReadTokens: turn.cacheReadTokens,
+        totalTokens: turn.totalTokens,
+        cost: turn.estimatedCost,
+        prompt: turn.promptPreview ?? '',
+        precedingToolCalls: turn.precedingToolCalls.map(call => ({
+            name: call.name,
+            inputPreview: call.inputPreview,
+            resultChars: call.resultChars,
+            isError: call.isError
+        })),
+        response: turn.responsePreview,
+        requestedTools: turn.requestedTools.map(tool => ({ name: tool.name, inputPreview: tool.inputPreview }))
+    })),
+    totals: {
+        turns: transcript.turns.length,
+        totalTokens: transcript.turns.reduce((sum, turn) => sum + turn.totalTokens, 0),
+        cost: transcript.turns.reduce((sum, turn) => sum + turn.estimatedCost, 0)
+    },
+    oversizedLines: transcript.oversizedLines
+});
@@ -0,0 +1,79 @@
+/**
+ * Transcript Panel - UI Layer
+ *
+ * Read-only webview listing the assistant turns of one Claude Code session
+ * with their token usage, cost, prompt and the tool calls that preceded them.
+ * Turns arrive through the typed messages of {@link TranscriptProtocol}.
+ *
+ * @module TranscriptPanel
+ */
+
+import * as path from 'path';
+import { SessionTranscript } from '../core/sessionTranscript';
+import { SingletonWebviewPanel } from './singletonWebviewPanel';
+import { createTranscriptData } from './transcriptFormatter';
+import { ExtensionToTranscriptMessage, isTranscriptToExtensionMessage } from './transcriptProtocol';
+
+/** Reads and analyzes a transcript file. */
+export type TranscriptLoader = (filePath: string) => Promise<SessionTranscript>;
+
+const VIEW_TYPE = 'claudeUsageTranscript';
+
+/** Singleton transcript webview; showing another session replaces the current one. */
+export class TranscriptPanel extends SingletonWebviewPanel {
+    /**
+     * Shows a session transcript, creating the panel on first use.
+     * @param extensionPath Path to the extension root
+     * @param filePath Transcript file (`{sessionId}.jsonl`)
+     * @param loadTranscript Reads the transcript with the current settings
+     */
+    static show(extensionPath: string, filePath: string, loadTranscript: TranscriptLoader): void {
+        const current = TranscriptPanel.getOpenPanel<TranscriptPanel>(VIEW_TYPE);
+        if (current) {
+            current.filePath = filePath;
+            current.panel.title = TranscriptPanel.getTitle(filePath);
+            current.reveal();
+            void current.postTranscript();
+            return;
+        }
+        new TranscriptPanel(extensionPath, filePath, loadTranscript);
+    }
+
+    /**
+     * Closes the transcript if it is open.
+     */
+    static close(): void {
+        TranscriptPanel.closePanel(VIEW_TYPE);
+    }
+
+    private static getTitle(filePath: string): string {
+        return `Transcript ${path.basename(filePath, '.jsonl').slice(0, 8)}`;
+    }
+
+    private constructor(
+        extensionPath: string,
+        private filePath: string,
+        private readonly loadTranscript: TranscriptLoader
+    ) {
+        super({ viewType: VIEW_TYPE, title: TranscriptPanel.getTitle(filePath), template: 'transcript' }, extensionPath);
+    }
+
+    /** Handles a message from the webview script. */
+    protected handleMessage(message: unknown): void {
+        if (isTranscriptToExtensionMessage(message)) {
+            void this.postTranscript();
+        }
+    }
+
+    /** Reads the current transcript and sends it to the webview. */
+    private async postTranscript(): Promise<void> {
+        let message: ExtensionToTranscriptMessage;
+        try {
+            message = { type: 'transcript', data: createTranscriptData(await this.loadTranscript(this.filePath)) };
+        } catch (error) {
+            console.error('Error reading transcript:', error);
+            message = { type: 'error', message: `Failed to read transcript ${this.filePath}.` };
+        }
+        void this.panel.webview.postMessage(message);
+    }
+}
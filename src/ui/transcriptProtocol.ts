@@ -0,0 +1,73 @@
+/**
+ * Transcript Protocol - UI Layer
+ *
+ * Messages exchanged between the extension and the transcript webview. The
+ * webview script (`templates/transcript.js`) mirrors these shapes; keep both
+ * in sync when changing a message.
+ *
+ * @module TranscriptProtocol
+ */
+
+/** A tool call listed with a turn. */
+export interface TranscriptToolCallRow {
+    name: string;
+    inputPreview: string;
+    /** Result size in characters; absent for calls the turn requested */
+    resultChars?: number;
+    isError?: boolean;
+}
+
+/** One assistant turn; numbers stay raw so the webview can sort them. */
+export interface TranscriptTurnRow {
+    index: number;
+    /** Epoch milliseconds */
+    time: number;
+    model: string;
+    isSidechain: boolean;
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    totalTokens: number;
+    /** Estimated cost in USD */
+    cost: number;
+    prompt: string;
+    precedingToolCalls: TranscriptToolCallRow[];
+    response: string;
+    requestedTools: TranscriptToolCallRow[];
+}
+
+/** A transcript ready for display. */
+export interface TranscriptData {
+    sessionId: string;
+    filePath: string;
+    /** When the transcript was read (epoch milliseconds) */
+    generatedAt: number;
+    turns: TranscriptTurnRow[];
+    totals: { turns: number; totalTokens: number; cost: number };
+    /** Lines skipped because they were too large to read */
+    oversizedLines: number;
+}
+
+/** Messages sent from the extension to the webview. */
+export type ExtensionToTranscriptMessage =
+    | { type: 'transcript'; data: TranscriptData }
+    | { type: 'error'; message: string };
+
+/** Messages sent from the webview to the extension; the script sends `ready` on load. */
+export type TranscriptToExtensionMessage =
+    | { type: 'ready' }
+    | { type: 'reload' };
+
+/**
+ * Validates a message received from the webview.
+ * @param value Raw message payload
+ * @returns Whether the payload is a known transcript message
+ */
+export const isTranscriptToExtensionMessage = (value: unknown): value is TranscriptToExtensionMessage => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const type = (value as { type?: unknown }).type;
+    return type === 'ready' || type === 'reload';
+};
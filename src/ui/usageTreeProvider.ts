@@ -0,0 +1,162 @@
+/**
+ * Usage Tree Provider - UI Layer
+ *
+ * Sidebar tree of data roots, projects, 5-hour blocks, Claude Code sessions and
+ * models with token and cost totals. The hierarchy is loaded when the view
+ * first asks for it and re-loaded after a refresh; refreshes while the view is
+ * hidden are deferred until it is shown again. Child nodes are built when
+ * their parent is expanded.
+ *
+ * @module UsageTreeProvider
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { UsageNode, UsageNodeKind } from '../core/usageHierarchy';
+
+/** Id of the contributed tree view. */
+export const USAGE_TREE_VIEW_ID = 'claudeCodeUsage.usageTree';
+
+/** Loads the hierarchy from the current data and settings. */
+export type UsageHierarchyLoader = () => Promise<UsageNode[]>;
+
+const NODE_ICONS: Record<UsageNodeKind, string> = {
+    root: 'database',
+    project: 'folder',
+    block: 'clock',
+    session: 'comment-discussion',
+    model: 'hubot'
+};
+
+/** Formats a token count with K/M suffix. */
+const formatTokens = (tokens: number): string => {
+    if (tokens >= 1_000_000) {
+        return `${(tokens / 1_000_000).toFixed(1)}M`;
+    }
+    if (tokens >= 1000) {
+        return `${(tokens / 1000).toFixed(1)}K`;
+    }
+    return tokens.toString();
+};
+
+/** Formats a block range as "10/19 14:00–19:00". */
+const formatBlockRange = (start: Date, end: Date): string => {
+    const day = start.toLocaleDateString(undefined, { month: '2-digit', day: '2-digit' });
+    const time = (date: Date) => date.toLocaleTimeString(undefined, { hour12: false, hour: '2-digit', minute: '2-digit' });
+    return `${day} ${time(start)}–${time(end)}`;
+};
+
+/** Creates the label of a node. */
+const getNodeLabel = (node: UsageNode): string => {
+    switch (node.kind) {
+        case 'root':
+            if (!node.name) {
+                return 'Unknown data root';
+            }
+            return node.name.startsWith(os.homedir()) ? `~${node.name.slice(os.homedir().length)}` : node.name;
+        case 'project':
+            return path.basename(node.name) || node.name;
+        case 'block':
+            return node.startTime && node.endTime ? formatBlockRange(node.startTime, node.endTime) : 'Unknown block';
+        case 'session':
+            return node.name ? node.name.slice(0, 8) : 'No session (usage.jsonl)';
+        case 'model':
+            return node.name;
+    }
+};
+
+/** Tree data provider of the usage sidebar. */
+export class UsageTreeProvider implements vscode.TreeDataProvider<UsageNode>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<UsageNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private roots: Promise<UsageNode[]> | undefined;
+    private visible = false;
+    private stale = false;
+
+    /**
+     * @param loadHierarchy Builds the hierarchy from the current data and settings
+     */
+    constructor(private readonly loadHierarchy: UsageHierarchyLoader) {}
+
+    /**
+     * Drops the loaded hierarchy; it is re-loaded when the view next asks for it.
+     * While the view is hidden the refresh waits until it is shown.
+     */
+    refresh(): void {
+        if (!this.visible) {
+            this.stale = true;
+            return;
+        }
+        this.stale = false;
+        this.roots = undefined;
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Tracks the visibility of the view and applies a deferred refresh when it is shown.
+     * @param visible Whether the view is visible
+     */
+    setVisible(visible: boolean): void {
+        this.visible = visible;
+        if (visible && this.stale) {
+            this.refresh();
+        }
+    }
+
+    /**
+     * Creates the tree item of a node.
+     * Context values are the node kind, with `.transcript` appended when the
+     * session transcript is known.
+     */
+    getTreeItem(node: UsageNode): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            getNodeLabel(node),
+            node.kind === 'model'
+                ? vscode.TreeItemCollapsibleState.None
+                : node.kind === 'root' ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        const cost = `$${node.estimatedCost.toFixed(2)}`;
+        const requests = `${node.records.length.toLocaleString()} req`;
+
+        item.id = node.id;
+        item.description = `${node.isActive ? 'active · ' : ''}${formatTokens(node.totalTokens)} tokens · ${cost} · ${requests}`;
+        item.iconPath = new vscode.ThemeIcon(node.isActive ? 'pulse' : NODE_ICONS[node.kind]);
+        item.contextValue = node.transcriptPath ? `${node.kind}.transcript` : node.kind;
+        item.tooltip = [
+            node.name || getNodeLabel(node),
+            `${node.totalTokens.toLocaleString()} tokens, ${cost} estimated, ${requests}`,
+            node.transcriptPath ? `Transcript: ${node.transcriptPath}` : undefined
+        ].filter((line): line is string => Boolean(line)).join('\n');
+        if (node.kind === 'session' && node.transcriptPath) {
+            item.command = { command: 'claude-code-usage.showTranscript', title: 'Browse Transcript', arguments: [node] };
+        }
+        return item;
+    }
+
+    /**
+     * Gets the children of a node, or the data roots at the top level.
+     */
+    async getChildren(node?: UsageNode): Promise<UsageNode[]> {
+        if (node) {
+            return node.getChildren();
+        }
+
+        if (!this.roots) {
+            this.roots = this.loadHierarchy().catch(error => {
+                console.error('Error loading usage tree:', error);
+                this.roots = undefined;
+                return [];
+            });
+        }
+        return this.roots;
+    }
+
+    /**
+     * Disposes the change event.
+     */
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
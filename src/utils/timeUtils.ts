@@ -7,15 +7,24 @@ export const floorToHour = (date: Date): Date => {
 };
 
 export const formatTimeUntilReset = (milliseconds: number): string => {
+    const days = Math.floor(milliseconds / (1000 * 60 * 60 * 24));
     const hours = Math.floor(milliseconds / (1000 * 60 * 60));
     const minutes = Math.floor((milliseconds % (1000 * 60 * 60)) / (1000 * 60));
     const seconds = Math.floor((milliseconds % (1000 * 60)) / 1000);
     
-    if (hours > 0) {
+    if (days > 0) {
+        return `${days}d ${hours % 24}h`;
+    } else if (hours > 0) {
         return `${hours}h ${minutes}m`;
     } else if (minutes > 0) {
         return `${minutes}m ${seconds}s`;
     } else {
         return `${seconds}s`;
     }
-};
\ No newline at end of file
+};
+
+export const formatLocalDate = (date: Date): string => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};